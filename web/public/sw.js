@@ -0,0 +1,135 @@
+// Service worker for the installable app. The build replaces the manifest
+// placeholder below with the list of emitted files and a content hash, so
+// every changed build produces a byte-different worker the browser picks up.
+const PRECACHE = self.__PRECACHE_MANIFEST__ ?? { version: 'dev', files: [] };
+const SHELL_CACHE = `relax-shell-${PRECACHE.version}`;
+const RUNTIME_CACHE = 'relax-runtime';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE).then((cache) => cache.addAll(['/', ...PRECACHE.files]))
+    );
+});
+
+// Claiming lets the first visit work offline. The page only reloads on a
+// controller change it asked for, so this never reloads it.
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(
+                keys
+                    .filter((key) => key.startsWith('relax-shell-') && key !== SHELL_CACHE)
+                    .map((key) => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+// The page asks the waiting worker to take over once the user accepts the update
+self.addEventListener('message', (event) => {
+    if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    // Navigations try the network so a new deploy shows up, and fall back to the cached shell
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request).catch(() => caches.match('/', { cacheName: SHELL_CACHE }))
+        );
+        return;
+    }
+
+    if (url.origin === self.location.origin) {
+        event.respondWith(
+            caches.match(request, { cacheName: SHELL_CACHE }).then((cached) => cached ?? fetch(request))
+        );
+        return;
+    }
+
+    // Fonts are served from the cache and refreshed in the background
+    if (FONT_HOSTS.includes(url.hostname)) {
+        event.respondWith(
+            caches.open(RUNTIME_CACHE).then(async (cache) => {
+                const cached = await cache.match(request);
+                const network = fetch(request)
+                    .then((response) => {
+                        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+                        return response;
+                    })
+                    .catch(() => cached);
+                return cached ?? network;
+            })
+        );
+    }
+    // Everything else (Firebase, Google sign-in) goes straight to the network
+});
+
+// Reminders while the app is closed. Mirrors dueReminder in src/lib/reminders.ts,
+// reading the record the page keeps in IndexedDB.
+const REMINDER_GRACE_MINUTES = 60;
+
+const openSettings = () => new Promise((resolve, reject) => {
+    const request = indexedDB.open('relax');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const settingsRequest = (db, mode, run) => new Promise((resolve, reject) => {
+    if (!db.objectStoreNames.contains('settings')) {
+        resolve(undefined);
+        return;
+    }
+    const request = run(db.transaction('settings', mode).objectStore('settings'));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const dateKey = (date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const checkReminders = async () => {
+    const db = await openSettings();
+    try {
+        const state = await settingsRequest(db, 'readonly', (store) => store.get('reminders'));
+        if (!state || Notification.permission !== 'granted') return;
+        const now = new Date();
+        const today = dateKey(now);
+        if (state.goalMetDate === today) return;
+        const current = now.getHours() * 60 + now.getMinutes();
+        const time = state.times.find((t) => {
+            const [hours, minutes] = t.split(':').map(Number);
+            const elapsed = current - (hours * 60 + minutes);
+            return elapsed >= 0 && elapsed <= REMINDER_GRACE_MINUTES && state.fired[t] !== today;
+        });
+        if (!time) return;
+        await settingsRequest(db, 'readwrite', (store) =>
+            store.put({ ...state, fired: { ...state.fired, [time]: today } }, 'reminders'));
+        // Records saved before the title was stored fall back to English
+        await self.registration.showNotification(state.title || 'Time to relax', {
+            body: state.body,
+            icon: '/favicon.png',
+            tag: 'relax-reminder',
+        });
+    } finally {
+        db.close();
+    }
+};
+
+self.addEventListener('periodicsync', (event) => {
+    if (event.tag === 'relax-reminders') event.waitUntil(checkReminders());
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            const open = clients.find((client) => 'focus' in client);
+            return open ? open.focus() : self.clients.openWindow('/');
+        })
+    );
+});
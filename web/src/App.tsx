@@ -1,70 +1,169 @@
-import { useState, useCallback, useEffect } from 'react'
-import { collection, addDoc, getDocs, query, orderBy, limit, serverTimestamp, Timestamp, where } from 'firebase/firestore'
-import { signInWithPopup, onAuthStateChanged, signOut, type User } from 'firebase/auth'
-import { db, auth, googleProvider } from './firebase'
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { signOut } from 'firebase/auth'
+import { auth } from './firebase'
 import { QuotesSidebar } from './components/QuotesSidebar'
+import { MantraManager } from './components/MantraManager'
+import { HistoryItemRow } from './components/HistoryItemRow'
+import { StaleSessionPrompt } from './components/StaleSessionPrompt'
+import { HistoryBrowser } from './components/HistoryBrowser'
+import { StatsPanel } from './components/StatsPanel'
+import { ActivityHeatmap } from './components/ActivityHeatmap'
+import { HistoryTransfer } from './components/HistoryTransfer'
+import { InputSettings } from './components/InputSettings'
+import { TapAnywhere } from './components/TapAnywhere'
+import { UpdatePrompt } from './components/UpdatePrompt'
+import { DailyGoalCard } from './components/DailyGoalCard'
+import { QuoteLibrary } from './components/QuoteLibrary'
+import { ThemePicker } from './components/ThemePicker'
+import { SoundscapeMixer } from './components/SoundscapeMixer'
+import { MoodPicker } from './components/MoodPicker'
+import { CheckInDialog } from './components/CheckInDialog'
+import { SignInDialog } from './components/SignInDialog'
+import { DataSettings } from './components/DataSettings'
+import { CirclesPanel } from './components/CirclesPanel'
+import { useAuth } from './hooks/useAuth'
+import { useMantras } from './hooks/useMantras'
+import { useSessionQueue } from './hooks/useSessionQueue'
+import { useLiveSession } from './hooks/useLiveSession'
+import { useGuidedSession } from './hooks/useGuidedSession'
+import { useCountingInput } from './hooks/useCountingInput'
+import { useServiceWorker } from './hooks/useServiceWorker'
+import { useWakeLock } from './hooks/useWakeLock'
+import { useUserSettings } from './hooks/useUserSettings'
+import { useTodayStats } from './hooks/useTodayStats'
+import { useReminders } from './hooks/useReminders'
+import { useQuoteRotation } from './hooks/useQuoteRotation'
+import { useReducedMotion } from './hooks/useReducedMotion'
+import { useCircles } from './hooks/useCircles'
+import { useAnnouncement } from './hooks/useAnnouncement'
+import { useI18n } from './hooks/useI18n'
+import { useTheme } from './hooks/useTheme'
+import { useSoundscape } from './hooks/useSoundscape'
+import { GuidedSessionSetup } from './components/GuidedSessionSetup'
+import { ProgressRing } from './components/ProgressRing'
+import { BreathGuide } from './components/BreathGuide'
+import { PacingControls } from './components/PacingControls'
+import { findBreathingPattern } from './data/breathingPatterns'
+import { filterQuotes, newCustomQuoteId, quotes, quotesInLanguage } from './data/quotes'
+import { LOCALES } from './data/locales'
+import { isSilent } from './data/soundscapes'
+import { normalizeCheckIn } from './data/moods'
+import { getAudioContext } from './lib/chime'
+import { toHistoryItem } from './lib/sessionQueue'
+import { encodeTimeline } from './lib/timeline'
+import { fetchAllSessions, sessionRepository } from './lib/history'
+import { isGoalMet } from './lib/dailyGoal'
+import { dateFromKey, groupByDate, recordDateFields, sessionDateKey } from './lib/dates'
+import { debugError } from './logger'
+import type { HistoryItem, Locale, MoodCheckIn, Quote, SessionGoal, SoundscapeMix, ThemePreference } from './types'
 import './App.css'
 
-interface HistoryItem {
-  id: string;
-  count: number;
-  word?: string;
-  lostFocusCount?: number;
-  timestamp: Timestamp;
-  startTime?: Timestamp;
-  endTime?: Timestamp;
-  userId: string;
-}
-
-const WORDS = ['relax', 'dont think', 'dont care'] as const;
-type WordType = typeof WORDS[number];
-
-const isLoggingEnabled = import.meta.env.VITE_ENABLE_LOGS === 'true';
-
-const debugError = (message: string, error?: unknown) => {
-  if (isLoggingEnabled) {
-    console.error(message, error);
-  }
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
 };
 
 function App() {
-  const [counts, setCounts] = useState<Record<WordType, number>>({
-    'relax': 0,
-    'dont think': 0,
-    'dont care': 0
-  })
-  const [lostFocusCount, setLostFocusCount] = useState(0)
-  const [currentWord, setCurrentWord] = useState<WordType>('relax')
+  const { liveSession, updateLiveSession, staleSession, resumeStaleSession, discardStaleSession } = useLiveSession()
+  const { counts, lostFocusCount, startTime: sessionStartTime } = liveSession
   const [bump, setBump] = useState(false)
   const [history, setHistory] = useState<HistoryItem[]>([])
   const [isSaving, setIsSaving] = useState(false)
-  const [user, setUser] = useState<User | null>(null)
-  const [isDark, setIsDark] = useState(() => {
-    const saved = localStorage.getItem('theme')
-    return saved ? saved === 'dark' : window.matchMedia('(prefers-color-scheme: dark)').matches
-  })
+  const [saveFailed, setSaveFailed] = useState(false)
+  const { user, isAnonymous, error: signInError, clearError: clearSignInError } = useAuth()
   const [showAllHistory, setShowAllHistory] = useState(false)
-  const [heatmapData, setHeatmapData] = useState<{ date: string; count: number; dayIndex: number }[]>([])
-  const [sessionStartTime, setSessionStartTime] = useState<number | null>(null)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [showMantraManager, setShowMantraManager] = useState(false)
+  const [showGuidedSetup, setShowGuidedSetup] = useState(false)
+  const [showHistoryBrowser, setShowHistoryBrowser] = useState(false)
+  const [showStats, setShowStats] = useState(false)
+  const [showInputSettings, setShowInputSettings] = useState(false)
+  const [tapMode, setTapMode] = useState(false)
+  const [showQuoteLibrary, setShowQuoteLibrary] = useState(false)
+  const [showThemePicker, setShowThemePicker] = useState(false)
+  const [showSoundscape, setShowSoundscape] = useState(false)
+  const [showSignIn, setShowSignIn] = useState(false)
+  const [showDataSettings, setShowDataSettings] = useState(false)
+  const [showCircles, setShowCircles] = useState(false)
+  // Set while the after-session check-in is open, to the moment the session ended
+  const [checkInEndTime, setCheckInEndTime] = useState<number | null>(null)
+  const [keepAwake, setKeepAwake] = useState(() => localStorage.getItem('keepAwake') === 'true')
+  const reducedMotion = useReducedMotion()
+  // Rotating quotes start paused for anyone who has asked the system for less motion
+  const [quotesPaused, setQuotesPaused] = useState(() => {
+    const saved = localStorage.getItem('quotesPaused')
+    return saved ? saved === 'true' : window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  })
+  const [totalSessions, setTotalSessions] = useState<number | null>(null)
+  const { locale, dir, setLocale, t, formatDate, formatList } = useI18n()
+  const { mantras, activeMantras, isLoaded: mantrasLoaded, createMantra, renameMantra, moveMantra, setMantraArchived } = useMantras(user, locale)
+  const { settings, updateSettings } = useUserSettings(user)
+  const { isDark, hasImage, setBackgroundImage, removeBackgroundImage } = useTheme(settings.theme)
+
+  const updateTheme = (update: Partial<ThemePreference>) => {
+    updateSettings({ theme: { ...settings.theme, ...update } })
+  }
 
-  // Auth Listener
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-      setUser(currentUser)
+  // Saving under an existing name replaces that preset's mix
+  const saveSoundscapePreset = (name: string, mix: SoundscapeMix) => {
+    const existing = settings.soundscapePresets.find(p => p.name === name)
+    updateSettings({
+      soundscapePresets: existing
+        ? settings.soundscapePresets.map(p => (p.id === existing.id ? { ...p, mix } : p))
+        : [...settings.soundscapePresets, { id: crypto.randomUUID(), name, mix }]
     })
-    return () => unsubscribe()
-  }, [])
+  }
+
+  const deleteSoundscapePreset = (id: string) => {
+    updateSettings({ soundscapePresets: settings.soundscapePresets.filter(p => p.id !== id) })
+  }
+
+  const allQuotes = useMemo(() => [...quotes, ...settings.customQuotes], [settings.customQuotes])
+  const languageQuotes = useMemo(() => quotesInLanguage(allQuotes, locale), [allQuotes, locale])
+  // Pinned quotes show whatever their language
+  const quotePool = filterQuotes(settings.quoteFilter === 'favourites' ? allQuotes : languageQuotes, settings.quoteFilter, settings.favouriteQuotes)
+  // An empty filter (no favourites yet) falls back to every quote rather than blank sidebars
+  const quoteSlots = useQuoteRotation(quotePool.length > 0 ? quotePool : languageQuotes, quotesPaused)
+
+  const toggleFavouriteQuote = (id: string) => {
+    const favourites = settings.favouriteQuotes
+    updateSettings({ favouriteQuotes: favourites.includes(id) ? favourites.filter(f => f !== id) : [...favourites, id] })
+  }
+
+  const addQuote = (quote: Omit<Quote, 'id'>) => {
+    updateSettings({ customQuotes: [...settings.customQuotes, { ...quote, id: newCustomQuoteId() }] })
+  }
+
+  const removeQuote = (id: string) => {
+    updateSettings({
+      customQuotes: settings.customQuotes.filter(q => q.id !== id),
+      favouriteQuotes: settings.favouriteQuotes.filter(f => f !== id)
+    })
+  }
+
+  // Falls back to the first active mantra when the selected one is archived or belongs to another account
+  const currentMantra = activeMantras.find(m => m.id === liveSession.mantraId) ?? activeMantras[0]
+  const currentCount = counts[currentMantra.id] ?? 0
+  const announcedRepeats = t('app.announcementRepeats', { count: currentCount })
+  const announcement = useAnnouncement(sessionStartTime === null
+    ? ''
+    : lostFocusCount > 0
+      ? t('app.announcement', { repeats: announcedRepeats, lostFocus: t('app.announcementLostFocus', { count: lostFocusCount }) })
+      : announcedRepeats)
+  const pacingPattern = findBreathingPattern(liveSession.pacing?.patternId)
 
-  // Theme Management
   useEffect(() => {
-    if (isDark) {
-      document.body.classList.add('dark-mode')
-      localStorage.setItem('theme', 'dark')
-    } else {
-      document.body.classList.remove('dark-mode')
-      localStorage.setItem('theme', 'light')
-    }
-  }, [isDark])
+    localStorage.setItem('keepAwake', String(keepAwake))
+  }, [keepAwake])
+
+  useEffect(() => {
+    localStorage.setItem('quotesPaused', String(quotesPaused))
+  }, [quotesPaused])
+
+  const { updateAvailable, applyUpdate, dismissUpdate } = useServiceWorker()
+  // The screen only stays on while a session is actually running
+  useWakeLock(keepAwake && (sessionStartTime !== null || tapMode))
+  const { playing: soundscapePlaying, sleepUntil, setSleepTimer } = useSoundscape(liveSession.soundscape, sessionStartTime !== null)
 
   // Fetch History (User-specific)
   const fetchHistory = useCallback(async () => {
@@ -73,276 +172,420 @@ function App() {
       return;
     }
     try {
-      // 1. Get the 3 most recent sessions for the detailed list
-      const qRecent = query(
-        collection(db, 'history'),
-        where('userId', '==', user.uid),
-        orderBy('timestamp', 'desc'),
-        limit(10)
-      );
-      const querySnapshotRecent = await getDocs(qRecent);
-      const docsRecent = querySnapshotRecent.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as HistoryItem[];
-      setHistory(docsRecent);
-
-      // 2. Fetch history for heatmap (Simplified to avoid index issues)
-      const qHeatmap = query(
-        collection(db, 'history'),
-        where('userId', '==', user.uid),
-        orderBy('timestamp', 'desc'),
-        limit(500)
-      );
-
-      const querySnapshotHeatmap = await getDocs(qHeatmap);
-      const statsMap: Record<string, number> = {};
-
-      const getLocalDateKey = (date: Date) => {
-        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-      };
-
-      querySnapshotHeatmap.docs.forEach(doc => {
-        const data = doc.data();
-        if (data.timestamp) {
-          const dateKey = getLocalDateKey(data.timestamp.toDate());
-          // Count sessions (number of entries), not the total repeats within them
-          statsMap[dateKey] = (statsMap[dateKey] || 0) + 1;
-        }
-      });
-
-      // Generate last 182 days (26 weeks) of data points
-      const days: { date: string; count: number; dayIndex: number }[] = [];
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      // Loop to include exactly 182 days ending with TODAY
-      for (let i = 181; i >= 0; i--) {
-        const d = new Date(today);
-        d.setDate(d.getDate() - i);
-        const dateKey = getLocalDateKey(d);
-        days.push({
-          date: dateKey,
-          count: statsMap[dateKey] || 0,
-          dayIndex: d.getDay()
-        });
-      }
-      setHeatmapData(days);
-
+      // 1. Get the 10 most recent sessions for the detailed list
+      const recent = await sessionRepository.fetchPage(user.uid, {}, 10);
+      setHistory(recent.items);
+      setTotalSessions(await sessionRepository.count(user.uid));
+      setHistoryVersion(v => v + 1);
     } catch (e) {
-      console.error("Heatmap Fetch Error:", e);
       debugError("Error fetching history: ", e);
     }
   }, [user]);
 
-  const isToday = (timestamp: Timestamp) => {
-    if (!timestamp) return false;
-    const date = timestamp.toDate();
-    const today = new Date();
-    return date.getDate() === today.getDate() &&
-      date.getMonth() === today.getMonth() &&
-      date.getFullYear() === today.getFullYear();
-  };
+  const { pendingSessions, guestSessions, enqueue, refresh: refreshLocalSessions } = useSessionQueue(user, fetchHistory);
 
-  const formatDuration = (start?: Timestamp, end?: Timestamp) => {
-    if (!start || !end) return null;
-    const diffMs = end.toMillis() - start.toMillis();
-    const seconds = Math.floor((diffMs / 1000) % 60);
-    const minutes = Math.floor((diffMs / (1000 * 60)) % 60);
-    const hours = Math.floor(diffMs / (1000 * 60 * 60));
-
-    const parts = [];
-    if (hours > 0) parts.push(`${hours}h`);
-    if (minutes > 0) parts.push(`${minutes}m`);
-    if (seconds > 0 || parts.length === 0) parts.push(`${seconds}s`);
-    return parts.join(' ');
-  };
+  const loadAllSessions = useCallback(() => fetchAllSessions(user?.uid ?? null), [user]);
 
-  const todaySessions = history.filter(item => isToday(item.timestamp));
-  const pastSessions = history.filter(item => !isToday(item.timestamp));
+  // Sessions still waiting on the device are shown alongside the ones already in Firestore
+  const localItems = [...pendingSessions, ...guestSessions]
+    .map(toHistoryItem)
+    .filter(item => !history.some(h => h.id === item.id));
+  const visibleHistory = [...localItems, ...history]
+    .sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis());
 
-  // Group past sessions by date
-  const groupedPastSessions = pastSessions.reduce((groups, item) => {
-    const date = item.timestamp?.toDate().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-    if (!groups[date]) {
-      groups[date] = [];
-    }
-    groups[date].push(item);
-    return groups;
-  }, {} as Record<string, HistoryItem[]>);
+  const todayStats = useTodayStats(user, localItems, historyVersion)
+  const circles = useCircles(user, sessionStartTime, historyVersion)
+  const goalMetToday = isGoalMet(settings.dailyGoal, todayStats)
+  useReminders(settings.reminders, settings.dailyGoal, goalMetToday ? todayStats.date : null)
+
+  // Sessions keep the day they were recorded on; "today" is today where the device is now
+  const todaySessions = visibleHistory.filter(item => sessionDateKey(item) === todayStats.date);
+  const pastSessions = visibleHistory.filter(item => sessionDateKey(item) !== todayStats.date);
+  const groupedPastSessions = groupByDate(pastSessions);
 
   useEffect(() => {
     fetchHistory();
   }, [fetchHistory]);
 
-  const handleLogin = async () => {
-    try {
-      await signInWithPopup(auth, googleProvider)
-    } catch (e) {
-      debugError("Login Error: ", e)
-    }
-  }
-
   const handleLogout = async () => {
+    // A guest account can't be signed back in to
+    if (isAnonymous && !window.confirm(t('auth.confirmGuestLogout'))) return
     try {
       await signOut(auth)
-      setCounts({
-        'relax': 0,
-        'dont think': 0,
-        'dont care': 0
-      })
-      setLostFocusCount(0)
-      setSessionStartTime(null)
+      updateLiveSession(() => ({ counts: {}, lostFocusCount: 0, startTime: null, events: [] }))
     } catch (e) {
       debugError("Logout Error: ", e)
     }
   }
 
   const handleIncrement = useCallback(() => {
-    if (!sessionStartTime) {
-      setSessionStartTime(Date.now());
-    }
-    setCounts((prev) => ({
-      ...prev,
-      [currentWord]: prev[currentWord] + 1
+    const now = Date.now()
+    updateLiveSession((prev) => ({
+      startTime: prev.startTime ?? now,
+      counts: {
+        ...prev.counts,
+        [currentMantra.id]: (prev.counts[currentMantra.id] ?? 0) + 1
+      },
+      events: [...prev.events, { type: 'repeat', at: now, mantraId: currentMantra.id }]
     }))
-    setBump(true)
-    setTimeout(() => setBump(false), 300)
+    if (!reducedMotion) {
+      setBump(true)
+      setTimeout(() => setBump(false), 300)
+    }
 
     if (window.navigator.vibrate) {
       window.navigator.vibrate(10)
     }
-  }, [currentWord, sessionStartTime])
+  }, [currentMantra.id, reducedMotion, updateLiveSession])
 
+  // Clears the current mantra's count along with the session-wide lost focus and timing
   const handleReset = useCallback(() => {
-    setCounts((prev) => ({
-      ...prev,
-      [currentWord]: 0
+    updateLiveSession((prev) => ({
+      counts: { ...prev.counts, [currentMantra.id]: 0 },
+      lostFocusCount: 0,
+      startTime: null,
+      events: prev.events.filter(e => e.type === 'repeat' && e.mantraId !== currentMantra.id),
+      goal: null,
+      checkInBefore: null
     }));
-    setLostFocusCount(0);
-    setSessionStartTime(null);
-  }, [currentWord]);
+    setSaveFailed(false);
+  }, [currentMantra.id, updateLiveSession]);
+
 
   const handleLostFocus = useCallback(() => {
-    if (!sessionStartTime) {
-      setSessionStartTime(Date.now());
-    }
-    setLostFocusCount(prev => prev + 1);
+    const now = Date.now();
+    updateLiveSession((prev) => ({
+      startTime: prev.startTime ?? now,
+      lostFocusCount: prev.lostFocusCount + 1,
+      events: [...prev.events, { type: 'lostFocus', at: now }]
+    }));
     if (window.navigator.vibrate) {
       window.navigator.vibrate([10, 50, 10]);
     }
-  }, [sessionStartTime]);
-
-  const handleSave = async () => {
-    const currentCount = counts[currentWord];
-    if (currentCount === 0 || !user) return;
+  }, [updateLiveSession]);
+
+  // Keys, media buttons and tap mode share the plus and lost focus buttons' double-count guard
+  const {
+    bindings,
+    setBindings,
+    increment: countRepeat,
+    lostFocus: countLostFocus
+  } = useCountingInput(handleIncrement, handleLostFocus, !showStats && !showHistoryBrowser && checkInEndTime === null)
+
+  // Sessions land in the local queue first, so saving works offline and for guests
+  const handleSave = async (after: MoodCheckIn | null = null, endTime = Date.now()) => {
+    // Before the account's mantras load, the current one is a placeholder whose id isn't the account's
+    if (currentCount === 0 || !mantrasLoaded) return;
     setIsSaving(true);
+    setSaveFailed(false);
     try {
-      const endTime = Date.now();
-      await addDoc(collection(db, 'history'), {
+      const startTime = sessionStartTime ?? endTime;
+      const before = liveSession.checkInBefore;
+      const sessionEvents = liveSession.events.filter(e => e.type === 'lostFocus' || e.mantraId === currentMantra.id);
+      await enqueue({
+        id: crypto.randomUUID(),
         count: currentCount,
-        word: currentWord,
+        word: currentMantra.text,
+        mantraId: currentMantra.id,
         lostFocusCount: lostFocusCount,
-        timestamp: serverTimestamp(),
-        startTime: sessionStartTime ? Timestamp.fromMillis(sessionStartTime) : serverTimestamp(),
-        endTime: Timestamp.fromMillis(endTime),
-        userId: user.uid
+        startTime: startTime,
+        endTime: endTime,
+        ...recordDateFields(startTime),
+        timeline: encodeTimeline(sessionEvents, startTime),
+        ...(liveSession.goal ? { goal: liveSession.goal, goalReached: guidedProgress >= 1 } : {}),
+        ...(liveSession.pacing ? { pacing: liveSession.pacing } : {}),
+        ...(liveSession.soundscape && !isSilent(liveSession.soundscape.mix) ? { soundscape: liveSession.soundscape } : {}),
+        ...(before || after ? {
+          checkIn: {
+            ...(before ? { before: normalizeCheckIn(before) } : {}),
+            ...(after ? { after: normalizeCheckIn(after) } : {})
+          }
+        } : {})
       });
-      setCounts(prev => ({
-        ...prev,
-        [currentWord]: 0
-      }));
-      setLostFocusCount(0);
-      setSessionStartTime(null);
-      fetchHistory();
+      handleReset();
     } catch (e) {
-      debugError("Error adding document: ", e);
-      alert("Failed to save. Please ensure 'history' collection is set up in Firestore with proper rules.");
+      debugError("Error saving session locally: ", e);
+      // Nothing is reset, so the same session can be saved again
+      setSaveFailed(true);
     } finally {
       setIsSaving(false);
     }
   };
 
+  // With check-ins on, saving first asks how the session went; the end time is taken now
+  const requestSave = () => {
+    if (currentCount === 0 || !mantrasLoaded) return
+    if (settings.moodCheckIns) {
+      setCheckInEndTime(Date.now())
+    } else {
+      handleSave()
+    }
+  }
+
+  // Guided sessions save themselves once the goal is reached
+  const { progress: guidedProgress, remainingMs } = useGuidedSession(liveSession.goal, sessionStartTime, currentCount, requestSave)
+
+  const handleStartGuided = (goal: SessionGoal) => {
+    // Unlock audio while we still have the click's user gesture
+    getAudioContext()
+    const now = Date.now()
+    updateLiveSession((prev) => ({ goal, startTime: prev.startTime ?? now }))
+    setShowGuidedSetup(false)
+  }
+
   useEffect(() => {
     document.title = 'relax'
   }, [])
 
+  useEffect(() => {
+    document.documentElement.lang = locale
+    document.documentElement.dir = dir
+  }, [locale, dir])
+
   return (
     <>
       <div className="background-overlay"></div>
-      <QuotesSidebar side="left" />
-      <QuotesSidebar side="right" />
+      {(['left', 'right'] as const).map(side => (
+        <QuotesSidebar
+          key={side}
+          side={side}
+          quote={quoteSlots[side].quote}
+          visible={quoteSlots[side].visible}
+          favourite={quoteSlots[side].quote ? settings.favouriteQuotes.includes(quoteSlots[side].quote.id) : false}
+          onToggleFavourite={toggleFavouriteQuote}
+          paused={quotesPaused}
+          onTogglePaused={() => setQuotesPaused(!quotesPaused)}
+        />
+      ))}
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
       <main className="container">
         <div className="glass-card">
           <div className="card-header">
-            <button
-              className="theme-toggle"
-              onClick={() => setIsDark(!isDark)}
-              aria-label="Toggle theme"
-            >
-              {isDark ? (
+            <div className="header-tools">
+              <button
+                className="theme-toggle"
+                onClick={() => updateTheme({ mode: isDark ? 'light' : 'dark' })}
+                aria-label={t('app.toggleTheme')}
+              >
+                {isDark ? (
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <circle cx="12" cy="12" r="5" /><line x1="12" y1="1" x2="12" y2="3" /><line x1="12" y1="21" x2="12" y2="23" /><line x1="4.22" y1="4.22" x2="5.64" y2="5.64" /><line x1="18.36" y1="18.36" x2="19.78" y2="19.78" /><line x1="1" y1="12" x2="3" y2="12" /><line x1="21" y1="12" x2="23" y2="12" /><line x1="4.22" y1="19.78" x2="5.64" y2="18.36" /><line x1="18.36" y1="5.64" x2="19.78" y2="4.22" />
+                  </svg>
+                ) : (
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z" />
+                  </svg>
+                )}
+              </button>
+              <button
+                className="theme-toggle"
+                onClick={() => setShowQuoteLibrary(true)}
+                aria-label={t('app.quotes')}
+                title={t('app.quotes')}
+              >
                 <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <circle cx="12" cy="12" r="5" /><line x1="12" y1="1" x2="12" y2="3" /><line x1="12" y1="21" x2="12" y2="23" /><line x1="4.22" y1="4.22" x2="5.64" y2="5.64" /><line x1="18.36" y1="18.36" x2="19.78" y2="19.78" /><line x1="1" y1="12" x2="3" y2="12" /><line x1="21" y1="12" x2="23" y2="12" /><line x1="4.22" y1="19.78" x2="5.64" y2="18.36" /><line x1="18.36" y1="5.64" x2="19.78" y2="4.22" />
+                  <path d="M3 21c3 0 7-1 7-8V5H3v7h4c0 4-2 6-4 6" /><path d="M14 21c3 0 7-1 7-8V5h-7v7h4c0 4-2 6-4 6" />
                 </svg>
-              ) : (
+              </button>
+              <button
+                className="theme-toggle"
+                onClick={() => setShowThemePicker(true)}
+                aria-label={t('app.appearance')}
+                title={t('app.appearance')}
+              >
                 <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z" />
+                  <path d="M12 2a10 10 0 0 0 0 20c1.1 0 2-.9 2-2 0-.5-.2-1-.5-1.3-.3-.4-.5-.8-.5-1.3 0-1.1.9-2 2-2h2.4A5.6 5.6 0 0 0 22 9.8C22 5.5 17.5 2 12 2z" /><circle cx="7.5" cy="10.5" r="1" /><circle cx="12" cy="7.5" r="1" /><circle cx="16.5" cy="10.5" r="1" />
                 </svg>
-              )}
-            </button>
+              </button>
+              <select
+                className="locale-select"
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+                title={t('app.language')}
+              >
+                {LOCALES.map(l => (
+                  <option key={l.id} value={l.id} lang={l.id}>{l.label}</option>
+                ))}
+              </select>
+            </div>
 
             {user ? (
               <div className="user-info">
-                <img src={user.photoURL || ''} alt="" className="user-avatar" />
-                <button className="auth-btn logout-btn" onClick={handleLogout} title="Logout">
+                {isAnonymous ? (
+                  <button className="mantra-text-btn" onClick={() => setShowSignIn(true)}>{t('auth.saveAccount')}</button>
+                ) : (
+                  <button className="avatar-btn" onClick={() => setShowSignIn(true)} title={t('auth.linkTitle')} aria-label={t('auth.linkTitle')}>
+                    {user.photoURL ? (
+                      <img src={user.photoURL} alt="" className="user-avatar" />
+                    ) : (
+                      <span className="user-avatar user-initial" aria-hidden="true">{(user.email ?? '?')[0].toUpperCase()}</span>
+                    )}
+                  </button>
+                )}
+                <button className="auth-btn logout-btn" onClick={() => setShowCircles(true)} title={t('circles.title')} aria-label={t('circles.title')}>
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" /><circle cx="9" cy="7" r="4" /><path d="M23 21v-2a4 4 0 0 0-3-3.87M16 3.13a4 4 0 0 1 0 7.75" />
+                  </svg>
+                </button>
+                <button className="auth-btn logout-btn" onClick={() => setShowDataSettings(true)} title={t('data.title')} aria-label={t('data.title')}>
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+                  </svg>
+                </button>
+                <button className="auth-btn logout-btn" onClick={handleLogout} title={t('app.logout')} aria-label={t('app.logout')}>
                   <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                     <path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4M16 17l5-5-5-5M21 12H9" />
                   </svg>
                 </button>
               </div>
             ) : (
-              <button className="auth-btn login-btn" onClick={handleLogin} aria-label="Login with Google">
-                <svg width="20" height="20" viewBox="0 0 48 48">
-                  <path fill="#EA4335" d="M24 9.5c3.54 0 6.71 1.22 9.21 3.6l6.85-6.85C35.9 2.38 30.47 0 24 0 14.62 0 6.51 5.38 2.56 13.22l7.98 6.19C12.43 13.72 17.74 9.5 24 9.5z" />
-                  <path fill="#4285F4" d="M46.98 24.55c0-1.57-.15-3.09-.38-4.55H24v9.02h12.94c-.58 2.96-2.26 5.48-4.78 7.18l7.73 6c4.51-4.18 7.09-10.36 7.09-17.65z" />
-                  <path fill="#FBBC05" d="M10.53 28.59c-.48-1.45-.76-2.99-.76-4.59s.27-3.14.76-4.59l-7.98-6.19C.92 16.46 0 20.12 0 24c0 3.88.92 7.54 2.56 10.78l7.97-6.19z" />
-                  <path fill="#34A853" d="M24 48c6.48 0 11.93-2.13 15.89-5.81l-7.73-6c-2.15 1.45-4.92 2.3-8.16 2.3-6.26 0-11.57-4.22-13.47-9.91l-7.98 6.19C6.51 42.62 14.62 48 24 48z" />
-                  <path fill="none" d="M0 0h48v48H0z" />
+              <button className="auth-btn login-btn" onClick={() => setShowSignIn(true)} title={t('app.login')} aria-label={t('app.login')}>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M15 3h4a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2h-4M10 17l5-5-5-5M15 12H3" />
                 </svg>
               </button>
             )}
           </div>
 
+          {staleSession && (
+            <StaleSessionPrompt
+              session={staleSession}
+              onResume={resumeStaleSession}
+              onDiscard={discardStaleSession}
+            />
+          )}
+
+          {circles.sittingNow.length > 0 && (
+            <button className="sitting-together" onClick={() => setShowCircles(true)}>
+              {t('circles.sittingNow', {
+                count: circles.sittingNow.length,
+                names: formatList(circles.sittingNow.map(member => member.displayName)),
+              })}
+            </button>
+          )}
+
           <div className="word-toggle-container">
             <div className="word-toggle">
-              {WORDS.map((w) => (
+              {activeMantras.map((m) => (
                 <button
-                  key={w}
-                  className={`toggle-option ${currentWord === w ? 'active' : ''}`}
-                  onClick={() => setCurrentWord(w)}
+                  key={m.id}
+                  className={`toggle-option ${currentMantra.id === m.id ? 'active' : ''}`}
+                  onClick={() => updateLiveSession(() => ({ mantraId: m.id }))}
+                  disabled={!mantrasLoaded}
                 >
-                  {w}
+                  {m.text}
                 </button>
               ))}
             </div>
+            <button
+              className="edit-mantras-btn"
+              onClick={() => setShowMantraManager(!showMantraManager)}
+              aria-label={t('app.editMantras')}
+              title={t('app.editMantras')}
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M12 20h9" /><path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+              </svg>
+            </button>
           </div>
 
+          {showMantraManager && (
+            <MantraManager
+              mantras={mantras}
+              onCreate={createMantra}
+              onRename={renameMantra}
+              onMove={moveMantra}
+              onArchive={setMantraArchived}
+              onClose={() => setShowMantraManager(false)}
+            />
+          )}
+
           <div className="main-word-area">
-            <p className="instruction-text">repeat the word</p>
-            <span className="relax-word">{currentWord}</span>
+            <p className="instruction-text">{t('app.instruction')}</p>
+            <span className="relax-word">{currentMantra.text}</span>
+            {pacingPattern && liveSession.pacing && (
+              <BreathGuide
+                key={pacingPattern.id}
+                pattern={pacingPattern}
+                onCycle={liveSession.pacing.autoCount ? handleIncrement : undefined}
+              />
+            )}
+            <PacingControls
+              pacing={liveSession.pacing}
+              onChange={(pacing) => updateLiveSession(() => ({ pacing }))}
+            />
           </div>
 
+          {showGuidedSetup && (
+            <GuidedSessionSetup onStart={handleStartGuided} onClose={() => setShowGuidedSetup(false)} />
+          )}
+
+          {showInputSettings && (
+            <InputSettings
+              bindings={bindings}
+              onChange={setBindings}
+              keepAwake={keepAwake}
+              onKeepAwakeChange={setKeepAwake}
+              moodCheckIns={settings.moodCheckIns}
+              onMoodCheckInsChange={(moodCheckIns) => updateSettings({ moodCheckIns })}
+              onStartTapMode={() => {
+                setShowInputSettings(false)
+                setTapMode(true)
+              }}
+              onClose={() => setShowInputSettings(false)}
+            />
+          )}
+
+          {showSoundscape && (
+            <SoundscapeMixer
+              soundscape={liveSession.soundscape}
+              onChange={(soundscape) => updateLiveSession(() => ({ soundscape }))}
+              presets={settings.soundscapePresets}
+              onSavePreset={saveSoundscapePreset}
+              onDeletePreset={deleteSoundscapePreset}
+              playing={soundscapePlaying}
+              sleepUntil={sleepUntil}
+              onSleepTimer={setSleepTimer}
+              onClose={() => setShowSoundscape(false)}
+            />
+          )}
+
+          {settings.moodCheckIns && sessionStartTime === null && (
+            <MoodPicker
+              label={t('app.arriving')}
+              checkIn={liveSession.checkInBefore}
+              onChange={(checkInBefore) => updateLiveSession(() => ({ checkInBefore }))}
+            />
+          )}
+
           <div className="counter-container">
-            <div className="main-counter">
-              <span className={`counter ${bump ? 'bump' : ''}`}>
-                {counts[currentWord]}
-              </span>
-              <p className="counter-label">Repeats</p>
-            </div>
+            {liveSession.goal ? (
+              <div className="guided-counter">
+                <ProgressRing progress={guidedProgress}>
+                  <span className={`counter ${bump ? 'bump' : ''}`}>
+                    {currentCount}
+                  </span>
+                  <p className="counter-label">
+                    {remainingMs !== null ? formatCountdown(remainingMs) : t('app.ofTarget', { target: liveSession.goal.target })}
+                  </p>
+                </ProgressRing>
+                <button className="end-guided-btn" onClick={() => updateLiveSession(() => ({ goal: null }))}>
+                  {t('app.endGuided')}
+                </button>
+              </div>
+            ) : (
+              <div className="main-counter">
+                <span className={`counter ${bump ? 'bump' : ''}`}>
+                  {currentCount}
+                </span>
+                <p className="counter-label">{t('app.repeats')}</p>
+              </div>
+            )}
             {lostFocusCount > 0 && (
-              <div className="lost-focus-badge" title="Lost Focus Count">
+              <div className="lost-focus-badge" title={t('app.lostFocusCount')}>
                 <span className="lost-focus-count">{lostFocusCount}</span>
-                <span className="lost-focus-label">Lost Focus</span>
+                <span className="lost-focus-label">{t('app.lostFocus')}</span>
               </div>
             )}
           </div>
@@ -350,8 +593,8 @@ function App() {
           <div className="primary-action">
             <button
               className="plus-btn"
-              onClick={handleIncrement}
-              aria-label={`Increment ${currentWord} count`}
+              onClick={countRepeat}
+              aria-label={t('app.increment', { mantra: currentMantra.text })}
             >
               <svg width="44" height="44" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                 <path d="M12 5V19M5 12H19" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" />
@@ -360,11 +603,42 @@ function App() {
           </div>
 
           <div className="action-buttons">
+            <button
+              className="action-btn guided-btn"
+              onClick={() => setShowGuidedSetup(!showGuidedSetup)}
+              disabled={liveSession.goal !== null}
+              title={t('app.startGuided')}
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <circle cx="12" cy="13" r="8" /><path d="M12 9v4l2 2" /><path d="M9 2h6" />
+              </svg>
+            </button>
+
+            <button
+              className="action-btn input-settings-btn"
+              onClick={() => setShowInputSettings(!showInputSettings)}
+              title={t('app.handsFree')}
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <rect x="2" y="6" width="20" height="12" rx="2" /><path d="M6 10h.01M10 10h.01M14 10h.01M18 10h.01M8 14h8" />
+              </svg>
+            </button>
+
+            <button
+              className={`action-btn soundscape-btn ${soundscapePlaying ? 'active' : ''}`}
+              onClick={() => setShowSoundscape(!showSoundscape)}
+              title={t('app.soundscape')}
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M3 18v-6a9 9 0 0 1 18 0v6" /><path d="M21 19a2 2 0 0 1-2 2h-1v-6h3zM3 19a2 2 0 0 0 2 2h1v-6H3z" />
+              </svg>
+            </button>
+
             <button
               className="action-btn reset-btn"
               onClick={handleReset}
-              disabled={counts[currentWord] === 0 && lostFocusCount === 0}
-              title="Reset session"
+              disabled={currentCount === 0 && lostFocusCount === 0}
+              title={t('app.reset')}
             >
               <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                 <path d="M1 4v6h6" /><path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10" />
@@ -373,8 +647,8 @@ function App() {
 
             <button
               className="action-btn lost-focus-btn"
-              onClick={handleLostFocus}
-              title="I'm distracted / lost focus"
+              onClick={countLostFocus}
+              title={t('app.distracted')}
             >
               <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                 <circle cx="12" cy="12" r="10" /><path d="M16 16s-1.5-2-4-2-4 2-4 2" /><line x1="9" y1="9" x2="9.01" y2="9" /><line x1="15" y1="9" x2="15.01" y2="9" />
@@ -383,9 +657,9 @@ function App() {
 
             <button
               className="action-btn save-btn"
-              onClick={handleSave}
-              disabled={counts[currentWord] === 0 || isSaving || !user}
-              title={!user ? "Login to save your sessions" : "Save session to history"}
+              onClick={requestSave}
+              disabled={currentCount === 0 || isSaving || !mantrasLoaded}
+              title={!user ? t('app.saveOnDevice') : t('app.saveToHistory')}
             >
               {isSaving ? (
                 <span className="loading-dots">...</span>
@@ -396,89 +670,44 @@ function App() {
               )}
             </button>
           </div>
+          {saveFailed && <p className="input-hint" role="alert">{t('app.saveError')}</p>}
+
+          <DailyGoalCard
+            goal={settings.dailyGoal}
+            reminders={settings.reminders}
+            today={todayStats}
+            onChange={updateSettings}
+          />
 
           <div className="history-section">
-            <div className="heatmap-container">
-              <div className="heatmap-header">
-                <p className="group-label">Activity Heatmap</p>
-                <div className="heatmap-legend">
-                  <span>Less</span>
-                  <div className="legend-cell level-0"></div>
-                  <div className="legend-cell level-1"></div>
-                  <div className="legend-cell level-2"></div>
-                  <div className="legend-cell level-3"></div>
-                  <div className="legend-cell level-4"></div>
-                  <span>More</span>
-                </div>
-              </div>
-              <div className="heatmap-grid">
-                {heatmapData.length > 0 ? heatmapData.map((day) => {
-                  let level = 0;
-                  if (day.count > 0) {
-                    if (day.count === 1) level = 1;
-                    else if (day.count <= 3) level = 2;
-                    else if (day.count <= 5) level = 3;
-                    else level = 4;
-                  }
-                  return (
-                    <div
-                      key={day.date}
-                      className={`heatmap-cell level-${level}`}
-                      title={`${day.date}: ${day.count} sessions`}
-                      style={{ gridRow: day.dayIndex + 1 }}
-                    />
-                  );
-                }) : (
-                  <div className="heatmap-loading">Loading activity...</div>
-                )}
-              </div>
-            </div>
+            <ActivityHeatmap user={user} localItems={localItems} refreshKey={historyVersion} goal={settings.dailyGoal} today={todayStats.date} />
 
             <div className="history-header">
-              <h3 className="history-title">{user ? "Recent Details" : "Session History"}</h3>
-              {user && history.length > 0 && (
-                <div className="total-sessions-badge">
-                  <span className="badge-label">TOTAL SESSIONS:</span>
-                  <span className="badge-value">{history.length}</span>
+              <h3 className="history-title">{user ? t('app.recentDetails') : t('app.onThisDevice')}</h3>
+              {visibleHistory.length > 0 && (
+                <div className="history-header-actions">
+                  {user && (
+                    <div className="total-sessions-badge">
+                      <span className="badge-label">{t('history.totalSessions')}</span>
+                      <span className="badge-value">{totalSessions !== null ? totalSessions + pendingSessions.length : '…'}</span>
+                    </div>
+                  )}
+                  <button className="collapse-history-btn" onClick={() => setShowStats(true)}>{t('app.stats')}</button>
+                  {user && (
+                    <button className="collapse-history-btn" onClick={() => setShowHistoryBrowser(true)}>{t('app.browseAll')}</button>
+                  )}
                 </div>
               )}
             </div>
 
             <div className="history-list">
-              {!user ? (
-                <p className="no-history">Login to see your history</p>
-              ) : history.length > 0 ? (
+              {visibleHistory.length > 0 ? (
                 <>
                   {todaySessions.length > 0 && (
                     <div className="history-group">
-                      <p className="group-label">Today</p>
+                      <p className="group-label">{t('app.today')}</p>
                       {todaySessions.map((item) => (
-                        <div key={item.id} className="history-item">
-                          <div className="history-info">
-                            <div className="history-main-info">
-                              <span className="history-count">{item.count}</span>
-                              <span className="history-word">{item.word || 'relax'}</span>
-                            </div>
-                            {item.lostFocusCount !== undefined && item.lostFocusCount > 0 && (
-                              <div className="history-lost-focus" title="Lost focus occurrences">
-                                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                                  <circle cx="12" cy="12" r="10" /><line x1="8" y1="15" x2="16" y2="15" /><line x1="9" y1="9" x2="9.01" y2="9" /><line x1="15" y1="9" x2="15.01" y2="9" />
-                                </svg>
-                                <span>{item.lostFocusCount}</span>
-                              </div>
-                            )}
-                          </div>
-                          <div className="history-meta">
-                            {item.startTime && item.endTime && (
-                              <span className="history-duration" title="Session duration">
-                                {formatDuration(item.startTime, item.endTime)}
-                              </span>
-                            )}
-                            <span className="history-date">
-                              {item.timestamp?.toDate().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
-                            </span>
-                          </div>
-                        </div>
+                        <HistoryItemRow key={item.id} item={item} mantras={mantras} />
                       ))}
                     </div>
                   )}
@@ -487,47 +716,22 @@ function App() {
                     <div className="history-group past-sessions">
                       {!showAllHistory ? (
                         <button className="expand-history-btn" onClick={() => setShowAllHistory(true)}>
-                          Show Past Sessions ({pastSessions.length})
+                          {t('app.showPast', { count: pastSessions.length })}
                         </button>
                       ) : (
                         <>
                           <div className="group-header">
-                            <p className="group-label">Earlier</p>
-                            <button className="collapse-history-btn" onClick={() => setShowAllHistory(false)}>Hide</button>
+                            <p className="group-label">{t('app.earlier')}</p>
+                            <button className="collapse-history-btn" onClick={() => setShowAllHistory(false)}>{t('app.hide')}</button>
                           </div>
-                          {Object.entries(groupedPastSessions).map(([date, sessions]) => (
+                          {groupedPastSessions.map(([date, sessions]) => (
                             <div key={date} className="daily-group">
                               <div className="daily-group-header">
-                                <span className="daily-group-date">{date}</span>
-                                <span className="daily-group-count">{sessions.length} sessions</span>
+                                <span className="daily-group-date">{formatDate(dateFromKey(date))}</span>
+                                <span className="daily-group-count">{t('history.sessionCount', { count: sessions.length })}</span>
                               </div>
                               {sessions.map((item) => (
-                                <div key={item.id} className="history-item">
-                                  <div className="history-info">
-                                    <div className="history-main-info">
-                                      <span className="history-count">{item.count}</span>
-                                      <span className="history-word">{item.word || 'relax'}</span>
-                                    </div>
-                                    {item.lostFocusCount !== undefined && item.lostFocusCount > 0 && (
-                                      <div className="history-lost-focus" title="Lost focus occurrences">
-                                        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                                          <circle cx="12" cy="12" r="10" /><line x1="8" y1="15" x2="16" y2="15" /><line x1="9" y1="9" x2="9.01" y2="9" /><line x1="15" y1="9" x2="15.01" y2="9" />
-                                        </svg>
-                                        <span>{item.lostFocusCount}</span>
-                                      </div>
-                                    )}
-                                  </div>
-                                  <div className="history-meta">
-                                    {item.startTime && item.endTime && (
-                                      <span className="history-duration" title="Session duration">
-                                        {formatDuration(item.startTime, item.endTime)}
-                                      </span>
-                                    )}
-                                    <span className="history-date">
-                                      {item.timestamp?.toDate().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
-                                    </span>
-                                  </div>
-                                </div>
+                                <HistoryItemRow key={item.id} item={item} mantras={mantras} />
                               ))}
                             </div>
                           ))}
@@ -537,16 +741,106 @@ function App() {
                   )}
 
                   {todaySessions.length === 0 && !showAllHistory && (
-                    <p className="no-history">No sessions today yet</p>
+                    <p className="no-history">{t('app.noSessionsToday')}</p>
                   )}
                 </>
               ) : (
-                <p className="no-history">No sessions saved yet</p>
+                <p className="no-history">{t('app.noSessions')}</p>
               )}
             </div>
+
+            <HistoryTransfer user={user} mantras={mantras} onImported={fetchHistory} />
           </div>
         </div>
       </main>
+
+      {updateAvailable && <UpdatePrompt onUpdate={applyUpdate} onDismiss={dismissUpdate} />}
+
+      {tapMode && (
+        <TapAnywhere
+          count={currentCount}
+          onIncrement={countRepeat}
+          onLostFocus={countLostFocus}
+          onExit={() => setTapMode(false)}
+        />
+      )}
+
+      {showQuoteLibrary && (
+        <QuoteLibrary
+          quotes={allQuotes}
+          customCount={settings.customQuotes.length}
+          favourites={settings.favouriteQuotes}
+          filter={settings.quoteFilter}
+          onFilterChange={(quoteFilter) => updateSettings({ quoteFilter })}
+          onToggleFavourite={toggleFavouriteQuote}
+          onAdd={addQuote}
+          onRemove={removeQuote}
+          onClose={() => setShowQuoteLibrary(false)}
+        />
+      )}
+
+      {checkInEndTime !== null && (
+        <CheckInDialog
+          onSave={(after) => {
+            handleSave(after, checkInEndTime)
+            setCheckInEndTime(null)
+          }}
+          onCancel={() => setCheckInEndTime(null)}
+        />
+      )}
+
+      {showThemePicker && (
+        <ThemePicker
+          theme={settings.theme}
+          isDark={isDark}
+          hasImage={hasImage}
+          onChange={updateTheme}
+          onUploadImage={setBackgroundImage}
+          onRemoveImage={removeBackgroundImage}
+          onClose={() => setShowThemePicker(false)}
+        />
+      )}
+
+      {showStats && (
+        <StatsPanel mantras={mantras} loadItems={loadAllSessions} onClose={() => setShowStats(false)} />
+      )}
+
+      {(showSignIn || signInError) && (
+        <SignInDialog
+          user={user}
+          initialError={signInError}
+          onClose={() => {
+            setShowSignIn(false)
+            clearSignInError()
+          }}
+        />
+      )}
+
+      {showDataSettings && user && (
+        <DataSettings
+          user={user}
+          mantras={mantras}
+          settings={settings}
+          onClose={() => setShowDataSettings(false)}
+          onDeleted={() => {
+            refreshLocalSessions()
+            fetchHistory()
+          }}
+        />
+      )}
+
+      {showCircles && user && (
+        <CirclesPanel user={user} circles={circles} onClose={() => setShowCircles(false)} />
+      )}
+
+      {showHistoryBrowser && user && (
+        <HistoryBrowser
+          user={user}
+          mantras={mantras}
+          onClose={() => setShowHistoryBrowser(false)}
+          onChanged={fetchHistory}
+        />
+      )}
     </>
   )
 }
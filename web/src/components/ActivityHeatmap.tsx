@@ -0,0 +1,171 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { User } from 'firebase/auth';
+import { useI18n } from '../hooks/useI18n';
+import { itemContribution } from '../lib/dailyStats';
+import { dateFromKey } from '../lib/dates';
+import { sessionRepository } from '../lib/history';
+import { isGoalMet } from '../lib/dailyGoal';
+import {
+    buildHeatmapDays,
+    HEATMAP_METRICS,
+    HEATMAP_RANGES,
+    levelFor,
+    percentileThresholds,
+    rangeStart,
+    type HeatmapMetric,
+    type HeatmapRange,
+} from '../lib/heatmap';
+import { debugError } from '../logger';
+import type { DailyGoal, DailyStats, HistoryItem } from '../types';
+
+interface ActivityHeatmapProps {
+    user: User | null;
+    // Sessions not in the rollups yet (pending sync, or everything for guests)
+    localItems: HistoryItem[];
+    // Bumped by the parent whenever the remote history changes
+    refreshKey: number;
+    // Days that reached it are outlined
+    goal: DailyGoal | null;
+    // Today's date key, which the parent rolls over at midnight
+    today: string;
+}
+
+// Minutes keep one decimal while they are small; everything else is whole
+const roundValue = (value: number, metric: HeatmapMetric) =>
+    metric === 'minutes' && value < 10 ? Math.round(value * 10) / 10 : Math.round(value);
+
+export function ActivityHeatmap({ user, localItems, refreshKey, goal, today }: ActivityHeatmapProps) {
+    const [metric, setMetric] = useState<HeatmapMetric>('sessions');
+    const [range, setRange] = useState<HeatmapRange>('26w');
+    const [remote, setRemote] = useState<{ key: string; stats: DailyStats[] } | null>(null);
+    const [showTable, setShowTable] = useState(false);
+    const { t, formatDate, formatNumber } = useI18n();
+
+    const fromDate = range === 'all' ? undefined : rangeStart(range, today);
+    const requestKey = `${user?.uid ?? 'guest'}:${range}:${refreshKey}`;
+
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const stats = await sessionRepository.fetchDailyStats(user.uid, fromDate);
+                if (!cancelled) setRemote({ key: requestKey, stats });
+            } catch (e) {
+                debugError('Error fetching daily stats: ', e);
+            }
+        };
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [user, fromDate, requestKey]);
+
+    const isLoading = user !== null && remote?.key !== requestKey;
+
+    const { days, thresholds, statsByDate } = useMemo(() => {
+        const statsByDate: Record<string, DailyStats> = {};
+        const add = (entry: DailyStats) => {
+            const existing = statsByDate[entry.date] ?? { date: entry.date, sessions: 0, repeats: 0, minutes: 0, lostFocus: 0 };
+            statsByDate[entry.date] = {
+                date: entry.date,
+                sessions: existing.sessions + entry.sessions,
+                repeats: existing.repeats + entry.repeats,
+                minutes: existing.minutes + entry.minutes,
+                lostFocus: existing.lostFocus + entry.lostFocus,
+            };
+        };
+        if (user && remote) remote.stats.forEach(add);
+        localItems.forEach(item => add(itemContribution(item)));
+
+        const earliest = Object.keys(statsByDate).sort()[0];
+        const built = buildHeatmapDays(statsByDate, metric, rangeStart(range, today, earliest), today);
+        return { days: built, thresholds: percentileThresholds(built.map(d => d.value)), statsByDate };
+    }, [user, remote, localItems, metric, range, today]);
+
+    const amount = (value: number) => t(`heatmap.amount.${metric}`, { count: roundValue(value, metric) });
+    const dayLabel = (date: string) => formatDate(dateFromKey(date));
+    // The grid is colour only, so screen readers get a summary and the table holds the detail
+    const activeDays = days.filter(d => d.value > 0).reverse();
+    const total = activeDays.reduce((sum, d) => sum + d.value, 0);
+    const summary = t('heatmap.summary', { days: t('heatmap.activeDays', { count: activeDays.length }), total: amount(total) });
+
+    return (
+        <div className="heatmap-container">
+            <div className="heatmap-header">
+                <p className="group-label">{t('heatmap.title')}</p>
+                <div
+                    className="heatmap-legend"
+                    title={t('heatmap.levels', {
+                        first: formatNumber(roundValue(thresholds[0], metric)),
+                        second: formatNumber(roundValue(thresholds[1], metric)),
+                        third: formatNumber(roundValue(thresholds[2], metric)),
+                    })}
+                >
+                    <span>{t('heatmap.less')}</span>
+                    <div className="legend-cell level-0"></div>
+                    <div className="legend-cell level-1"></div>
+                    <div className="legend-cell level-2"></div>
+                    <div className="legend-cell level-3"></div>
+                    <div className="legend-cell level-4"></div>
+                    <span>{t('heatmap.more')}</span>
+                </div>
+            </div>
+            <div className="heatmap-controls">
+                <select className="heatmap-select" value={metric} onChange={(e) => setMetric(e.target.value as HeatmapMetric)} aria-label={t('heatmap.metricLabel')}>
+                    {HEATMAP_METRICS.map(m => <option key={m} value={m}>{t(`heatmap.metric.${m}`)}</option>)}
+                </select>
+                <select className="heatmap-select" value={range} onChange={(e) => setRange(e.target.value as HeatmapRange)} aria-label={t('heatmap.rangeLabel')}>
+                    {HEATMAP_RANGES.map(r => <option key={r} value={r}>{t(`heatmap.range.${r}`)}</option>)}
+                </select>
+                <button className="heatmap-select" onClick={() => setShowTable(!showTable)} aria-pressed={showTable}>
+                    {t(showTable ? 'heatmap.showGrid' : 'heatmap.showTable')}
+                </button>
+            </div>
+            {showTable && !isLoading ? (
+                <div className="heatmap-table-wrapper">
+                    <table className="heatmap-table">
+                        <caption className="sr-only">{summary}</caption>
+                        <thead>
+                            <tr>
+                                <th scope="col">{t('heatmap.date')}</th>
+                                <th scope="col">{t(`heatmap.metric.${metric}`)}</th>
+                                {goal && <th scope="col">{t('heatmap.goal')}</th>}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {activeDays.map(day => (
+                                <tr key={day.date}>
+                                    <th scope="row">{dayLabel(day.date)}</th>
+                                    <td>{amount(day.value)}</td>
+                                    {goal && <td>{isGoalMet(goal, statsByDate[day.date]) ? t('heatmap.goalMet') : '—'}</td>}
+                                </tr>
+                            ))}
+                            {activeDays.length === 0 && (
+                                <tr>
+                                    <td colSpan={goal ? 3 : 2} className="no-history">{t('heatmap.empty')}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <div className="heatmap-grid" role="img" aria-label={isLoading ? t('heatmap.loading') : t('heatmap.gridLabel', { summary })}>
+                    {!isLoading ? days.map((day) => {
+                        const goalMet = isGoalMet(goal, statsByDate[day.date]);
+                        return (
+                            <div
+                                key={day.date}
+                                className={`heatmap-cell level-${levelFor(day.value, thresholds)} ${goalMet ? 'goal-met' : ''}`}
+                                title={t(goalMet ? 'heatmap.dayGoalMet' : 'heatmap.day', { date: dayLabel(day.date), amount: amount(day.value) })}
+                                style={{ gridRow: day.dayIndex + 1 }}
+                            />
+                        );
+                    }) : (
+                        <div className="heatmap-loading">{t('heatmap.loading')}</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import type { BreathPhase, BreathingPattern } from '../types';
+
+interface BreathGuideProps {
+    pattern: BreathingPattern;
+    // Called after each full breath cycle
+    onCycle?: () => void;
+}
+
+const AUTO_COUNT_CLAIM_KEY = 'breathAutoCount';
+const TAB_ID = crypto.randomUUID();
+
+interface AutoCountClaim {
+    tab: string;
+    until: number;
+}
+
+const readClaim = (): AutoCountClaim | null => {
+    try {
+        return JSON.parse(localStorage.getItem(AUTO_COUNT_CLAIM_KEY) ?? 'null');
+    } catch {
+        return null;
+    }
+};
+
+// Every open tab runs the same cycle; only the tab holding the claim counts, renewing
+// it each breath. It lapses if that tab closes or stalls, and another takes over.
+const claimAutoCount = (cycleMs: number) => {
+    const now = Date.now();
+    const claim = readClaim();
+    if (claim && claim.tab !== TAB_ID && claim.until > now) return false;
+    localStorage.setItem(AUTO_COUNT_CLAIM_KEY, JSON.stringify({ tab: TAB_ID, until: now + cycleMs * 2 }));
+    return true;
+};
+
+const releaseAutoCount = () => {
+    if (readClaim()?.tab === TAB_ID) localStorage.removeItem(AUTO_COUNT_CLAIM_KEY);
+};
+
+const PHASE_LABELS: Record<BreathPhase['kind'], MessageKey> = {
+    inhale: 'breath.inhale',
+    hold: 'breath.hold',
+    exhale: 'breath.exhale',
+    rest: 'breath.hold',
+};
+
+// Mount with a new key when the pattern changes so the cycle starts from the top
+export function BreathGuide({ pattern, onCycle }: BreathGuideProps) {
+    // -1 is a short "ready" state so the first inhale animates from the contracted size
+    const [phaseIndex, setPhaseIndex] = useState(-1);
+    const onCycleRef = useRef(onCycle);
+    const { t, formatNumber } = useI18n();
+
+    useEffect(() => {
+        onCycleRef.current = onCycle;
+    }, [onCycle]);
+
+    // Hand the claim on as soon as this tab stops counting
+    const autoCount = onCycle !== undefined;
+    useEffect(() => {
+        if (!autoCount) return;
+        return releaseAutoCount;
+    }, [autoCount]);
+
+    useEffect(() => {
+        const delay = phaseIndex < 0 ? 50 : pattern.phases[phaseIndex].seconds * 1000;
+        const timeout = setTimeout(() => {
+            const next = (phaseIndex + 1) % pattern.phases.length;
+            if (phaseIndex >= 0 && next === 0 && onCycleRef.current) {
+                const cycleMs = pattern.phases.reduce((total, p) => total + p.seconds * 1000, 0);
+                if (claimAutoCount(cycleMs)) onCycleRef.current();
+            }
+            setPhaseIndex(next);
+        }, delay);
+        return () => clearTimeout(timeout);
+    }, [phaseIndex, pattern]);
+
+    const phase = phaseIndex >= 0 ? pattern.phases[phaseIndex] : null;
+    const expanded = phase?.kind === 'inhale' || phase?.kind === 'hold';
+    // Inhale and exhale animate over the whole phase; holds keep the current size
+    const transitionSeconds = phase?.kind === 'inhale' || phase?.kind === 'exhale' ? phase.seconds : 0.3;
+
+    return (
+        <div className="breath-guide">
+            <div
+                className={`breath-circle ${expanded ? 'expanded' : ''}`}
+                style={{ transitionDuration: `${transitionSeconds}s` }}
+            />
+            <p className="breath-phase">{phase ? `${t(PHASE_LABELS[phase.kind])} · ${formatNumber(phase.seconds)}` : t('breath.ready')}</p>
+        </div>
+    );
+}
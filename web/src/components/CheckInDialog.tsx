@@ -0,0 +1,39 @@
+import { useState } from 'react';
+import { MoodPicker } from './MoodPicker';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../hooks/useI18n';
+import type { MoodCheckIn } from '../types';
+
+interface CheckInDialogProps {
+    onSave: (checkIn: MoodCheckIn | null) => void;
+    onCancel: () => void;
+}
+
+// Asked once the session is over, just before it is saved
+export function CheckInDialog({ onSave, onCancel }: CheckInDialogProps) {
+    const panelRef = useDialog<HTMLDivElement>(onCancel);
+    const [checkIn, setCheckIn] = useState<MoodCheckIn | null>(null);
+    const { t } = useI18n();
+
+    return (
+        <div className="overlay-backdrop" onClick={onCancel}>
+            <div
+                ref={panelRef}
+                className="glass-card overlay-panel check-in-dialog"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('checkIn.label')}
+                tabIndex={-1}
+            >
+                <MoodPicker label={t('checkIn.prompt')} checkIn={checkIn} onChange={setCheckIn} />
+                <div className="check-in-actions">
+                    <button className="mantra-text-btn" onClick={() => onSave(null)}>{t('common.skip')}</button>
+                    <button className="expand-history-btn" onClick={() => onSave(checkIn)} disabled={!checkIn}>
+                        {t('checkIn.save')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
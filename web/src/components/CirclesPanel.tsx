@@ -0,0 +1,199 @@
+import { useState, type FormEvent } from 'react';
+import type { User } from 'firebase/auth';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../hooks/useI18n';
+import type { Circles } from '../hooks/useCircles';
+import {
+    currentStreak,
+    isSitting,
+    MAX_CIRCLE_NAME_LENGTH,
+    MAX_DISPLAY_NAME_LENGTH,
+    todayFigures,
+} from '../lib/circles';
+import { getLocalDateKey } from '../lib/dates';
+import type { MessageKey } from '../lib/i18n';
+import { debugError } from '../logger';
+import type { Circle } from '../types';
+
+interface CirclesPanelProps {
+    user: User;
+    circles: Circles;
+    onClose: () => void;
+}
+
+export function CirclesPanel({ user, circles, onClose }: CirclesPanelProps) {
+    const panelRef = useDialog<HTMLDivElement>(onClose);
+    const [displayName, setDisplayName] = useState(user.displayName ?? '');
+    const [circleName, setCircleName] = useState('');
+    const [code, setCode] = useState('');
+    const [copied, setCopied] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const { t, formatDuration } = useI18n();
+    const today = getLocalDateKey(new Date(circles.now));
+    const named = displayName.trim().length > 0;
+
+    const run = async (action: () => Promise<unknown>, errorKey: MessageKey) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            debugError('Circle error: ', e);
+            setError(errorKey);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCreate = (e: FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await circles.create(circleName, displayName);
+            setCircleName('');
+        }, 'circles.createError');
+    };
+
+    const handleJoin = (e: FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const circleId = await circles.join(code, displayName);
+            if (circleId === null) throw new Error('Unknown invite code');
+            setCode('');
+        }, 'circles.joinError');
+    };
+
+    const handleCopy = async (circle: Circle) => {
+        try {
+            await navigator.clipboard.writeText(circle.inviteCode);
+            setCopied(circle.id);
+        } catch (e) {
+            debugError('Error copying invite code: ', e);
+        }
+    };
+
+    const handleLeave = (circle: Circle) => {
+        const owner = circle.ownerId === user.uid;
+        if (!window.confirm(t(owner ? 'circles.confirmDelete' : 'circles.confirmLeave', { name: circle.name }))) return;
+        run(() => (owner ? circles.remove(circle) : circles.leave(circle)), 'circles.leaveError');
+    };
+
+    return (
+        <div className="overlay-backdrop" onClick={onClose}>
+            <div
+                ref={panelRef}
+                className="glass-card overlay-panel circles-panel"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('circles.title')}
+                tabIndex={-1}
+            >
+                <div className="group-header overlay-header">
+                    <p className="group-label">{t('circles.title')}</p>
+                    <button className="collapse-history-btn" onClick={onClose}>{t('common.close')}</button>
+                </div>
+                <p className="input-hint">{t('circles.privacy')}</p>
+
+                {circles.circles.map(circle => {
+                    const owner = circle.ownerId === user.uid;
+                    const members = [...circles.membersOf(circle.id)]
+                        .sort((a, b) => currentStreak(b, today) - currentStreak(a, today) || a.displayName.localeCompare(b.displayName));
+                    return (
+                        <section key={circle.id} className="circle-section">
+                            <div className="circle-heading">
+                                <p className="group-label">{circle.name}</p>
+                                <button className="mantra-text-btn delete-btn" onClick={() => handleLeave(circle)} disabled={isBusy}>
+                                    {owner ? t('circles.delete') : t('circles.leave')}
+                                </button>
+                            </div>
+                            <div className="circle-invite">
+                                <span className="input-hint">{t('circles.inviteCode')}</span>
+                                <code className="circle-code">{circle.inviteCode}</code>
+                                <button className="mantra-text-btn" onClick={() => handleCopy(circle)}>
+                                    {copied === circle.id ? t('circles.copied') : t('circles.copy')}
+                                </button>
+                                {owner && (
+                                    <button
+                                        className="mantra-text-btn"
+                                        onClick={() => run(() => circles.replaceCode(circle), 'circles.codeError')}
+                                        disabled={isBusy}
+                                        title={t('circles.newCodeHint')}
+                                    >
+                                        {t('circles.newCode')}
+                                    </button>
+                                )}
+                            </div>
+                            <ul className="circle-members">
+                                {members.map(member => {
+                                    const figures = todayFigures(member, today);
+                                    const sitting = isSitting(member, circles.now);
+                                    return (
+                                        <li key={member.userId} className={`circle-member ${sitting ? 'sitting' : ''}`}>
+                                            <span className="circle-member-name">
+                                                {member.userId === user.uid ? t('circles.you', { name: member.displayName }) : member.displayName}
+                                            </span>
+                                            {sitting && member.sittingSince !== null && (
+                                                <span className="circle-sitting">
+                                                    {t('circles.sittingFor', { duration: formatDuration(Math.max(circles.now - member.sittingSince, 60 * 1000)) })}
+                                                </span>
+                                            )}
+                                            <span className="circle-member-stats">
+                                                {t('circles.streak', { count: currentStreak(member, today) })}
+                                                {' · '}
+                                                {t('circles.today', { count: figures.sessions, minutes: figures.minutes })}
+                                                {' · '}
+                                                {t('circles.totals', { count: member.totals.sessions, minutes: member.totals.minutes })}
+                                            </span>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </section>
+                    );
+                })}
+
+                <section className="circle-section">
+                    <label className="input-hint" htmlFor="circle-display-name">{t('circles.displayName')}</label>
+                    <input
+                        id="circle-display-name"
+                        className="mantra-input"
+                        value={displayName}
+                        onChange={(e) => setDisplayName(e.target.value)}
+                        maxLength={MAX_DISPLAY_NAME_LENGTH}
+                        autoComplete="nickname"
+                    />
+                    <form className="circle-form" onSubmit={handleCreate}>
+                        <input
+                            className="mantra-input"
+                            value={circleName}
+                            onChange={(e) => setCircleName(e.target.value)}
+                            placeholder={t('circles.namePlaceholder')}
+                            aria-label={t('circles.nameLabel')}
+                            maxLength={MAX_CIRCLE_NAME_LENGTH}
+                        />
+                        <button className="mantra-text-btn" type="submit" disabled={isBusy || !named || !circleName.trim()}>
+                            {t('circles.create')}
+                        </button>
+                    </form>
+                    <form className="circle-form" onSubmit={handleJoin}>
+                        <input
+                            className="mantra-input circle-code-input"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            placeholder={t('circles.codePlaceholder')}
+                            aria-label={t('circles.codeLabel')}
+                            autoCapitalize="characters"
+                            spellCheck={false}
+                        />
+                        <button className="mantra-text-btn" type="submit" disabled={isBusy || !named || !code.trim()}>
+                            {t('circles.join')}
+                        </button>
+                    </form>
+                </section>
+
+                {error && <p className="input-hint" role="alert">{t(error)}</p>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { clampGoalTarget, GOAL_METRICS, goalProgress, MAX_REMINDERS, maxGoalTarget } from '../lib/dailyGoal';
+import { useI18n } from '../hooks/useI18n';
+import type { DailyGoal, DailyStats, UserSettings } from '../types';
+
+interface DailyGoalCardProps {
+    goal: DailyGoal | null;
+    reminders: string[];
+    today: DailyStats;
+    onChange: (update: Partial<UserSettings>) => void;
+}
+
+const DEFAULT_TARGETS: Record<DailyGoal['metric'], number> = { sessions: 2, repeats: 108, minutes: 10 };
+
+const formatValue = (value: number, metric: DailyGoal['metric']) =>
+    metric === 'minutes' ? Math.floor(value) : value;
+
+export function DailyGoalCard({ goal, reminders, today, onChange }: DailyGoalCardProps) {
+    const [editing, setEditing] = useState(false);
+    const [newTime, setNewTime] = useState('20:00');
+    // What's typed in the target box, saved when the box loses focus
+    const [draftTarget, setDraftTarget] = useState<string | null>(null);
+    const [permission, setPermission] = useState(() => ('Notification' in window ? Notification.permission : 'denied'));
+    const { t, formatNumber } = useI18n();
+
+    const addReminder = async () => {
+        if (!newTime || reminders.includes(newTime) || reminders.length >= MAX_REMINDERS) return;
+        // Ask here, while we have the click's user gesture
+        if ('Notification' in window && Notification.permission === 'default') {
+            setPermission(await Notification.requestPermission());
+        }
+        onChange({ reminders: [...reminders, newTime].sort() });
+    };
+
+    const commitTarget = () => {
+        if (!goal || draftTarget === null) return;
+        const target = clampGoalTarget(Number(draftTarget), goal.metric);
+        setDraftTarget(null);
+        if (target !== goal.target) onChange({ dailyGoal: { ...goal, target } });
+    };
+
+    const unit = goal ? t(`goal.unit.${goal.metric}`) : '';
+    const progress = goal ? goalProgress(goal, today) : 0;
+
+    return (
+        <div className="daily-goal">
+            <div className="group-header">
+                <p className="group-label">{t('goal.title')}</p>
+                <button className="collapse-history-btn" onClick={() => setEditing(!editing)}>
+                    {editing ? t('common.done') : goal ? t('common.edit') : t('goal.set')}
+                </button>
+            </div>
+
+            {goal && (
+                <div className="daily-goal-progress" title={formatNumber(progress, { style: 'percent' })}>
+                    <div className="daily-goal-bar">
+                        <div className={`daily-goal-fill ${progress >= 1 ? 'met' : ''}`} style={{ width: `${progress * 100}%` }} />
+                    </div>
+                    <span className="daily-goal-text">
+                        {progress >= 1 ? t('goal.met') : ''}
+                        {formatNumber(formatValue(today[goal.metric], goal.metric))} / {formatNumber(goal.target)} {unit}
+                    </span>
+                </div>
+            )}
+
+            {editing && (
+                <div className="daily-goal-settings">
+                    <div className="guided-presets">
+                        <select
+                            className="mantra-input"
+                            value={goal?.metric ?? ''}
+                            onChange={(e) => {
+                                const metric = e.target.value as DailyGoal['metric'] | '';
+                                setDraftTarget(null);
+                                onChange({ dailyGoal: metric ? { metric, target: DEFAULT_TARGETS[metric] } : null });
+                            }}
+                            aria-label={t('goal.type')}
+                        >
+                            <option value="">{t('goal.none')}</option>
+                            {GOAL_METRICS.map(metric => (
+                                <option key={metric} value={metric}>{t(`goal.metric.${metric}`)}</option>
+                            ))}
+                        </select>
+                        {goal && (
+                            <input
+                                className="mantra-input guided-target-input"
+                                type="number"
+                                min={1}
+                                max={maxGoalTarget(goal.metric)}
+                                step={1}
+                                value={draftTarget ?? goal.target}
+                                onChange={(e) => setDraftTarget(e.target.value)}
+                                onBlur={commitTarget}
+                                onKeyDown={(e) => { if (e.key === 'Enter') commitTarget(); }}
+                                aria-label={t('goal.target')}
+                            />
+                        )}
+                    </div>
+
+                    <p className="group-label">{t('goal.reminders')}</p>
+                    {reminders.map(time => (
+                        <div key={time} className="daily-goal-reminder">
+                            <span>{time}</span>
+                            <button
+                                className="mantra-text-btn"
+                                onClick={() => onChange({ reminders: reminders.filter(r => r !== time) })}
+                            >
+                                {t('common.remove')}
+                            </button>
+                        </div>
+                    ))}
+                    {reminders.length < MAX_REMINDERS && (
+                        <div className="daily-goal-reminder">
+                            <input
+                                className="mantra-input"
+                                type="time"
+                                value={newTime}
+                                onChange={(e) => setNewTime(e.target.value)}
+                                aria-label={t('goal.reminderTime')}
+                            />
+                            <button className="mantra-text-btn" onClick={addReminder}>{t('common.add')}</button>
+                        </div>
+                    )}
+                    {reminders.length > 0 && permission !== 'granted' && (
+                        <p className="input-hint">{t('goal.blocked')}</p>
+                    )}
+                    {reminders.length > 0 && (
+                        <p className="input-hint">{t('goal.skipped')}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import type { User } from 'firebase/auth';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../hooks/useI18n';
+import { buildArchive, deleteAccount, deleteAllHistory } from '../lib/accountData';
+import { reauthenticate, ReauthenticationError, signInErrorKey } from '../lib/auth';
+import { getLocalDateKey } from '../lib/dates';
+import { sessionRepository } from '../lib/history';
+import { downloadFile } from '../lib/historyTransfer';
+import type { MessageKey } from '../lib/i18n';
+import { debugError } from '../logger';
+import type { Mantra, UserSettings } from '../types';
+
+interface DataSettingsProps {
+    user: User;
+    mantras: Mantra[];
+    settings: UserSettings;
+    onClose: () => void;
+    // Called once the history is gone, so the main card can clear its lists
+    onDeleted: () => void;
+}
+
+type Step = 'idle' | 'confirm' | 'deleting' | 'done';
+
+export function DataSettings({ user, mantras, settings, onClose, onDeleted }: DataSettingsProps) {
+    const [step, setStep] = useState<Step>('idle');
+    const [withAccount, setWithAccount] = useState(false);
+    const [confirmText, setConfirmText] = useState('');
+    const [archived, setArchived] = useState(false);
+    const [isArchiving, setIsArchiving] = useState(false);
+    const [progress, setProgress] = useState<{ deleted: number; total: number } | null>(null);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const { t } = useI18n();
+    // Closing mid-deletion would hide the progress, not stop the deletion
+    const close = () => {
+        if (step !== 'deleting') onClose();
+    };
+    const panelRef = useDialog<HTMLDivElement>(close);
+
+    const handleArchive = async () => {
+        setIsArchiving(true);
+        setError(null);
+        try {
+            downloadFile(
+                await buildArchive(user, mantras, settings),
+                `relax-archive-${getLocalDateKey(new Date())}.json`,
+                'application/json'
+            );
+            setArchived(true);
+        } catch (e) {
+            debugError('Error building archive: ', e);
+            setError('data.archiveError');
+        } finally {
+            setIsArchiving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        setError(null);
+        try {
+            // Asked before anything is removed, so a failed sign-in leaves the data alone
+            if (withAccount) await reauthenticate(user);
+            setStep('deleting');
+            const total = await sessionRepository.count(user.uid);
+            setProgress({ deleted: 0, total });
+            await deleteAllHistory(user.uid, deleted => setProgress({ deleted, total: Math.max(total, deleted) }));
+            onDeleted();
+            if (withAccount) await deleteAccount(user);
+            setStep('done');
+        } catch (e) {
+            if (e instanceof ReauthenticationError) {
+                setError(e.key);
+                setStep('confirm');
+                return;
+            }
+            debugError('Error deleting data: ', e);
+            setError(signInErrorKey(e) === 'auth.recentLogin' ? 'auth.recentLogin' : 'data.deleteError');
+            setStep('confirm');
+        }
+    };
+
+    const confirmWord = t('data.confirmWord');
+    const confirmed = confirmText.trim().toLocaleLowerCase() === confirmWord.toLocaleLowerCase();
+
+    return (
+        <div className="overlay-backdrop" onClick={close}>
+            <div
+                ref={panelRef}
+                className="glass-card overlay-panel data-settings"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('data.title')}
+                tabIndex={-1}
+            >
+                <div className="group-header overlay-header">
+                    <p className="group-label">{t('data.title')}</p>
+                    <button className="collapse-history-btn" onClick={close} disabled={step === 'deleting'}>{t('common.close')}</button>
+                </div>
+
+                <section className="data-section">
+                    <p className="group-label">{t('data.archiveTitle')}</p>
+                    <p className="input-hint">{t('data.archiveHint')}</p>
+                    <button className="mantra-text-btn" onClick={handleArchive} disabled={isArchiving || step === 'deleting'}>
+                        {isArchiving ? t('common.loading') : t('data.archive')}
+                    </button>
+                    {archived && <p className="input-hint" role="status">{t('data.archived')}</p>}
+                </section>
+
+                <section className="data-section">
+                    <p className="group-label">{t('data.deleteTitle')}</p>
+                    {step === 'idle' && (
+                        <>
+                            <p className="input-hint">{t('data.deleteHint')}</p>
+                            <label className="data-option">
+                                <input type="checkbox" checked={withAccount} onChange={(e) => setWithAccount(e.target.checked)} />
+                                {t('data.withAccount')}
+                            </label>
+                            <button className="mantra-text-btn delete-btn" onClick={() => setStep('confirm')}>
+                                {withAccount ? t('data.deleteAccount') : t('data.deleteHistory')}
+                            </button>
+                        </>
+                    )}
+
+                    {step === 'confirm' && (
+                        <>
+                            <p className="input-hint" role="alert">
+                                {withAccount ? t('data.confirmAccount') : t('data.confirmHistory')}
+                                {!archived && ` ${t('data.noArchive')}`}
+                            </p>
+                            <input
+                                className="mantra-input"
+                                value={confirmText}
+                                onChange={(e) => setConfirmText(e.target.value)}
+                                placeholder={confirmWord}
+                                aria-label={t('data.confirmLabel', { word: confirmWord })}
+                            />
+                            <p className="input-hint">{t('data.confirmLabel', { word: confirmWord })}</p>
+                            <div className="check-in-actions">
+                                <button className="mantra-text-btn" onClick={() => {
+                                    setStep('idle');
+                                    setConfirmText('');
+                                }}>
+                                    {t('common.cancel')}
+                                </button>
+                                <button className="expand-history-btn delete-btn" onClick={handleDelete} disabled={!confirmed}>
+                                    {t('data.deleteForever')}
+                                </button>
+                            </div>
+                        </>
+                    )}
+
+                    {step === 'deleting' && progress && (
+                        <div role="status">
+                            <progress className="data-progress" value={progress.deleted} max={Math.max(progress.total, 1)} />
+                            <p className="input-hint">{t('data.progress', { deleted: progress.deleted, total: progress.total })}</p>
+                        </div>
+                    )}
+
+                    {step === 'done' && <p className="input-hint" role="status">{t('data.deleted')}</p>}
+                </section>
+
+                {error && <p className="input-hint" role="alert">{t(error)}</p>}
+            </div>
+        </div>
+    );
+}
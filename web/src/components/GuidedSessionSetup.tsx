@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { SessionGoal } from '../types';
+
+interface GuidedSessionSetupProps {
+    onStart: (goal: SessionGoal) => void;
+    onClose: () => void;
+}
+
+const DURATION_PRESETS = [5, 10, 15, 20, 30];
+const COUNT_PRESETS = [54, 108, 216, 500];
+// Seconds between chimes; each has a 'guided.chime.<value>' label
+const CHIME_OPTIONS = [0, 30, 60, 300] as const;
+
+export function GuidedSessionSetup({ onStart, onClose }: GuidedSessionSetupProps) {
+    const [type, setType] = useState<SessionGoal['type']>('duration');
+    const [target, setTarget] = useState(DURATION_PRESETS[1]);
+    const [chimeInterval, setChimeInterval] = useState(60);
+    const { t, formatNumber } = useI18n();
+
+    const presets = type === 'duration' ? DURATION_PRESETS : COUNT_PRESETS;
+
+    const selectType = (next: SessionGoal['type']) => {
+        setType(next);
+        setTarget(next === 'duration' ? DURATION_PRESETS[1] : COUNT_PRESETS[1]);
+    };
+
+    return (
+        <div className="guided-setup">
+            <div className="group-header">
+                <p className="group-label">{t('guided.title')}</p>
+                <button className="collapse-history-btn" onClick={onClose}>{t('common.cancel')}</button>
+            </div>
+
+            <div className="word-toggle guided-type-toggle">
+                <button
+                    className={`toggle-option ${type === 'duration' ? 'active' : ''}`}
+                    onClick={() => selectType('duration')}
+                >
+                    {t('guided.timer')}
+                </button>
+                <button
+                    className={`toggle-option ${type === 'count' ? 'active' : ''}`}
+                    onClick={() => selectType('count')}
+                >
+                    {t('app.repeats')}
+                </button>
+            </div>
+
+            <div className="guided-presets">
+                {presets.map(value => (
+                    <button
+                        key={value}
+                        className={`mantra-text-btn ${target === value ? 'selected' : ''}`}
+                        onClick={() => setTarget(value)}
+                    >
+                        {type === 'duration' ? t('guided.minutes', { count: value }) : formatNumber(value)}
+                    </button>
+                ))}
+                <input
+                    className="mantra-input guided-target-input"
+                    type="number"
+                    min={1}
+                    max={type === 'duration' ? 240 : 10000}
+                    value={target}
+                    onChange={(e) => setTarget(Math.max(1, Number(e.target.value) || 1))}
+                    aria-label={type === 'duration' ? t('guided.minutesLabel') : t('app.repeats')}
+                />
+            </div>
+
+            <select
+                className="mantra-input"
+                value={chimeInterval}
+                onChange={(e) => setChimeInterval(Number(e.target.value))}
+                aria-label={t('guided.chimes')}
+            >
+                {CHIME_OPTIONS.map(value => (
+                    <option key={value} value={value}>{t(`guided.chime.${value}`)}</option>
+                ))}
+            </select>
+
+            <button className="expand-history-btn" onClick={() => onStart({ type, target, chimeInterval })}>
+                {t('guided.start')}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { User } from 'firebase/auth';
+import { HistoryItemRow } from './HistoryItemRow';
+import { resolveMantra } from '../data/mantras';
+import { dateFromKey, groupByDate } from '../lib/dates';
+import { sessionRepository } from '../lib/history';
+import { MAX_NOTE_LENGTH, type HistoryCursor, type HistoryFilters } from '../lib/sessionRepository';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import { debugError } from '../logger';
+import type { HistoryItem, Mantra } from '../types';
+
+interface HistoryBrowserProps {
+    user: User;
+    mantras: Mantra[];
+    onClose: () => void;
+    // Called after any edit so the main card can refresh its summary
+    onChanged: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+export function HistoryBrowser({ user, mantras, onClose, onChanged }: HistoryBrowserProps) {
+    const panelRef = useDialog<HTMLDivElement>(onClose);
+    const [mantraId, setMantraId] = useState('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [items, setItems] = useState<HistoryItem[]>([]);
+    const [cursor, setCursor] = useState<HistoryCursor | null>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [total, setTotal] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    // Kept as a key so it follows a language change
+    const [error, setError] = useState<MessageKey | null>(null);
+    const [selected, setSelected] = useState<string[]>([]);
+    const { t, formatDate } = useI18n();
+
+    const mantra = mantras.find(m => m.id === mantraId);
+
+    const loadFirstPage = useCallback(async () => {
+        const filters: HistoryFilters = { mantra, from: from || undefined, to: to || undefined };
+        setIsLoading(true);
+        setError(null);
+        try {
+            const [page, count] = await Promise.all([
+                sessionRepository.fetchPage(user.uid, filters, PAGE_SIZE),
+                sessionRepository.count(user.uid, filters),
+            ]);
+            setItems(page.items);
+            setCursor(page.cursor);
+            setHasMore(page.hasMore);
+            setTotal(count);
+            setSelected([]);
+        } catch (e) {
+            debugError('Error loading history page: ', e);
+            setError('browser.loadError');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user.uid, mantra, from, to]);
+
+    useEffect(() => {
+        loadFirstPage();
+    }, [loadFirstPage]);
+
+    const loadMore = async () => {
+        if (!cursor) return;
+        setIsLoading(true);
+        try {
+            const page = await sessionRepository.fetchPage(user.uid, { mantra, from: from || undefined, to: to || undefined }, PAGE_SIZE, cursor);
+            setItems(prev => [...prev, ...page.items]);
+            setCursor(page.cursor);
+            setHasMore(page.hasMore);
+        } catch (e) {
+            debugError('Error loading more history: ', e);
+            setError('browser.loadMoreError');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleNote = async (item: HistoryItem, note: string) => {
+        if (note === (item.note ?? '')) return;
+        try {
+            await sessionRepository.updateNote(item.id, note);
+            setItems(prev => prev.map(i => (i.id === item.id ? { ...i, note: note.trim() || undefined } : i)));
+        } catch (e) {
+            debugError('Error updating note: ', e);
+            setError('browser.noteError');
+        }
+    };
+
+    const handleDelete = async (item: HistoryItem) => {
+        if (!window.confirm(t('browser.confirmDelete'))) return;
+        try {
+            await sessionRepository.deleteSession(user.uid, item.id);
+            await loadFirstPage();
+            onChanged();
+        } catch (e) {
+            debugError('Error deleting session: ', e);
+            setError('browser.deleteError');
+        }
+    };
+
+    const selectedItems = items.filter(i => selected.includes(i.id));
+    // Only sessions of the same mantra can be merged
+    const canMerge = selectedItems.length >= 2 && new Set(
+        selectedItems.map(i => resolveMantra(i, mantras)?.id ?? i.word ?? 'relax')
+    ).size === 1;
+
+    const handleMerge = async () => {
+        if (!canMerge) return;
+        if (!window.confirm(t('browser.confirmMerge', { count: selectedItems.length }))) return;
+        try {
+            await sessionRepository.mergeSessions(user.uid, selectedItems);
+            await loadFirstPage();
+            onChanged();
+        } catch (e) {
+            debugError('Error merging sessions: ', e);
+            setError('browser.mergeError');
+        }
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+    };
+
+    const groupedItems = groupByDate(items);
+
+    return (
+        <div className="overlay-backdrop" onClick={onClose}>
+            <div
+                ref={panelRef}
+                className="glass-card overlay-panel history-browser"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('browser.label')}
+                tabIndex={-1}
+            >
+                <div className="group-header overlay-header">
+                    <h3 className="history-title">{t('browser.title')}</h3>
+                    <button className="collapse-history-btn" onClick={onClose}>{t('common.close')}</button>
+                </div>
+
+                <div className="history-filters">
+                    <select
+                        className="mantra-input"
+                        value={mantraId}
+                        onChange={(e) => setMantraId(e.target.value)}
+                        aria-label={t('browser.filterMantra')}
+                    >
+                        <option value="">{t('browser.allMantras')}</option>
+                        {mantras.map(m => (
+                            <option key={m.id} value={m.id}>{m.text}</option>
+                        ))}
+                    </select>
+                    <input className="mantra-input" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} aria-label={t('browser.from')} />
+                    <input className="mantra-input" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} aria-label={t('browser.to')} />
+                </div>
+
+                <div className="history-header">
+                    <div className="total-sessions-badge">
+                        <span className="badge-label">{t('history.totalSessions')}</span>
+                        <span className="badge-value">{total ?? '…'}</span>
+                    </div>
+                    {selected.length > 0 && (
+                        <button className="mantra-text-btn" onClick={handleMerge} disabled={!canMerge} title={canMerge ? t('browser.mergeTitle') : t('browser.mergeHint')}>
+                            {t('browser.merge', { count: selected.length })}
+                        </button>
+                    )}
+                </div>
+
+                {error && <p className="no-history">{t(error)}</p>}
+
+                <div className="history-list">
+                    {groupedItems.map(([date, sessions]) => (
+                        <div key={date} className="daily-group">
+                            <div className="daily-group-header">
+                                <span className="daily-group-date">{formatDate(dateFromKey(date))}</span>
+                                <span className="daily-group-count">{t('history.sessionCount', { count: sessions.length })}</span>
+                            </div>
+                            {sessions.map(item => (
+                                <div key={item.id} className="browser-row">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.includes(item.id)}
+                                        onChange={() => toggleSelected(item.id)}
+                                        aria-label={t('browser.select')}
+                                    />
+                                    <HistoryItemRow item={item} mantras={mantras}>
+                                        <div className="history-edit">
+                                            <textarea
+                                                className="mantra-input history-note-input"
+                                                defaultValue={item.note ?? ''}
+                                                maxLength={MAX_NOTE_LENGTH}
+                                                placeholder={t('browser.notePlaceholder')}
+                                                aria-label={t('browser.noteLabel')}
+                                                onBlur={(e) => handleNote(item, e.target.value)}
+                                            />
+                                            <button className="mantra-text-btn delete-btn" onClick={() => handleDelete(item)}>
+                                                {t('common.delete')}
+                                            </button>
+                                        </div>
+                                    </HistoryItemRow>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+
+                    {!isLoading && items.length === 0 && <p className="no-history">{t('browser.noMatch')}</p>}
+                    {isLoading && <p className="no-history">{t('common.loading')}</p>}
+                    {hasMore && !isLoading && (
+                        <button className="expand-history-btn" onClick={loadMore}>{t('browser.loadMore')}</button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,109 @@
+import { useState, type ReactNode } from 'react';
+import { resolveMantraText } from '../data/mantras';
+import { findBreathingPattern } from '../data/breathingPatterns';
+import { findMood } from '../data/moods';
+import { soundscapeNameKey } from '../data/soundscapes';
+import { SessionDetail } from './SessionDetail';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import type { HistoryItem, Mantra } from '../types';
+
+interface HistoryItemRowProps {
+    item: HistoryItem;
+    mantras: Mantra[];
+    // Extra controls shown under the detail view when the row is expanded
+    children?: ReactNode;
+}
+
+export function HistoryItemRow({ item, mantras, children }: HistoryItemRowProps) {
+    const [expanded, setExpanded] = useState(false);
+    const { t, dir, formatDuration, formatTime } = useI18n();
+    const moodLabel = (mood: number) => t(`mood.${mood}` as MessageKey);
+    const soundscapeKey = item.soundscape && soundscapeNameKey(item.soundscape.name);
+    const pacingPattern = item.pacing && findBreathingPattern(item.pacing.patternId);
+
+    return (
+        <div className="history-entry">
+            <div
+                className={`history-item ${item.pending ? 'pending' : ''} ${expanded ? 'expanded' : ''}`}
+                role="button"
+                tabIndex={0}
+                aria-expanded={expanded}
+                onClick={() => setExpanded(!expanded)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        setExpanded(!expanded);
+                    }
+                }}
+            >
+                <div className="history-info">
+                    <div className="history-main-info">
+                        <span className="history-count">{item.count}</span>
+                        <span className="history-word">{resolveMantraText(item, mantras)}</span>
+                    </div>
+                    {item.lostFocusCount !== undefined && item.lostFocusCount > 0 && (
+                        <div className="history-lost-focus" title={t('history.lostFocusTitle')}>
+                            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                <circle cx="12" cy="12" r="10" /><line x1="8" y1="15" x2="16" y2="15" /><line x1="9" y1="9" x2="9.01" y2="9" /><line x1="15" y1="9" x2="15.01" y2="9" />
+                            </svg>
+                            <span>{item.lostFocusCount}</span>
+                        </div>
+                    )}
+                </div>
+                <div className="history-meta">
+                    {item.pending && (
+                        <span className="history-pending" title={t('history.notSyncedTitle')}>
+                            {t('history.notSynced')}
+                        </span>
+                    )}
+                    {item.pacing && (
+                        <span className="history-pacing" title={t('history.pacedTitle')}>
+                            {pacingPattern ? t(pacingPattern.labelKey) : t('history.paced')}
+                        </span>
+                    )}
+                    {item.soundscape && (
+                        <span className="history-pacing" title={t('history.soundscapeTitle')}>
+                            {soundscapeKey ? t(soundscapeKey) : item.soundscape.name}
+                        </span>
+                    )}
+                    {item.checkIn && (
+                        <span
+                            className="history-mood"
+                            title={[item.checkIn.before, item.checkIn.after]
+                                .map((c, i) => c && t(i === 0 ? 'history.before' : 'history.after', { text: moodLabel(c.mood) }))
+                                .filter(Boolean)
+                                .join(' · ')}
+                        >
+                            {findMood(item.checkIn.before?.mood)?.emoji ?? '·'} {dir === 'rtl' ? '←' : '→'} {findMood(item.checkIn.after?.mood)?.emoji ?? '·'}
+                        </span>
+                    )}
+                    {item.goal && (
+                        <span
+                            className={`history-goal ${item.goalReached ? 'reached' : ''}`}
+                            title={item.goalReached ? t('history.goalReached') : t('history.goalNotReached')}
+                        >
+                            {t('history.goal', {
+                                target: item.goal.type === 'duration' ? formatDuration(item.goal.target * 60 * 1000) : item.goal.target,
+                            })}
+                            {item.goalReached ? ' ✓' : ''}
+                        </span>
+                    )}
+                    {item.startTime && item.endTime && (
+                        <span className="history-duration" title={t('history.durationTitle')}>
+                            {formatDuration(item.endTime.toMillis() - item.startTime.toMillis())}
+                        </span>
+                    )}
+                    <span className="history-date">
+                        {formatTime(item.timestamp.toDate())}
+                    </span>
+                </div>
+            </div>
+            {item.note && !expanded && <p className="history-note">{item.note}</p>}
+            {item.checkIn?.before?.note && <p className="history-note">{t('history.before', { text: item.checkIn.before.note })}</p>}
+            {item.checkIn?.after?.note && <p className="history-note">{t('history.after', { text: item.checkIn.after.note })}</p>}
+            {expanded && <SessionDetail item={item} />}
+            {expanded && children}
+        </div>
+    );
+}
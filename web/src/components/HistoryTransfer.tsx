@@ -0,0 +1,134 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import type { User } from 'firebase/auth';
+import { useI18n } from '../hooks/useI18n';
+import { fetchAllHistory, fetchAllSessions } from '../lib/history';
+import {
+    downloadFile,
+    exportHistory,
+    HistoryFileError,
+    importHistory,
+    parseHistoryFile,
+    type ExportFormat,
+    type ImportMessage,
+    type ImportRowError,
+} from '../lib/historyTransfer';
+import { getLocalDateKey } from '../lib/dates';
+import { debugError } from '../logger';
+import type { Mantra } from '../types';
+
+interface HistoryTransferProps {
+    user: User | null;
+    mantras: Mantra[];
+    // Called after an import wrote new sessions
+    onImported: () => void;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv;charset=utf-8',
+    json: 'application/json',
+};
+
+// Only the first few rejected rows are listed; the rest are summarised
+const MAX_ERRORS_SHOWN = 5;
+
+export function HistoryTransfer({ user, mantras, onImported }: HistoryTransferProps) {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<ImportMessage | null>(null);
+    const [errors, setErrors] = useState<ImportRowError[]>([]);
+    const { t } = useI18n();
+
+    const handleExport = async (format: ExportFormat) => {
+        setBusy(true);
+        setMessage(null);
+        setErrors([]);
+        try {
+            const items = await fetchAllSessions(user?.uid ?? null);
+            downloadFile(
+                exportHistory(items, mantras, format),
+                `relax-history-${getLocalDateKey(new Date())}.${format}`,
+                MIME_TYPES[format]
+            );
+            setMessage({ key: 'transfer.exported', params: { count: items.length } });
+        } catch (e) {
+            debugError('Error exporting history: ', e);
+            setMessage({ key: 'transfer.exportError' });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Reset so picking the same file again still fires a change
+        e.target.value = '';
+        if (!file || !user) return;
+
+        setBusy(true);
+        setMessage(null);
+        setErrors([]);
+        let parsed;
+        try {
+            parsed = parseHistoryFile(file.name, await file.text());
+        } catch (err) {
+            if (!(err instanceof HistoryFileError)) debugError('Error reading history file: ', err);
+            setMessage({ key: err instanceof HistoryFileError ? err.key : 'transfer.readError' });
+            setBusy(false);
+            return;
+        }
+        setErrors(parsed.errors);
+        if (parsed.sessions.length === 0) {
+            setMessage({ key: 'transfer.noSessions' });
+            setBusy(false);
+            return;
+        }
+
+        try {
+            const existing = await fetchAllHistory(user.uid);
+            const { imported, skipped } = await importHistory(user.uid, parsed.sessions, existing, mantras);
+            setMessage(skipped > 0
+                ? { key: 'transfer.importedSkipped', params: { count: imported, skipped } }
+                : { key: 'transfer.imported', params: { count: imported } });
+            if (imported > 0) onImported();
+        } catch (err) {
+            debugError('Error importing history: ', err);
+            setMessage({ key: 'transfer.importError' });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="history-transfer">
+            <div className="history-transfer-actions">
+                <span className="group-label">{t('transfer.title')}</span>
+                <button className="mantra-text-btn" onClick={() => handleExport('csv')} disabled={busy}>{t('transfer.exportCsv')}</button>
+                <button className="mantra-text-btn" onClick={() => handleExport('json')} disabled={busy}>{t('transfer.exportJson')}</button>
+                {user && (
+                    <>
+                        <button className="mantra-text-btn" onClick={() => fileInput.current?.click()} disabled={busy}>{t('transfer.import')}</button>
+                        <input
+                            ref={fileInput}
+                            type="file"
+                            accept=".csv,.json,text/csv,application/json"
+                            onChange={handleImport}
+                            hidden
+                        />
+                    </>
+                )}
+            </div>
+            {busy && <p className="history-transfer-status">{t('transfer.working')}</p>}
+            {message && <p className="history-transfer-status" role="status">{t(message.key, message.params)}</p>}
+            {errors.length > 0 && (
+                <ul className="history-transfer-errors">
+                    {errors.slice(0, MAX_ERRORS_SHOWN).map((error, i) => (
+                        <li key={i}>
+                            {t('transfer.rowError', { row: t(error.row.key, error.row.params), reason: t(error.reason.key, error.reason.params) })}
+                        </li>
+                    ))}
+                    {errors.length > MAX_ERRORS_SHOWN && <li>{t('transfer.moreErrors', { count: errors.length - MAX_ERRORS_SHOWN })}</li>}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+import { useState, type KeyboardEvent } from 'react';
+import { formatKeyCode, GUARD_OPTIONS, RESERVED_KEYS } from '../data/inputBindings';
+import { useI18n } from '../hooks/useI18n';
+import { startSilentPlayback, stopSilentPlayback } from '../lib/mediaKeys';
+import { debugError } from '../logger';
+import type { InputBindings } from '../types';
+
+interface InputSettingsProps {
+    bindings: InputBindings;
+    onChange: (update: Partial<InputBindings>) => void;
+    keepAwake: boolean;
+    onKeepAwakeChange: (keepAwake: boolean) => void;
+    moodCheckIns: boolean;
+    onMoodCheckInsChange: (moodCheckIns: boolean) => void;
+    onStartTapMode: () => void;
+    onClose: () => void;
+}
+
+type BindableKey = 'incrementKey' | 'lostFocusKey';
+
+export function InputSettings({
+    bindings,
+    onChange,
+    keepAwake,
+    onKeepAwakeChange,
+    moodCheckIns,
+    onMoodCheckInsChange,
+    onStartTapMode,
+    onClose,
+}: InputSettingsProps) {
+    const [capturing, setCapturing] = useState<BindableKey | null>(null);
+    const { t, formatNumber } = useI18n();
+
+    const guardLabel = (ms: number) => {
+        if (ms === 0) return t('input.guardOff');
+        return ms < 1000
+            ? formatNumber(ms, { style: 'unit', unit: 'millisecond', unitDisplay: 'short' })
+            : formatNumber(ms / 1000, { style: 'unit', unit: 'second', unitDisplay: 'short' });
+    };
+
+    const handleCapture = (e: KeyboardEvent<HTMLButtonElement>, field: BindableKey) => {
+        if (capturing !== field) return;
+        // Keep the press away from the global counting listener
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.code === 'Escape') {
+            setCapturing(null);
+            return;
+        }
+        if (RESERVED_KEYS.includes(e.code)) return;
+        const other = field === 'incrementKey' ? 'lostFocusKey' : 'incrementKey';
+        if (bindings[other] === e.code) return;
+        onChange({ [field]: e.code });
+        setCapturing(null);
+    };
+
+    const toggleMediaKeys = async (enabled: boolean) => {
+        if (enabled) {
+            try {
+                // Started here so playback has the click's user gesture
+                await startSilentPlayback();
+            } catch (e) {
+                debugError('Could not start media key playback: ', e);
+            }
+        } else {
+            stopSilentPlayback();
+        }
+        onChange({ mediaKeys: enabled });
+    };
+
+    const keyButton = (field: BindableKey, label: string) => (
+        <label className="input-binding">
+            <span>{label}</span>
+            <button
+                className={`mantra-text-btn ${capturing === field ? 'selected' : ''}`}
+                onClick={() => setCapturing(capturing === field ? null : field)}
+                onKeyDown={(e) => handleCapture(e, field)}
+                onBlur={() => setCapturing(null)}
+            >
+                {capturing === field ? t('input.pressKey') : formatKeyCode(bindings[field])}
+            </button>
+        </label>
+    );
+
+    return (
+        <div className="input-settings">
+            <div className="group-header">
+                <p className="group-label">{t('input.title')}</p>
+                <button className="collapse-history-btn" onClick={onClose}>{t('common.done')}</button>
+            </div>
+
+            {keyButton('incrementKey', t('input.repeatKey'))}
+            {keyButton('lostFocusKey', t('input.lostFocusKey'))}
+
+            <label className="input-binding">
+                <span>{t('input.mediaKeys')}</span>
+                <input
+                    type="checkbox"
+                    checked={bindings.mediaKeys}
+                    onChange={(e) => toggleMediaKeys(e.target.checked)}
+                />
+            </label>
+            {bindings.mediaKeys && (
+                <p className="input-hint">{t('input.mediaKeysHint')}</p>
+            )}
+
+            <label className="input-binding">
+                <span>{t('input.guard')}</span>
+                <select
+                    className="mantra-input"
+                    value={bindings.guardMs}
+                    onChange={(e) => onChange({ guardMs: Number(e.target.value) })}
+                >
+                    {GUARD_OPTIONS.map(ms => (
+                        <option key={ms} value={ms}>{guardLabel(ms)}</option>
+                    ))}
+                </select>
+            </label>
+
+            {'wakeLock' in navigator && (
+                <label className="input-binding">
+                    <span>{t('input.keepAwake')}</span>
+                    <input
+                        type="checkbox"
+                        checked={keepAwake}
+                        onChange={(e) => onKeepAwakeChange(e.target.checked)}
+                    />
+                </label>
+            )}
+
+            <label className="input-binding">
+                <span>{t('input.moodCheckIns')}</span>
+                <input
+                    type="checkbox"
+                    checked={moodCheckIns}
+                    onChange={(e) => onMoodCheckInsChange(e.target.checked)}
+                />
+            </label>
+
+            <button className="expand-history-btn" onClick={onStartTapMode}>
+                {t('input.tapMode')}
+            </button>
+        </div>
+    );
+}
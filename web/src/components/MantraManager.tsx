@@ -0,0 +1,93 @@
+import { useState, type FormEvent } from 'react';
+import { MAX_MANTRA_LENGTH } from '../data/mantras';
+import { useI18n } from '../hooks/useI18n';
+import type { Mantra } from '../types';
+
+interface MantraManagerProps {
+    mantras: Mantra[];
+    onCreate: (text: string) => void;
+    onRename: (id: string, text: string) => void;
+    onMove: (id: string, direction: -1 | 1) => void;
+    onArchive: (id: string, archived: boolean) => void;
+    onClose: () => void;
+}
+
+export function MantraManager({ mantras, onCreate, onRename, onMove, onArchive, onClose }: MantraManagerProps) {
+    const [newText, setNewText] = useState('');
+    const { t } = useI18n();
+    const activeCount = mantras.filter(m => !m.archived).length;
+
+    const handleCreate = (e: FormEvent) => {
+        e.preventDefault();
+        if (!newText.trim()) return;
+        onCreate(newText);
+        setNewText('');
+    };
+
+    return (
+        <div className="mantra-manager">
+            <div className="group-header">
+                <p className="group-label">{t('mantras.title')}</p>
+                <button className="collapse-history-btn" onClick={onClose}>{t('common.done')}</button>
+            </div>
+
+            <ul className="mantra-list">
+                {mantras.map((m, index) => (
+                    <li key={m.id} className={`mantra-row ${m.archived ? 'archived' : ''}`}>
+                        <input
+                            className="mantra-input"
+                            defaultValue={m.text}
+                            maxLength={MAX_MANTRA_LENGTH}
+                            aria-label={t('mantras.rename', { mantra: m.text })}
+                            disabled={m.archived}
+                            onBlur={(e) => {
+                                if (e.target.value.trim() && e.target.value !== m.text) onRename(m.id, e.target.value);
+                            }}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') e.currentTarget.blur();
+                            }}
+                        />
+                        <div className="mantra-row-actions">
+                            <button
+                                className="mantra-icon-btn"
+                                onClick={() => onMove(m.id, -1)}
+                                disabled={index === 0}
+                                aria-label={t('mantras.moveUp', { mantra: m.text })}
+                            >
+                                ↑
+                            </button>
+                            <button
+                                className="mantra-icon-btn"
+                                onClick={() => onMove(m.id, 1)}
+                                disabled={index === mantras.length - 1}
+                                aria-label={t('mantras.moveDown', { mantra: m.text })}
+                            >
+                                ↓
+                            </button>
+                            <button
+                                className="mantra-text-btn"
+                                onClick={() => onArchive(m.id, !m.archived)}
+                                disabled={!m.archived && activeCount <= 1}
+                                title={m.archived ? t('mantras.restoreTitle') : t('mantras.archiveTitle')}
+                            >
+                                {m.archived ? t('mantras.restore') : t('mantras.archive')}
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            <form className="mantra-create" onSubmit={handleCreate}>
+                <input
+                    className="mantra-input"
+                    value={newText}
+                    onChange={(e) => setNewText(e.target.value)}
+                    maxLength={MAX_MANTRA_LENGTH}
+                    placeholder={t('mantras.placeholder')}
+                    aria-label={t('mantras.new')}
+                />
+                <button className="mantra-text-btn" type="submit" disabled={!newText.trim()}>{t('common.add')}</button>
+            </form>
+        </div>
+    );
+}
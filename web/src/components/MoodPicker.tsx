@@ -0,0 +1,44 @@
+import { MAX_CHECK_IN_NOTE_LENGTH, MOODS } from '../data/moods';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import type { MoodCheckIn } from '../types';
+
+interface MoodPickerProps {
+    label: string;
+    checkIn: MoodCheckIn | null;
+    onChange: (checkIn: MoodCheckIn) => void;
+}
+
+export function MoodPicker({ label, checkIn, onChange }: MoodPickerProps) {
+    const { t } = useI18n();
+    return (
+        <div className="mood-picker">
+            <p className="group-label">{label}</p>
+            <div className="mood-options" role="radiogroup" aria-label={label}>
+                {MOODS.map(mood => (
+                    <button
+                        key={mood.value}
+                        className={`mood-option ${checkIn?.mood === mood.value ? 'active' : ''}`}
+                        onClick={() => onChange({ ...checkIn, mood: mood.value })}
+                        role="radio"
+                        aria-checked={checkIn?.mood === mood.value}
+                        aria-label={t(`mood.${mood.value}` as MessageKey)}
+                        title={t(`mood.${mood.value}` as MessageKey)}
+                    >
+                        {mood.emoji}
+                    </button>
+                ))}
+            </div>
+            {checkIn && (
+                <input
+                    className="mantra-input mood-note"
+                    value={checkIn.note ?? ''}
+                    maxLength={MAX_CHECK_IN_NOTE_LENGTH}
+                    onChange={(e) => onChange({ mood: checkIn.mood, ...(e.target.value ? { note: e.target.value } : {}) })}
+                    placeholder={t('mood.notePlaceholder')}
+                    aria-label={t('mood.noteLabel')}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,39 @@
+import { BREATHING_PATTERNS } from '../data/breathingPatterns';
+import { useI18n } from '../hooks/useI18n';
+import type { PacingSettings } from '../types';
+
+interface PacingControlsProps {
+    pacing: PacingSettings | null;
+    onChange: (pacing: PacingSettings | null) => void;
+}
+
+export function PacingControls({ pacing, onChange }: PacingControlsProps) {
+    const { t } = useI18n();
+    return (
+        <div className="pacing-controls">
+            <select
+                className="mantra-input pacing-select"
+                value={pacing?.patternId ?? ''}
+                onChange={(e) => onChange(e.target.value
+                    ? { patternId: e.target.value, autoCount: pacing?.autoCount ?? false }
+                    : null)}
+                aria-label={t('pacing.label')}
+            >
+                <option value="">{t('pacing.none')}</option>
+                {BREATHING_PATTERNS.map(p => (
+                    <option key={p.id} value={p.id}>{t(p.labelKey)}</option>
+                ))}
+            </select>
+            {pacing && (
+                <label className="pacing-auto-count">
+                    <input
+                        type="checkbox"
+                        checked={pacing.autoCount}
+                        onChange={(e) => onChange({ ...pacing, autoCount: e.target.checked })}
+                    />
+                    {t('pacing.countEachBreath')}
+                </label>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,31 @@
+import type { ReactNode } from 'react';
+
+interface ProgressRingProps {
+    progress: number;
+    children: ReactNode;
+}
+
+const SIZE = 150;
+const STROKE = 4;
+const RADIUS = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+export function ProgressRing({ progress, children }: ProgressRingProps) {
+    return (
+        <div className="progress-ring">
+            <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} aria-hidden="true">
+                <circle className="progress-ring-track" cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} strokeWidth={STROKE} />
+                <circle
+                    className="progress-ring-value"
+                    cx={SIZE / 2}
+                    cy={SIZE / 2}
+                    r={RADIUS}
+                    strokeWidth={STROKE}
+                    strokeDasharray={CIRCUMFERENCE}
+                    strokeDashoffset={CIRCUMFERENCE * (1 - progress)}
+                />
+            </svg>
+            <div className="progress-ring-content">{children}</div>
+        </div>
+    );
+}
@@ -0,0 +1,149 @@
+import { useState, type FormEvent } from 'react';
+import {
+    filterQuotes,
+    isCustomQuote,
+    MAX_AUTHOR_LENGTH,
+    MAX_CUSTOM_QUOTES,
+    MAX_QUOTE_LENGTH,
+    QUOTE_CATEGORIES,
+} from '../data/quotes';
+import type { Quote } from '../types';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../hooks/useI18n';
+
+interface QuoteLibraryProps {
+    quotes: Quote[];
+    customCount: number;
+    favourites: string[];
+    filter: string;
+    onFilterChange: (filter: string) => void;
+    onToggleFavourite: (id: string) => void;
+    onAdd: (quote: Omit<Quote, 'id'>) => void;
+    onRemove: (id: string) => void;
+    onClose: () => void;
+}
+
+export function QuoteLibrary({
+    quotes,
+    customCount,
+    favourites,
+    filter,
+    onFilterChange,
+    onToggleFavourite,
+    onAdd,
+    onRemove,
+    onClose,
+}: QuoteLibraryProps) {
+    const panelRef = useDialog<HTMLDivElement>(onClose);
+    const [text, setText] = useState('');
+    const [author, setAuthor] = useState('');
+    const [tag, setTag] = useState(QUOTE_CATEGORIES[0].id);
+    const { t } = useI18n();
+
+    const visible = filterQuotes(quotes, filter, favourites);
+    const canAdd = customCount < MAX_CUSTOM_QUOTES;
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        const trimmed = text.trim();
+        if (!trimmed || !canAdd) return;
+        onAdd({
+            text: trimmed.slice(0, MAX_QUOTE_LENGTH),
+            ...(author.trim() ? { author: author.trim().slice(0, MAX_AUTHOR_LENGTH) } : {}),
+            tags: [tag],
+            lang: document.documentElement.lang || 'en',
+        });
+        setText('');
+        setAuthor('');
+    };
+
+    return (
+        <div className="overlay-backdrop" onClick={onClose}>
+            <div
+                ref={panelRef}
+                className="glass-card overlay-panel quote-library"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('app.quotes')}
+                tabIndex={-1}
+            >
+                <div className="group-header overlay-header">
+                    <h3 className="history-title">{t('app.quotes')}</h3>
+                    <button className="collapse-history-btn" onClick={onClose}>{t('common.close')}</button>
+                </div>
+
+                <select
+                    className="mantra-input"
+                    value={filter}
+                    onChange={(e) => onFilterChange(e.target.value)}
+                    aria-label={t('quotes.filter')}
+                >
+                    <option value="">{t('quotes.all')}</option>
+                    <option value="favourites">{t('quotes.favourites', { count: favourites.length })}</option>
+                    <option value="mine">{t('quotes.mine', { count: customCount })}</option>
+                    {QUOTE_CATEGORIES.map(c => (
+                        <option key={c.id} value={c.id}>{t(c.labelKey)}</option>
+                    ))}
+                </select>
+
+                <form className="quote-form" onSubmit={handleSubmit}>
+                    <textarea
+                        className="mantra-input"
+                        value={text}
+                        maxLength={MAX_QUOTE_LENGTH}
+                        onChange={(e) => setText(e.target.value)}
+                        placeholder={canAdd ? t('quotes.addPlaceholder') : t('quotes.limit', { count: MAX_CUSTOM_QUOTES })}
+                        disabled={!canAdd}
+                        aria-label={t('quotes.text')}
+                    />
+                    <div className="quote-form-row">
+                        <input
+                            className="mantra-input"
+                            value={author}
+                            maxLength={MAX_AUTHOR_LENGTH}
+                            onChange={(e) => setAuthor(e.target.value)}
+                            placeholder={t('quotes.authorPlaceholder')}
+                            disabled={!canAdd}
+                            aria-label={t('quotes.author')}
+                        />
+                        <select className="mantra-input" value={tag} onChange={(e) => setTag(e.target.value)} disabled={!canAdd} aria-label={t('quotes.category')}>
+                            {QUOTE_CATEGORIES.map(c => (
+                                <option key={c.id} value={c.id}>{t(c.labelKey)}</option>
+                            ))}
+                        </select>
+                        <button type="submit" className="mantra-text-btn" disabled={!canAdd || !text.trim()}>{t('common.add')}</button>
+                    </div>
+                </form>
+
+                <ul className="quote-list">
+                    {visible.map(quote => {
+                        const favourite = favourites.includes(quote.id);
+                        return (
+                            <li key={quote.id} className="quote-list-item" lang={quote.lang}>
+                                <div>
+                                    <p className="quote-list-text">{quote.text}</p>
+                                    {quote.author && <p className="quote-author">— {quote.author}</p>}
+                                </div>
+                                <div className="quote-list-actions">
+                                    <button
+                                        className={`quote-favourite-btn ${favourite ? 'active' : ''}`}
+                                        onClick={() => onToggleFavourite(quote.id)}
+                                        aria-pressed={favourite}
+                                        aria-label={t(favourite ? 'quotes.unpin' : 'quotes.pin')}
+                                    >
+                                        {favourite ? '★' : '☆'}
+                                    </button>
+                                    {isCustomQuote(quote) && (
+                                        <button className="mantra-text-btn" onClick={() => onRemove(quote.id)}>{t('common.delete')}</button>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
+                    {visible.length === 0 && <li className="no-history">{t('quotes.empty')}</li>}
+                </ul>
+            </div>
+        </div>
+    );
+}
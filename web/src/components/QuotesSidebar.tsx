@@ -1,41 +1,46 @@
-import { useState, useEffect } from 'react';
-import { quotes } from '../data/quotes';
+import { useI18n } from '../hooks/useI18n';
+import type { Quote } from '../types';
 
 interface QuotesSidebarProps {
     side: 'left' | 'right';
+    quote: Quote | null;
+    visible: boolean;
+    favourite: boolean;
+    onToggleFavourite: (id: string) => void;
+    paused: boolean;
+    onTogglePaused: () => void;
 }
 
-export function QuotesSidebar({ side }: QuotesSidebarProps) {
-    const [currentQuoteIndex, setCurrentQuoteIndex] = useState(() => {
-        // Start with a random index, ensuring left and right are likely different
-        return Math.floor(Math.random() * quotes.length);
-    });
-    const [isVisible, setIsVisible] = useState(true);
-
-    useEffect(() => {
-        // Add a slight delay to the right side so they don't change at the exact same moment
-        const initialDelay = side === 'right' ? 2000 : 0;
-
-        const timeout = setTimeout(() => {
-            const interval = setInterval(() => {
-                setIsVisible(false);
-                setTimeout(() => {
-                    setCurrentQuoteIndex((prev) => (prev + 1) % quotes.length);
-                    setIsVisible(true);
-                }, 1000);
-            }, 12000); // Slightly longer interval (12s) for a more relaxed feel
-
-            return () => clearInterval(interval);
-        }, initialDelay);
-
-        return () => clearTimeout(timeout);
-    }, [side]);
-
+export function QuotesSidebar({ side, quote, visible, favourite, onToggleFavourite, paused, onTogglePaused }: QuotesSidebarProps) {
+    const { t } = useI18n();
     return (
         <div className={`quotes-sidebar ${side}`}>
-            <div className={`quote-container ${isVisible ? 'visible' : 'hidden'}`}>
-                <p className="quote-text">{quotes[currentQuoteIndex]}</p>
-            </div>
+            {quote && (
+                <div className={`quote-container ${visible ? 'visible' : 'hidden'}`} lang={quote.lang} inert={!visible}>
+                    <p className="quote-text">{quote.text}</p>
+                    {quote.author && <p className="quote-author">— {quote.author}</p>}
+                    <div className="quote-actions">
+                        <button
+                            className={`quote-favourite-btn ${favourite ? 'active' : ''}`}
+                            onClick={() => onToggleFavourite(quote.id)}
+                            aria-pressed={favourite}
+                            aria-label={favourite ? t('quotes.unpin') : t('quotes.pin')}
+                            title={favourite ? t('quotes.unpinShort') : t('quotes.pinShort')}
+                        >
+                            {favourite ? '★' : '☆'}
+                        </button>
+                        <button
+                            className="quote-favourite-btn"
+                            onClick={onTogglePaused}
+                            aria-pressed={paused}
+                            aria-label={paused ? t('quotes.resumeRotation') : t('quotes.pauseRotation')}
+                            title={paused ? t('common.resume') : t('quotes.pause')}
+                        >
+                            {paused ? '▶' : '❚❚'}
+                        </button>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,59 @@
+import { buildTempoSeries, decodeTimeline } from '../lib/timeline';
+import { useI18n } from '../hooks/useI18n';
+import type { HistoryItem } from '../types';
+
+interface SessionDetailProps {
+    item: HistoryItem;
+}
+
+const WIDTH = 240;
+const HEIGHT = 48;
+const PADDING = 4;
+
+export function SessionDetail({ item }: SessionDetailProps) {
+    const { t, formatNumber } = useI18n();
+    if (!item.timeline || !item.startTime || !item.endTime) {
+        return <p className="session-detail-empty">{t('detail.noTimeline')}</p>;
+    }
+
+    const { repeats, lostFocus } = decodeTimeline(item.timeline);
+    const durationMs = Math.max(item.endTime.toMillis() - item.startTime.toMillis(), 1);
+    const tempo = buildTempoSeries(repeats, durationMs);
+    const peak = Math.max(...tempo, 1);
+    const averagePace = repeats.length / (durationMs / 60000);
+
+    const x = (ratio: number) => PADDING + ratio * (WIDTH - PADDING * 2);
+    const y = (value: number) => HEIGHT - PADDING - (value / peak) * (HEIGHT - PADDING * 2);
+    const points = tempo
+        .map((value, i) => `${x(tempo.length === 1 ? 0.5 : i / (tempo.length - 1)).toFixed(1)},${y(value).toFixed(1)}`)
+        .join(' ');
+
+    return (
+        <div className="session-detail">
+            <svg
+                className="tempo-sparkline"
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                preserveAspectRatio="none"
+                role="img"
+                aria-label={t('detail.tempo', { peak: Math.round(peak) })}
+            >
+                {lostFocus.map((offset, i) => (
+                    <line
+                        key={i}
+                        className="lost-focus-marker"
+                        x1={x(Math.min(offset / durationMs, 1))}
+                        x2={x(Math.min(offset / durationMs, 1))}
+                        y1={PADDING}
+                        y2={HEIGHT - PADDING}
+                    />
+                ))}
+                <polyline className="tempo-line" points={points} />
+            </svg>
+            <div className="session-detail-stats">
+                <span>{t('detail.average', { pace: formatNumber(averagePace, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}</span>
+                <span>{t('detail.peak', { peak: Math.round(peak) })}</span>
+                {lostFocus.length > 0 && <span className="lost-focus-legend">{t('detail.lostFocus', { count: lostFocus.length })}</span>}
+            </div>
+        </div>
+    );
+}
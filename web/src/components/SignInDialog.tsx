@@ -0,0 +1,118 @@
+import { useState, type FormEvent } from 'react';
+import type { User } from 'firebase/auth';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../hooks/useI18n';
+import {
+    continueAnonymously,
+    hasEmailSignIn,
+    hasGoogleSignIn,
+    sendEmailSignInLink,
+    signInErrorKey,
+    signInWithGoogle,
+} from '../lib/auth';
+import type { MessageKey } from '../lib/i18n';
+import { debugError } from '../logger';
+
+interface SignInDialogProps {
+    // An anonymous user is offered ways to keep their account, a signed-in one the methods it doesn't have yet
+    user: User | null;
+    // A failed redirect or email-link sign-in to report on opening
+    initialError?: MessageKey | null;
+    onClose: () => void;
+}
+
+export function SignInDialog({ user, initialError = null, onClose }: SignInDialogProps) {
+    const panelRef = useDialog<HTMLDivElement>(onClose);
+    const [email, setEmail] = useState('');
+    const [sentTo, setSentTo] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<MessageKey | null>(initialError);
+    const { t } = useI18n();
+    const upgrading = user?.isAnonymous === true;
+    const linking = user !== null && !user.isAnonymous;
+    const offerGoogle = !linking || !hasGoogleSignIn(user);
+    const offerEmail = !linking || !hasEmailSignIn(user);
+    const title = upgrading ? t('auth.upgradeTitle') : linking ? t('auth.linkTitle') : t('auth.title');
+
+    const run = async (action: () => Promise<unknown>, closeAfter: boolean) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+            if (closeAfter) onClose();
+        } catch (e) {
+            debugError('Sign-in error: ', e);
+            setError(signInErrorKey(e));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleEmail = (e: FormEvent) => {
+        e.preventDefault();
+        const address = email.trim();
+        run(async () => {
+            await sendEmailSignInLink(address);
+            setSentTo(address);
+        }, false);
+    };
+
+    return (
+        <div className="overlay-backdrop" onClick={onClose}>
+            <div
+                ref={panelRef}
+                className="glass-card overlay-panel sign-in-dialog"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={title}
+                tabIndex={-1}
+            >
+                <div className="group-header overlay-header">
+                    <p className="group-label">{title}</p>
+                    <button className="collapse-history-btn" onClick={onClose}>{t('common.close')}</button>
+                </div>
+                {upgrading && <p className="input-hint">{t('auth.upgradeHint')}</p>}
+                {linking && <p className="input-hint">{offerGoogle || offerEmail ? t('auth.linkHint') : t('auth.allLinked')}</p>}
+
+                {offerGoogle && (
+                    <button className="expand-history-btn" onClick={() => run(signInWithGoogle, true)} disabled={isBusy}>
+                        {linking ? t('auth.linkGoogle') : t('auth.google')}
+                    </button>
+                )}
+
+                {offerEmail && (sentTo ? (
+                    <p className="input-hint" role="status">{t('auth.linkSent', { email: sentTo })}</p>
+                ) : (
+                    <form className="sign-in-email" onSubmit={handleEmail}>
+                        <input
+                            className="mantra-input"
+                            type="email"
+                            autoComplete="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder={t('auth.emailPlaceholder')}
+                            aria-label={t('auth.emailLabel')}
+                            required
+                        />
+                        <button className="mantra-text-btn" type="submit" disabled={isBusy || !email.trim()}>
+                            {t('auth.sendLink')}
+                        </button>
+                    </form>
+                ))}
+
+                {!user && (
+                    <>
+                        <p className="sign-in-divider">{t('auth.or')}</p>
+                        <button className="mantra-text-btn" onClick={() => run(continueAnonymously, true)} disabled={isBusy}>
+                            {t('auth.anonymous')}
+                        </button>
+                        <p className="input-hint">{t('auth.anonymousHint')}</p>
+                    </>
+                )}
+
+                {error && <p className="input-hint" role="alert">{t(error)}</p>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import {
+    BUILT_IN_SOUNDSCAPES,
+    CUSTOM_SOUNDSCAPE_NAME,
+    MAX_SOUNDSCAPE_NAME_LENGTH,
+    MAX_SOUNDSCAPE_PRESETS,
+    NOISE_TYPES,
+    SLEEP_TIMER_OPTIONS,
+    soundscapeNameKey,
+} from '../data/soundscapes';
+import { useI18n } from '../hooks/useI18n';
+import { getAudioContext } from '../lib/chime';
+import type { NoiseType, SessionSoundscape, SoundscapeMix, SoundscapePreset } from '../types';
+
+interface SoundscapeMixerProps {
+    soundscape: SessionSoundscape | null;
+    onChange: (soundscape: SessionSoundscape | null) => void;
+    presets: SoundscapePreset[];
+    onSavePreset: (name: string, mix: SoundscapeMix) => void;
+    onDeletePreset: (id: string) => void;
+    playing: boolean;
+    sleepUntil: number | null;
+    onSleepTimer: (minutes: number) => void;
+    onClose: () => void;
+}
+
+export function SoundscapeMixer({
+    soundscape,
+    onChange,
+    presets,
+    onSavePreset,
+    onDeletePreset,
+    playing,
+    sleepUntil,
+    onSleepTimer,
+    onClose,
+}: SoundscapeMixerProps) {
+    const [presetName, setPresetName] = useState('');
+    const [sleepMinutes, setSleepMinutes] = useState(0);
+    const { t, formatTime, formatNumber } = useI18n();
+
+    const allPresets = [...BUILT_IN_SOUNDSCAPES, ...presets];
+    const selected = soundscape ? allPresets.find(p => p.name === soundscape.name) : undefined;
+    const ownPreset = selected && presets.some(p => p.id === selected.id) ? selected : undefined;
+
+    const displayName = (name: string) => {
+        const key = soundscapeNameKey(name);
+        return key ? t(key) : name;
+    };
+
+    const toggleSound = (enabled: boolean) => {
+        if (enabled) {
+            // Unlock audio while we still have the click's user gesture
+            getAudioContext();
+            const first = BUILT_IN_SOUNDSCAPES[0];
+            onChange({ name: first.name, mix: first.mix });
+        } else {
+            onChange(null);
+        }
+    };
+
+    const setVolume = (noise: NoiseType, volume: number) => {
+        if (!soundscape) return;
+        onChange({ name: CUSTOM_SOUNDSCAPE_NAME, mix: { ...soundscape.mix, [noise]: volume } });
+    };
+
+    const handleSave = () => {
+        const name = presetName.trim().slice(0, MAX_SOUNDSCAPE_NAME_LENGTH);
+        if (!name || !soundscape) return;
+        onSavePreset(name, soundscape.mix);
+        onChange({ name, mix: soundscape.mix });
+        setPresetName('');
+    };
+
+    return (
+        <div className="input-settings soundscape-mixer">
+            <div className="group-header">
+                <p className="group-label">{t('soundscape.title')}</p>
+                <button className="collapse-history-btn" onClick={onClose}>{t('common.done')}</button>
+            </div>
+
+            <label className="input-binding">
+                <span>{t('soundscape.play')}</span>
+                <input
+                    type="checkbox"
+                    checked={soundscape !== null}
+                    onChange={(e) => toggleSound(e.target.checked)}
+                />
+            </label>
+
+            {soundscape && (
+                <>
+                    <label className="input-binding">
+                        <span>{t('soundscape.preset')}</span>
+                        <select
+                            className="mantra-input"
+                            value={selected?.id ?? ''}
+                            onChange={(e) => {
+                                const preset = allPresets.find(p => p.id === e.target.value);
+                                if (preset) onChange({ name: preset.name, mix: preset.mix });
+                            }}
+                        >
+                            {!selected && <option value="">{displayName(CUSTOM_SOUNDSCAPE_NAME)}</option>}
+                            {allPresets.map(preset => (
+                                <option key={preset.id} value={preset.id}>{displayName(preset.name)}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    {NOISE_TYPES.map(noise => (
+                        <label key={noise} className="input-binding">
+                            <span>{t(`soundscape.noise.${noise}`)}</span>
+                            <input
+                                type="range"
+                                className="soundscape-slider"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={soundscape.mix[noise]}
+                                onChange={(e) => setVolume(noise, Number(e.target.value))}
+                                aria-valuetext={formatNumber(soundscape.mix[noise], { style: 'percent' })}
+                            />
+                        </label>
+                    ))}
+
+                    <div className="soundscape-preset-row">
+                        <input
+                            className="mantra-input"
+                            value={presetName}
+                            maxLength={MAX_SOUNDSCAPE_NAME_LENGTH}
+                            onChange={(e) => setPresetName(e.target.value)}
+                            placeholder={presets.length < MAX_SOUNDSCAPE_PRESETS
+                                ? t('soundscape.saveAs')
+                                : t('soundscape.presetLimit', { count: MAX_SOUNDSCAPE_PRESETS })}
+                            disabled={presets.length >= MAX_SOUNDSCAPE_PRESETS}
+                            aria-label={t('soundscape.presetName')}
+                        />
+                        <button
+                            className="mantra-text-btn"
+                            onClick={handleSave}
+                            disabled={!presetName.trim() || presets.length >= MAX_SOUNDSCAPE_PRESETS}
+                        >
+                            {t('soundscape.save')}
+                        </button>
+                        {ownPreset && (
+                            <button className="mantra-text-btn" onClick={() => onDeletePreset(ownPreset.id)}>{t('common.delete')}</button>
+                        )}
+                    </div>
+
+                    <label className="input-binding">
+                        <span>{t('soundscape.sleepTimer')}</span>
+                        <select
+                            className="mantra-input"
+                            value={sleepUntil === null ? 0 : sleepMinutes}
+                            onChange={(e) => {
+                                setSleepMinutes(Number(e.target.value));
+                                onSleepTimer(Number(e.target.value));
+                            }}
+                        >
+                            {SLEEP_TIMER_OPTIONS.map(minutes => (
+                                <option key={minutes} value={minutes}>
+                                    {minutes === 0 ? t('soundscape.sleepOff') : t('soundscape.sleepMinutes', { count: minutes })}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <p className="input-hint">
+                        {sleepUntil !== null
+                            ? t('soundscape.fadesAt', { time: formatTime(new Date(sleepUntil)) })
+                            : t(playing ? 'soundscape.playing' : 'soundscape.idle')}
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
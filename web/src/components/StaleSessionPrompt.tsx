@@ -0,0 +1,35 @@
+import { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { LiveSession } from '../types';
+
+interface StaleSessionPromptProps {
+    session: LiveSession;
+    onResume: () => void;
+    onDiscard: () => void;
+}
+
+export function StaleSessionPrompt({ session, onResume, onDiscard }: StaleSessionPromptProps) {
+    const { t } = useI18n();
+    const repeats = Object.values(session.counts).reduce((sum, c) => sum + c, 0);
+    const [shownAt] = useState(() => Date.now());
+    const hours = Math.floor((shownAt - session.updatedAt) / (1000 * 60 * 60));
+    const idle = hours >= 24
+        ? t('stale.days', { count: Math.floor(hours / 24) })
+        : t('stale.hours', { count: hours });
+
+    return (
+        <div className="stale-session-prompt" role="alertdialog" aria-label={t('stale.label')}>
+            <p className="stale-session-text">
+                {t('stale.text', {
+                    idle,
+                    repeats: t('stale.repeats', { count: repeats }),
+                    lostFocus: session.lostFocusCount,
+                })}
+            </p>
+            <div className="stale-session-actions">
+                <button className="mantra-text-btn" onClick={onResume}>{t('common.resume')}</button>
+                <button className="mantra-text-btn" onClick={onDiscard}>{t('common.discard')}</button>
+            </div>
+        </div>
+    );
+}
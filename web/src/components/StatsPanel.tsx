@@ -0,0 +1,226 @@
+import { useState, useEffect, useMemo } from 'react';
+import { TrendChart } from './TrendChart';
+import { soundscapeNameKey } from '../data/soundscapes';
+import { computeStats, LENGTH_BANDS, toStatsSession } from '../lib/stats';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import { debugError } from '../logger';
+import type { HistoryItem, Mantra } from '../types';
+
+interface StatsPanelProps {
+    mantras: Mantra[];
+    loadItems: () => Promise<HistoryItem[]>;
+    onClose: () => void;
+}
+
+const ONE_DECIMAL: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 };
+
+export function StatsPanel({ mantras, loadItems, onClose }: StatsPanelProps) {
+    const panelRef = useDialog<HTMLDivElement>(onClose);
+    const [items, setItems] = useState<HistoryItem[] | null>(null);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const [trendUnit, setTrendUnit] = useState<'week' | 'month'>('week');
+    const [now] = useState(() => Date.now());
+    const { t, formatDate, formatDuration, formatNumber } = useI18n();
+
+    useEffect(() => {
+        let cancelled = false;
+        loadItems()
+            .then(loaded => {
+                if (!cancelled) setItems(loaded);
+            })
+            .catch(e => {
+                debugError('Error loading stats: ', e);
+                if (!cancelled) setError('stats.loadError');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [loadItems]);
+
+    const stats = useMemo(
+        () => (items ? computeStats(items.map(item => toStatsSession(item, mantras)), now) : null),
+        [items, mantras, now]
+    );
+
+    const trend = stats ? (trendUnit === 'week' ? stats.weekly : stats.monthly) : [];
+
+    const formatChange = (change: number) => formatNumber(change, { ...ONE_DECIMAL, signDisplay: 'exceptZero' });
+    const formatRatio = (ratio: number | null) => (ratio === null ? '–' : formatNumber(ratio, ONE_DECIMAL));
+    const formatMinutes = (minutes: number) => formatDuration(Math.round(minutes) * 60 * 1000);
+    const formatDays = (days: number) => formatNumber(days, { style: 'unit', unit: 'day', unitDisplay: 'narrow' });
+    const periodLabel = (start: number, unit: 'week' | 'month') =>
+        formatDate(new Date(start), unit === 'week' ? { month: 'numeric', day: 'numeric' } : { month: 'short' });
+    const soundscapeLabel = (name: string | null) => {
+        if (name === null) return t('stats.silence');
+        const key = soundscapeNameKey(name);
+        return key ? t(key) : name;
+    };
+    const lengthLabel = (band: number) => {
+        if (band === 0) return t('stats.lengthUnder', { max: LENGTH_BANDS[0] });
+        if (band === LENGTH_BANDS.length - 1) return t('stats.lengthOver', { min: LENGTH_BANDS[band - 1] });
+        return t('stats.lengthBetween', { min: LENGTH_BANDS[band - 1], max: LENGTH_BANDS[band] });
+    };
+
+    return (
+        <div className="overlay-backdrop" onClick={onClose}>
+            <div
+                ref={panelRef}
+                className="glass-card overlay-panel stats-panel"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('stats.title')}
+                tabIndex={-1}
+            >
+                <div className="group-header overlay-header">
+                    <h3 className="history-title">{t('stats.title')}</h3>
+                    <button className="collapse-history-btn" onClick={onClose}>{t('common.close')}</button>
+                </div>
+
+                {error && <p className="no-history">{t(error)}</p>}
+                {!stats && !error && <p className="no-history">{t('stats.loading')}</p>}
+
+                {stats && (
+                    <>
+                        <div className="daily-stats-grid">
+                            <div className="daily-stat-badge">
+                                <span className="stat-date">{t('stats.currentStreak')}</span>
+                                <span className="stat-count">{formatDays(stats.streaks.current)}</span>
+                            </div>
+                            <div className="daily-stat-badge">
+                                <span className="stat-date">{t('stats.longestStreak')}</span>
+                                <span className="stat-count">{formatDays(stats.streaks.longest)}</span>
+                            </div>
+                            <div className="daily-stat-badge">
+                                <span className="stat-date">{t('stats.sessions')}</span>
+                                <span className="stat-count">{formatNumber(stats.totalSessions)}</span>
+                            </div>
+                            <div className="daily-stat-badge">
+                                <span className="stat-date">{t('stats.repeats')}</span>
+                                <span className="stat-count">{formatNumber(stats.totalRepeats)}</span>
+                            </div>
+                            <div className="daily-stat-badge">
+                                <span className="stat-date">{t('stats.averageLength')}</span>
+                                <span className="stat-count">{formatMinutes(stats.averageMinutes)}</span>
+                            </div>
+                            <div className="daily-stat-badge">
+                                <span className="stat-date">{t('stats.lostPer100')}</span>
+                                <span className="stat-count">{formatRatio(stats.focusRatio)}</span>
+                            </div>
+                        </div>
+
+                        <div className="stats-section">
+                            <div className="group-header">
+                                <p className="group-label">{t(trendUnit === 'week' ? 'stats.repeatsPerWeek' : 'stats.repeatsPerMonth')}</p>
+                                <div className="word-toggle stats-toggle">
+                                    <button className={`toggle-option ${trendUnit === 'week' ? 'active' : ''}`} onClick={() => setTrendUnit('week')}>{t('stats.weekly')}</button>
+                                    <button className={`toggle-option ${trendUnit === 'month' ? 'active' : ''}`} onClick={() => setTrendUnit('month')}>{t('stats.monthly')}</button>
+                                </div>
+                            </div>
+                            <TrendChart
+                                points={trend.map(b => ({ label: periodLabel(b.start, trendUnit), value: b.repeats }))}
+                                description={t(trendUnit === 'week' ? 'stats.repeatsPerWeek' : 'stats.repeatsPerMonth')}
+                            />
+                        </div>
+
+                        <div className="stats-section">
+                            <p className="group-label">{t('stats.focusTrend')}</p>
+                            <TrendChart
+                                points={stats.focusTrend.map(b => ({ label: periodLabel(b.start, 'week'), value: b.value }))}
+                                description={t('stats.focusTrendDescription')}
+                                variant="line"
+                            />
+                        </div>
+
+                        {stats.bySoundscape.some(row => row.name !== null) && (
+                            <div className="stats-section">
+                                <p className="group-label">{t('stats.bySoundscape')}</p>
+                                <table className="stats-table">
+                                    <thead>
+                                        <tr>
+                                            <th scope="col">{t('stats.soundscape')}</th>
+                                            <th scope="col">{t('stats.sessions')}</th>
+                                            <th scope="col">{t('stats.repeats')}</th>
+                                            <th scope="col">{t('stats.lostPer100')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {stats.bySoundscape.map(row => (
+                                            <tr key={row.name === null ? 'silent' : `soundscape:${row.name}`}>
+                                                <td>{soundscapeLabel(row.name)}</td>
+                                                <td>{formatNumber(row.sessions)}</td>
+                                                <td>{formatNumber(row.repeats)}</td>
+                                                <td>{formatRatio(row.focusRatio)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {stats.mood && (
+                            <div className="stats-section">
+                                <p className="group-label">{t('stats.moodChange')}</p>
+                                <p className="input-hint">
+                                    {t('stats.moodSummary', { count: stats.mood.sessions, change: formatChange(stats.mood.averageChange) })}
+                                    {stats.mood.lengthCorrelation !== null && (
+                                        ` ${t('stats.moodCorrelation', { correlation: formatNumber(stats.mood.lengthCorrelation, { maximumFractionDigits: 2, minimumFractionDigits: 2 }) })}`
+                                    )}
+                                </p>
+                                {[
+                                    { title: t('stats.length'), rows: stats.mood.byLength.map(row => ({ ...row, label: lengthLabel(Number(row.key)) })) },
+                                    { title: t('stats.mantra'), rows: stats.mood.byMantra },
+                                ].map(table => (
+                                    <table key={table.title} className="stats-table">
+                                        <thead>
+                                            <tr>
+                                                <th scope="col">{table.title}</th>
+                                                <th scope="col">{t('stats.sessions')}</th>
+                                                <th scope="col">{t('stats.averageChange')}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {table.rows.map(row => (
+                                                <tr key={row.key}>
+                                                    <td>{row.label}</td>
+                                                    <td>{formatNumber(row.sessions)}</td>
+                                                    <td>{formatChange(row.averageChange)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="stats-section">
+                            <p className="group-label">{t('stats.byMantra')}</p>
+                            <table className="stats-table">
+                                <thead>
+                                    <tr>
+                                        <th scope="col">{t('stats.mantra')}</th>
+                                        <th scope="col">{t('stats.sessions')}</th>
+                                        <th scope="col">{t('stats.repeats')}</th>
+                                        <th scope="col">{t('stats.time')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {stats.byMantra.map(row => (
+                                        <tr key={row.key}>
+                                            <td>{row.label}</td>
+                                            <td>{formatNumber(row.sessions)}</td>
+                                            <td>{formatNumber(row.repeats)}</td>
+                                            <td>{formatMinutes(row.minutes)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
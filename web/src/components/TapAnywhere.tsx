@@ -0,0 +1,74 @@
+import { useEffect, useRef, type PointerEvent } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface TapAnywhereProps {
+    count: number;
+    onIncrement: () => void;
+    onLostFocus: () => void;
+    onExit: () => void;
+}
+
+// Holding a finger down this long marks lost focus instead of counting
+const LONG_PRESS_MS = 600;
+
+export function TapAnywhere({ count, onIncrement, onLostFocus, onExit }: TapAnywhereProps) {
+    const pressRef = useRef<{ id: number; timer: number; fired: boolean } | null>(null);
+    const { t, formatNumber } = useI18n();
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onExit();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onExit]);
+
+    useEffect(() => () => {
+        if (pressRef.current) clearTimeout(pressRef.current.timer);
+    }, []);
+
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        // A second finger landing mid-press is ignored rather than counted
+        if (pressRef.current) return;
+        const press = {
+            id: e.pointerId,
+            fired: false,
+            timer: window.setTimeout(() => {
+                press.fired = true;
+                onLostFocus();
+            }, LONG_PRESS_MS),
+        };
+        pressRef.current = press;
+    };
+
+    const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+        const press = pressRef.current;
+        if (!press || press.id !== e.pointerId) return;
+        clearTimeout(press.timer);
+        pressRef.current = null;
+        if (!press.fired && e.type === 'pointerup') onIncrement();
+    };
+
+    return (
+        <div
+            className="tap-anywhere"
+            onPointerDown={handlePointerDown}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onContextMenu={(e) => e.preventDefault()}
+            role="button"
+            aria-label={t('tap.label')}
+        >
+            <span className="tap-anywhere-count">{formatNumber(count)}</span>
+            <p className="tap-anywhere-hint">{t('tap.hint')}</p>
+            <button
+                className="collapse-history-btn tap-anywhere-exit"
+                onPointerDown={(e) => e.stopPropagation()}
+                onPointerUp={(e) => e.stopPropagation()}
+                onClick={onExit}
+            >
+                {t('tap.exit')}
+            </button>
+        </div>
+    );
+}
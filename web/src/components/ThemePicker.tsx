@@ -0,0 +1,201 @@
+import { useState, useRef, type ChangeEvent } from 'react';
+import { BACKGROUNDS, MAX_BACKGROUND_BYTES, PALETTES, THEME_MODES } from '../data/themes';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import { debugError } from '../logger';
+import type { ThemeMode, ThemePreference } from '../types';
+
+interface ThemePickerProps {
+    theme: ThemePreference;
+    isDark: boolean;
+    hasImage: boolean;
+    onChange: (update: Partial<ThemePreference>) => void;
+    onUploadImage: (image: Blob) => Promise<void>;
+    onRemoveImage: () => Promise<void>;
+    onClose: () => void;
+}
+
+export function ThemePicker({ theme, isDark, hasImage, onChange, onUploadImage, onRemoveImage, onClose }: ThemePickerProps) {
+    const panelRef = useDialog<HTMLDivElement>(onClose);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { t } = useI18n();
+
+    const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (!file.type.startsWith('image/')) {
+            setError('theme.notImage');
+            return;
+        }
+        if (file.size > MAX_BACKGROUND_BYTES) {
+            setError('theme.imageTooLarge');
+            return;
+        }
+        setError(null);
+        try {
+            await onUploadImage(file);
+            onChange({ background: 'image' });
+        } catch (err) {
+            debugError('Error saving background image: ', err);
+            setError('theme.imageError');
+        }
+    };
+
+    const handleRemove = async () => {
+        try {
+            await onRemoveImage();
+            if (theme.background === 'image') onChange({ background: 'scenery' });
+        } catch (err) {
+            debugError('Error removing background image: ', err);
+        }
+    };
+
+    return (
+        <div className="overlay-backdrop" onClick={onClose}>
+            <div
+                ref={panelRef}
+                className="glass-card overlay-panel theme-picker"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('app.appearance')}
+                tabIndex={-1}
+            >
+                <div className="group-header overlay-header">
+                    <h3 className="history-title">{t('app.appearance')}</h3>
+                    <button className="collapse-history-btn" onClick={onClose}>{t('common.close')}</button>
+                </div>
+
+                <label className="input-binding">
+                    <span>{t('theme.mode')}</span>
+                    <select
+                        className="mantra-input"
+                        value={theme.mode}
+                        onChange={(e) => onChange({ mode: e.target.value as ThemeMode })}
+                    >
+                        {THEME_MODES.map(mode => (
+                            <option key={mode} value={mode}>{t(`theme.mode.${mode}`)}</option>
+                        ))}
+                    </select>
+                </label>
+                {theme.mode === 'schedule' && (
+                    <div className="theme-schedule">
+                        <label className="input-binding">
+                            <span>{t('theme.lightFrom')}</span>
+                            <input
+                                type="time"
+                                className="mantra-input"
+                                value={theme.lightFrom}
+                                onChange={(e) => e.target.value && onChange({ lightFrom: e.target.value })}
+                            />
+                        </label>
+                        <label className="input-binding">
+                            <span>{t('theme.darkFrom')}</span>
+                            <input
+                                type="time"
+                                className="mantra-input"
+                                value={theme.darkFrom}
+                                onChange={(e) => e.target.value && onChange({ darkFrom: e.target.value })}
+                            />
+                        </label>
+                    </div>
+                )}
+
+                <p className="group-label">{t('theme.colours')}</p>
+                <div className="theme-swatches" role="radiogroup" aria-label={t('theme.colours')}>
+                    {PALETTES.map(palette => {
+                        const colours = palette[isDark ? 'dark' : 'light'];
+                        return (
+                            <button
+                                key={palette.id}
+                                className={`theme-swatch ${theme.palette === palette.id ? 'active' : ''}`}
+                                style={{ background: `linear-gradient(135deg, ${colours.gradientStart}, ${colours.gradientEnd})` }}
+                                onClick={() => onChange({ palette: palette.id })}
+                                role="radio"
+                                aria-checked={theme.palette === palette.id}
+                                aria-label={t(palette.labelKey)}
+                                title={t(palette.labelKey)}
+                            />
+                        );
+                    })}
+                </div>
+
+                <p className="group-label">{t('theme.background')}</p>
+                <div className="theme-swatches" role="radiogroup" aria-label={t('theme.background')}>
+                    {BACKGROUNDS.map(background => (
+                        <button
+                            key={background.id}
+                            className={`theme-swatch theme-background ${theme.background === background.id ? 'active' : ''}`}
+                            style={{ background: (isDark ? background.dark : background.light).replace(' fixed', ''), backgroundSize: 'cover' }}
+                            onClick={() => onChange({ background: background.id })}
+                            role="radio"
+                            aria-checked={theme.background === background.id}
+                            aria-label={t(background.labelKey)}
+                            title={t(background.labelKey)}
+                        />
+                    ))}
+                    <button
+                        className={`theme-swatch theme-background ${theme.background === 'gradient' ? 'active' : ''}`}
+                        style={{ background: `linear-gradient(135deg, ${theme.gradient[0]}, ${theme.gradient[1]})` }}
+                        onClick={() => onChange({ background: 'gradient' })}
+                        role="radio"
+                        aria-checked={theme.background === 'gradient'}
+                        aria-label={t('theme.customGradient')}
+                        title={t('theme.customGradient')}
+                    />
+                    {hasImage && (
+                        <button
+                            className={`theme-swatch theme-background ${theme.background === 'image' ? 'active' : ''}`}
+                            onClick={() => onChange({ background: 'image' })}
+                            role="radio"
+                            aria-checked={theme.background === 'image'}
+                            aria-label={t('theme.yourImage')}
+                            title={t('theme.yourImage')}
+                        >
+                            🖼
+                        </button>
+                    )}
+                </div>
+
+                {theme.background === 'gradient' && (
+                    <div className="input-binding">
+                        <span>{t('theme.gradientColours')}</span>
+                        <span className="theme-gradient-inputs">
+                            <input
+                                type="color"
+                                value={theme.gradient[0]}
+                                onChange={(e) => onChange({ gradient: [e.target.value, theme.gradient[1]] })}
+                                aria-label={t('theme.gradientStart')}
+                            />
+                            <input
+                                type="color"
+                                value={theme.gradient[1]}
+                                onChange={(e) => onChange({ gradient: [theme.gradient[0], e.target.value] })}
+                                aria-label={t('theme.gradientEnd')}
+                            />
+                        </span>
+                    </div>
+                )}
+
+                <div className="theme-upload">
+                    <button className="mantra-text-btn" onClick={() => fileInputRef.current?.click()}>
+                        {t(hasImage ? 'theme.replaceImage' : 'theme.uploadImage')}
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="image/*" onChange={handleUpload} hidden />
+                    {hasImage && (
+                        <button className="mantra-text-btn" onClick={handleRemove}>{t('theme.removeImage')}</button>
+                    )}
+                </div>
+                <p className="input-hint">{t('theme.imageHint')}</p>
+                {error && (
+                    <p className="input-hint theme-error">
+                        {t(error, { size: MAX_BACKGROUND_BYTES / 1024 / 1024 })}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+import { useI18n } from '../hooks/useI18n';
+
+interface TrendChartProps {
+    // Labels arrive formatted for the locale
+    points: { label: string; value: number | null }[];
+    // Shown in the accessible label, e.g. "repeats per week"
+    description: string;
+    variant?: 'bar' | 'line';
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const LABEL_SPACE = 12;
+
+export function TrendChart({ points, description, variant = 'bar' }: TrendChartProps) {
+    const { t, formatNumber } = useI18n();
+    const peak = Math.max(...points.map(p => p.value ?? 0), 1);
+    const slot = WIDTH / Math.max(points.length, 1);
+    const plotHeight = HEIGHT - LABEL_SPACE;
+    const y = (value: number) => plotHeight - (value / peak) * (plotHeight - 4);
+
+    const linePoints = points
+        .map((p, i) => (p.value === null ? null : `${(i + 0.5) * slot},${y(p.value)}`))
+        .filter(Boolean)
+        .join(' ');
+
+    return (
+        <svg
+            className="trend-chart"
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            role="img"
+            aria-label={`${description}: ${points.map(p => `${p.label} ${p.value === null ? t('stats.none') : formatNumber(Math.round(p.value))}`).join(', ')}`}
+        >
+            {variant === 'bar'
+                ? points.map((p, i) => (
+                    <rect
+                        key={p.label + i}
+                        className="trend-bar"
+                        x={i * slot + slot * 0.15}
+                        width={slot * 0.7}
+                        y={y(p.value ?? 0)}
+                        height={plotHeight - y(p.value ?? 0)}
+                        rx={2}
+                    >
+                        <title>{`${p.label}: ${formatNumber(Math.round(p.value ?? 0))}`}</title>
+                    </rect>
+                ))
+                : <polyline className="trend-line" points={linePoints} />}
+            {points.map((p, i) => (i % 2 === 0 || points.length <= 6) && (
+                <text key={`label-${p.label}-${i}`} className="trend-label" x={(i + 0.5) * slot} y={HEIGHT - 2} textAnchor="middle">
+                    {p.label}
+                </text>
+            ))}
+        </svg>
+    );
+}
@@ -0,0 +1,17 @@
+import { useI18n } from '../hooks/useI18n';
+
+interface UpdatePromptProps {
+    onUpdate: () => void;
+    onDismiss: () => void;
+}
+
+export function UpdatePrompt({ onUpdate, onDismiss }: UpdatePromptProps) {
+    const { t } = useI18n();
+    return (
+        <div className="update-prompt" role="status">
+            <span>{t('update.available')}</span>
+            <button className="mantra-text-btn" onClick={onUpdate}>{t('update.reload')}</button>
+            <button className="collapse-history-btn" onClick={onDismiss}>{t('update.later')}</button>
+        </div>
+    );
+}
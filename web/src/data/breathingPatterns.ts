@@ -0,0 +1,41 @@
+import type { BreathingPattern } from '../types';
+
+export const BREATHING_PATTERNS: BreathingPattern[] = [
+    {
+        id: 'box',
+        labelKey: 'pacing.pattern.box',
+        phases: [
+            { kind: 'inhale', seconds: 4 },
+            { kind: 'hold', seconds: 4 },
+            { kind: 'exhale', seconds: 4 },
+            { kind: 'rest', seconds: 4 },
+        ],
+    },
+    {
+        id: '4-7-8',
+        labelKey: 'pacing.pattern.4-7-8',
+        phases: [
+            { kind: 'inhale', seconds: 4 },
+            { kind: 'hold', seconds: 7 },
+            { kind: 'exhale', seconds: 8 },
+        ],
+    },
+    {
+        id: 'coherent',
+        labelKey: 'pacing.pattern.coherent',
+        phases: [
+            { kind: 'inhale', seconds: 5 },
+            { kind: 'exhale', seconds: 5 },
+        ],
+    },
+    {
+        id: 'calm',
+        labelKey: 'pacing.pattern.calm',
+        phases: [
+            { kind: 'inhale', seconds: 4 },
+            { kind: 'exhale', seconds: 6 },
+        ],
+    },
+];
+
+export const findBreathingPattern = (id: string | undefined) => BREATHING_PATTERNS.find(p => p.id === id);
@@ -0,0 +1,21 @@
+import type { InputBindings } from '../types';
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+    incrementKey: 'Space',
+    lostFocusKey: 'KeyL',
+    mediaKeys: false,
+    guardMs: 250,
+};
+
+// In milliseconds; 0 turns the guard off
+export const GUARD_OPTIONS = [0, 150, 250, 500, 1000];
+
+// Keys that would break the page or the browser if captured
+export const RESERVED_KEYS = ['Tab', 'Escape', 'F5', 'MetaLeft', 'MetaRight'];
+
+// "KeyL" -> "L", "Digit1" -> "1", "ArrowUp" -> "Arrow Up"
+export const formatKeyCode = (code: string) => {
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    return code.replace(/([a-z])([A-Z])/g, '$1 $2');
+};
@@ -0,0 +1,17 @@
+import { en, type Catalog } from './messages/en';
+import { es } from './messages/es';
+import { ar } from './messages/ar';
+import type { Locale } from '../types';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Labels are in their own language so the switcher reads the same whatever is selected
+export const LOCALES: { id: Locale; label: string; dir: 'ltr' | 'rtl' }[] = [
+    { id: 'en', label: 'English', dir: 'ltr' },
+    { id: 'es', label: 'Español', dir: 'ltr' },
+    { id: 'ar', label: 'العربية', dir: 'rtl' },
+];
+
+export const CATALOGS: Record<Locale, Catalog> = { en, es, ar };
+
+export const findLocale = (id: string) => LOCALES.find(l => l.id === id);
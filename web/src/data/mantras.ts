@@ -0,0 +1,36 @@
+import type { HistoryItem, Locale, Mantra } from '../types';
+
+const DEFAULT_MANTRA_IDS = ['relax', 'dont-think', 'dont-care'];
+
+// The phrases the app shipped with before mantras became editable, in each UI language
+const DEFAULT_MANTRA_TEXT: Record<Locale, string[]> = {
+    en: ['relax', 'dont think', 'dont care'],
+    es: ['relájate', 'no pienses', 'no importa'],
+    ar: ['استرخِ', 'لا تفكّر', 'لا تبالِ'],
+};
+
+// New guests and accounts start with the set for the language they arrive in
+export const defaultMantras = (locale: Locale): Mantra[] => DEFAULT_MANTRA_IDS.map((id, order) => ({
+    id,
+    text: DEFAULT_MANTRA_TEXT[locale][order],
+    order,
+    archived: false,
+}));
+
+export const MAX_MANTRA_LENGTH = 40;
+
+export const sortMantras = (mantras: Mantra[]) => [...mantras].sort((a, b) => a.order - b.order);
+
+// Sessions saved before mantras existed only carry the word, so fall back to matching the text
+export const resolveMantra = (item: Pick<HistoryItem, 'mantraId' | 'word'>, mantras: Mantra[]): Mantra | undefined => {
+    if (item.mantraId) {
+        const byId = mantras.find(m => m.id === item.mantraId);
+        if (byId) return byId;
+    }
+    const word = (item.word || 'relax').toLowerCase();
+    return mantras.find(m => m.text.toLowerCase() === word);
+};
+
+export const resolveMantraText = (item: Pick<HistoryItem, 'mantraId' | 'word'>, mantras: Mantra[]) => {
+    return resolveMantra(item, mantras)?.text ?? item.word ?? 'relax';
+};
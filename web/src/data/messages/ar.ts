@@ -0,0 +1,526 @@
+import type { Catalog } from './en';
+
+export const ar: Catalog = {
+    'common.add': 'إضافة',
+    'common.cancel': 'إلغاء',
+    'common.close': 'إغلاق',
+    'common.delete': 'حذف',
+    'common.discard': 'تجاهل',
+    'common.done': 'تم',
+    'common.edit': 'تعديل',
+    'common.loading': 'جارٍ التحميل…',
+    'common.remove': 'إزالة',
+    'common.resume': 'استئناف',
+    'common.skip': 'تخطٍّ',
+
+    'app.language': 'اللغة',
+    'app.toggleTheme': 'تبديل المظهر',
+    'app.quotes': 'اقتباسات',
+    'app.appearance': 'المظهر',
+    'app.logout': 'تسجيل الخروج',
+    'app.login': 'تسجيل الدخول',
+    'app.editMantras': 'تعديل العبارات',
+    'app.instruction': 'ردّد الكلمة',
+    'app.arriving': 'كيف تشعر وأنت تبدأ؟',
+    'app.ofTarget': 'من {target}',
+    'app.endGuided': 'إنهاء الجلسة الموجّهة',
+    'app.repeats': 'التكرارات',
+    'app.lostFocus': 'مرات الشرود',
+    'app.lostFocusCount': 'عدد مرات الشرود',
+    'app.increment': 'زيادة عدد {mantra}',
+    'app.startGuided': 'بدء جلسة موجّهة',
+    'app.handsFree': 'إدخال دون استخدام اليدين',
+    'app.soundscape': 'الأجواء الصوتية',
+    'app.reset': 'إعادة ضبط الجلسة',
+    'app.distracted': 'شرد ذهني',
+    'app.saveOnDevice': 'الحفظ على هذا الجهاز (سجّل الدخول للمزامنة)',
+    'app.saveToHistory': 'حفظ الجلسة في السجل',
+    'app.saveError': 'تعذّر حفظ الجلسة. لا يزال العدّ هنا، لذا يمكنك المحاولة مرة أخرى.',
+    'app.recentDetails': 'الجلسات الأخيرة',
+    'app.onThisDevice': 'على هذا الجهاز',
+    'app.stats': 'الإحصاءات',
+    'app.browseAll': 'عرض الكل',
+    'app.today': 'اليوم',
+    'app.showPast': 'عرض الجلسات السابقة ({count})',
+    'app.earlier': 'سابقًا',
+    'app.hide': 'إخفاء',
+    'app.noSessionsToday': 'لا جلسات اليوم بعد',
+    'app.noSessions': 'لا جلسات محفوظة بعد',
+    'app.announcement': '{repeats}، {lostFocus}',
+    'app.announcementRepeats_zero': 'لا تكرارات',
+    'app.announcementRepeats_one': 'تكرار واحد',
+    'app.announcementRepeats_two': 'تكراران',
+    'app.announcementRepeats_few': '{count} تكرارات',
+    'app.announcementRepeats_many': '{count} تكرارًا',
+    'app.announcementRepeats_other': '{count} تكرار',
+    'app.announcementLostFocus_one': 'شرود مرة واحدة',
+    'app.announcementLostFocus_two': 'شرود مرتين',
+    'app.announcementLostFocus_few': 'شرود {count} مرات',
+    'app.announcementLostFocus_many': 'شرود {count} مرة',
+    'app.announcementLostFocus_other': 'شرود {count} مرة',
+
+    'auth.title': 'تسجيل الدخول',
+    'auth.upgradeTitle': 'الاحتفاظ بهذا الحساب',
+    'auth.upgradeHint': 'أنت تستخدم حساب ضيف. أضف Google أو بريدًا إلكترونيًا للاحتفاظ بسجله وفتحه على أجهزة أخرى.',
+    'auth.google': 'المتابعة باستخدام Google',
+    'auth.emailLabel': 'البريد الإلكتروني',
+    'auth.emailPlaceholder': 'you@example.com',
+    'auth.sendLink': 'أرسل لي رابط تسجيل الدخول',
+    'auth.linkSent': 'افتح الرابط المرسل إلى {email} لإكمال تسجيل الدخول.',
+    'auth.or': 'أو',
+    'auth.anonymous': 'المتابعة دون حساب',
+    'auth.anonymousHint': 'تُزامَن الجلسات مع حساب ضيف يمكنك الاحتفاظ به لاحقًا بإضافة Google أو بريد إلكتروني.',
+    'auth.saveAccount': 'حفظ الحساب',
+    'auth.confirmEmail': 'أدخل البريد الإلكتروني الذي أُرسل إليه رابط تسجيل الدخول',
+    'auth.confirmGuestLogout': 'أنت تستخدم حساب ضيف. سيؤدي تسجيل الخروج إلى فقدان سجله ما لم تحفظ الحساب أولًا. هل تريد تسجيل الخروج على أي حال؟',
+    'auth.error': 'تعذّر تسجيل الدخول. حاول مرة أخرى.',
+    'auth.invalidEmail': 'لا يبدو عنوان البريد الإلكتروني صحيحًا.',
+    'auth.linkFailed': 'رابط تسجيل الدخول غير صالح أو منتهي الصلاحية.',
+    'auth.recentLogin': 'لأمانك، سجّل الخروج ثم سجّل الدخول مجددًا، وبعدها حاول مرة أخرى.',
+    'auth.recentLoginEmail': 'أرسلنا إليك رابطًا للتأكد من هويتك. افتحه ثم حاول مرة أخرى.',
+    'auth.recentLoginGuest': 'لا يمكن حذف حساب الضيف إلا بعد إنشائه بوقت قصير. لا يزال بإمكانك حذف سجله.',
+    'auth.linkTitle': 'طرق تسجيل الدخول',
+    'auth.linkHint': 'أضف طريقة أخرى لتسجيل الدخول إلى هذا الحساب. يبقى سجله كما هو.',
+    'auth.linkGoogle': 'إضافة Google',
+    'auth.allLinked': 'يسجّل هذا الحساب الدخول باستخدام Google والبريد الإلكتروني معًا.',
+    'auth.linkedElsewhere': 'طريقة تسجيل الدخول هذه مرتبطة بحساب آخر بالفعل.',
+
+    'data.title': 'بياناتك',
+    'data.archiveTitle': 'تنزيل',
+    'data.archiveHint': 'ملف JSON واحد يضم كل جلساتك وعباراتك وإعداداتك ومجاميعك اليومية. يمكن استيراد الجلسات مرة أخرى لاحقًا.',
+    'data.archive': 'تنزيل الأرشيف',
+    'data.archived': 'تم تنزيل الأرشيف.',
+    'data.archiveError': 'تعذّر إنشاء الأرشيف.',
+    'data.deleteTitle': 'حذف',
+    'data.deleteHint': 'يحذف كل الجلسات المحفوظة من هذا الحساب ومن هذا الجهاز.',
+    'data.withAccount': 'احذف أيضًا حسابي وعباراتي وإعداداتي',
+    'data.deleteHistory': 'حذف السجل كله…',
+    'data.deleteAccount': 'حذف الحساب والبيانات…',
+    'data.confirmHistory': 'ستُحذف كل جلساتك. لا يمكن التراجع عن ذلك.',
+    'data.confirmAccount': 'ستُحذف جلساتك وعباراتك وإعداداتك وحسابك. لا يمكن التراجع عن ذلك.',
+    'data.noArchive': 'لم تنزّل أرشيفًا بعد.',
+    'data.confirmWord': 'حذف',
+    'data.confirmLabel': 'اكتب «{word}» للتأكيد',
+    'data.deleteForever': 'حذف نهائي',
+    'data.progress': 'حُذفت {deleted} من {total} جلسة',
+    'data.deleted': 'تم حذف سجلك.',
+    'data.deleteError': 'توقف الحذف في منتصفه. ما حُذف لا يمكن استعادته؛ حاول مرة أخرى لإكماله.',
+
+    'circles.title': 'الحلقات',
+    'circles.privacy': 'يرى أعضاء حلقاتك الاسم الذي تختاره وسلسلة أيامك ومجموع جلساتك ووقت جلوسك للتأمل. تبقى جلساتك وعباراتك وملاحظاتك خاصة.',
+    'circles.inviteCode': 'رمز الدعوة',
+    'circles.copy': 'نسخ',
+    'circles.copied': 'تم النسخ',
+    'circles.newCode': 'رمز جديد',
+    'circles.newCodeHint': 'يتوقف الرمز الحالي عن العمل. يبقى الأعضاء في الحلقة.',
+    'circles.leave': 'مغادرة',
+    'circles.delete': 'حذف الحلقة',
+    'circles.confirmLeave': 'مغادرة «{name}»؟ لن يرى أعضاؤها سلسلتك ومجموعك بعد الآن.',
+    'circles.confirmDelete': 'حذف «{name}» لجميع أعضائها؟',
+    'circles.you': '{name} (أنت)',
+    'circles.sittingFor': 'يتأمل الآن · {duration}',
+    'circles.streak_zero': 'لا سلسلة',
+    'circles.streak_one': 'سلسلة يوم واحد',
+    'circles.streak_two': 'سلسلة يومين',
+    'circles.streak_few': 'سلسلة {count} أيام',
+    'circles.streak_many': 'سلسلة {count} يومًا',
+    'circles.streak_other': 'سلسلة {count} يوم',
+    'circles.today_zero': 'اليوم: لا جلسات',
+    'circles.today_one': 'اليوم: جلسة واحدة، {minutes} د',
+    'circles.today_two': 'اليوم: جلستان، {minutes} د',
+    'circles.today_few': 'اليوم: {count} جلسات، {minutes} د',
+    'circles.today_many': 'اليوم: {count} جلسة، {minutes} د',
+    'circles.today_other': 'اليوم: {count} جلسة، {minutes} د',
+    'circles.totals_zero': 'لا جلسات بعد',
+    'circles.totals_one': 'جلسة واحدة إجمالًا، {minutes} د',
+    'circles.totals_two': 'جلستان إجمالًا، {minutes} د',
+    'circles.totals_few': '{count} جلسات إجمالًا، {minutes} د',
+    'circles.totals_many': '{count} جلسة إجمالًا، {minutes} د',
+    'circles.totals_other': '{count} جلسة إجمالًا، {minutes} د',
+    'circles.displayName': 'الاسم الظاهر في حلقاتك',
+    'circles.nameLabel': 'اسم الحلقة',
+    'circles.namePlaceholder': 'اسم الحلقة الجديدة',
+    'circles.create': 'إنشاء حلقة',
+    'circles.codeLabel': 'رمز الدعوة للانضمام',
+    'circles.codePlaceholder': 'رمز الدعوة',
+    'circles.join': 'انضمام',
+    'circles.sittingNow_one': '{names} يتأمل الآن',
+    'circles.sittingNow_two': '{names} يتأملان الآن',
+    'circles.sittingNow_few': '{names} يتأملون الآن',
+    'circles.sittingNow_many': '{names} يتأملون الآن',
+    'circles.sittingNow_other': '{names} يتأملون الآن',
+    'circles.createError': 'تعذر إنشاء الحلقة.',
+    'circles.joinError': 'لا توجد حلقة بهذا الرمز، أو أنها ممتلئة.',
+    'circles.leaveError': 'تعذرت مغادرة الحلقة.',
+    'circles.codeError': 'تعذر استبدال رمز الدعوة.',
+
+    'stats.title': 'الإحصاءات',
+    'stats.loading': 'جارٍ تحليل جلساتك…',
+    'stats.loadError': 'تعذّر تحميل جلساتك.',
+    'stats.currentStreak': 'السلسلة الحالية',
+    'stats.longestStreak': 'أطول سلسلة',
+    'stats.sessions': 'الجلسات',
+    'stats.repeats': 'التكرارات',
+    'stats.averageLength': 'متوسط المدة',
+    'stats.lostPer100': 'شرود / 100',
+    'stats.repeatsPerWeek': 'التكرارات في الأسبوع',
+    'stats.repeatsPerMonth': 'التكرارات في الشهر',
+    'stats.weekly': 'أسبوعي',
+    'stats.monthly': 'شهري',
+    'stats.none': 'لا شيء',
+    'stats.focusTrend': 'الشرود لكل 100 تكرار، أسبوعيًا',
+    'stats.focusTrendDescription': 'الشرود لكل 100 تكرار حسب الأسبوع',
+    'stats.bySoundscape': 'التركيز حسب الخلفية الصوتية',
+    'stats.soundscape': 'الخلفية الصوتية',
+    'stats.silence': 'صمت',
+    'stats.moodChange': 'تغيّر المزاج',
+    'stats.moodSummary_zero': 'لا توجد جلسات مسجّل فيها المزاج.',
+    'stats.moodSummary_one': 'في جلسة واحدة مسجّل فيها المزاج، تغيّر المزاج بمقدار {change} في المتوسط (على مقياس من 1 إلى 5).',
+    'stats.moodSummary_two': 'في جلستين مسجّل فيهما المزاج، تغيّر المزاج بمقدار {change} في المتوسط (على مقياس من 1 إلى 5).',
+    'stats.moodSummary_few': 'في {count} جلسات مسجّل فيها المزاج، تغيّر المزاج بمقدار {change} في المتوسط (على مقياس من 1 إلى 5).',
+    'stats.moodSummary_many': 'في {count} جلسة مسجّل فيها المزاج، تغيّر المزاج بمقدار {change} في المتوسط (على مقياس من 1 إلى 5).',
+    'stats.moodSummary_other': 'في {count} جلسة مسجّل فيها المزاج، تغيّر المزاج بمقدار {change} في المتوسط (على مقياس من 1 إلى 5).',
+    'stats.moodCorrelation': 'الارتباط بمدة الجلسة: {correlation}.',
+    'stats.length': 'المدة',
+    'stats.lengthUnder': 'أقل من {max} د',
+    'stats.lengthBetween': '{min}–{max} د',
+    'stats.lengthOver': '{min} د أو أكثر',
+    'stats.mantra': 'المانترا',
+    'stats.averageChange': 'متوسط التغيّر',
+    'stats.byMantra': 'حسب المانترا',
+    'stats.time': 'الوقت',
+
+    'heatmap.title': 'خريطة النشاط',
+    'heatmap.less': 'أقل',
+    'heatmap.more': 'أكثر',
+    'heatmap.levels': 'المستويات: ≤{first}، ≤{second}، ≤{third}، أكثر',
+    'heatmap.metricLabel': 'مقياس خريطة النشاط',
+    'heatmap.rangeLabel': 'فترة خريطة النشاط',
+    'heatmap.metric.sessions': 'الجلسات',
+    'heatmap.metric.repeats': 'التكرارات',
+    'heatmap.metric.minutes': 'الدقائق',
+    'heatmap.metric.lostFocus': 'الشرود',
+    'heatmap.amount.sessions_zero': 'لا جلسات',
+    'heatmap.amount.sessions_one': 'جلسة واحدة',
+    'heatmap.amount.sessions_two': 'جلستان',
+    'heatmap.amount.sessions_few': '{count} جلسات',
+    'heatmap.amount.sessions_many': '{count} جلسة',
+    'heatmap.amount.sessions_other': '{count} جلسة',
+    'heatmap.amount.repeats_zero': 'لا تكرارات',
+    'heatmap.amount.repeats_one': 'تكرار واحد',
+    'heatmap.amount.repeats_two': 'تكراران',
+    'heatmap.amount.repeats_few': '{count} تكرارات',
+    'heatmap.amount.repeats_many': '{count} تكرارًا',
+    'heatmap.amount.repeats_other': '{count} تكرار',
+    'heatmap.amount.minutes': '{count} د',
+    'heatmap.amount.lostFocus_zero': 'لا شرود',
+    'heatmap.amount.lostFocus_one': 'شرود واحد',
+    'heatmap.amount.lostFocus_two': 'شرودان',
+    'heatmap.amount.lostFocus_few': '{count} مرات شرود',
+    'heatmap.amount.lostFocus_many': '{count} مرة شرود',
+    'heatmap.amount.lostFocus_other': '{count} مرة شرود',
+    'heatmap.range.26w': '26 أسبوعًا',
+    'heatmap.range.1y': 'سنة',
+    'heatmap.range.all': 'كل الأوقات',
+    'heatmap.showGrid': 'عرض كشبكة',
+    'heatmap.showTable': 'عرض كجدول',
+    'heatmap.date': 'التاريخ',
+    'heatmap.goal': 'الهدف',
+    'heatmap.goalMet': 'تحقق',
+    'heatmap.empty': 'لا نشاط في هذه الفترة',
+    'heatmap.activeDays_zero': 'لا أيام نشطة',
+    'heatmap.activeDays_one': 'يوم نشط واحد',
+    'heatmap.activeDays_two': 'يومان نشطان',
+    'heatmap.activeDays_few': '{count} أيام نشطة',
+    'heatmap.activeDays_many': '{count} يومًا نشطًا',
+    'heatmap.activeDays_other': '{count} يوم نشط',
+    'heatmap.summary': '{days}، {total} إجمالًا',
+    'heatmap.gridLabel': 'خريطة النشاط: {summary}',
+    'heatmap.day': '{date}: {amount}',
+    'heatmap.dayGoalMet': '{date}: {amount} · تحقق الهدف',
+    'heatmap.loading': 'جارٍ تحميل النشاط…',
+
+    'soundscape.title': 'الخلفية الصوتية',
+    'soundscape.play': 'التشغيل أثناء الجلسات',
+    'soundscape.preset': 'الإعداد المسبق',
+    'soundscape.custom': 'مخصص',
+    'soundscape.preset.softRain': 'مطر خفيف',
+    'soundscape.preset.deepHum': 'همهمة عميقة',
+    'soundscape.preset.waterfall': 'شلال',
+    'soundscape.preset.storm': 'عاصفة',
+    'soundscape.noise.white': 'أبيض',
+    'soundscape.noise.pink': 'وردي',
+    'soundscape.noise.brown': 'بني',
+    'soundscape.noise.rain': 'مطر',
+    'soundscape.saveAs': 'حفظ المزيج باسم…',
+    'soundscape.presetLimit': 'حتى {count} إعدادات مسبقة',
+    'soundscape.presetName': 'اسم الإعداد المسبق',
+    'soundscape.save': 'حفظ',
+    'soundscape.sleepTimer': 'مؤقت الإيقاف',
+    'soundscape.sleepOff': 'متوقف',
+    'soundscape.sleepMinutes': '{count} د',
+    'soundscape.fadesAt': 'يتلاشى عند {time}',
+    'soundscape.playing': 'قيد التشغيل',
+    'soundscape.idle': 'يعمل أثناء الجلسة',
+
+    'theme.mode': 'الوضع',
+    'theme.mode.system': 'حسب النظام',
+    'theme.mode.light': 'فاتح',
+    'theme.mode.dark': 'داكن',
+    'theme.mode.schedule': 'حسب وقت اليوم',
+    'theme.lightFrom': 'فاتح من',
+    'theme.darkFrom': 'داكن من',
+    'theme.colours': 'الألوان',
+    'theme.palette.violet': 'بنفسجي',
+    'theme.palette.ocean': 'محيط',
+    'theme.palette.forest': 'غابة',
+    'theme.palette.sunset': 'غروب',
+    'theme.palette.rose': 'وردي',
+    'theme.background': 'الخلفية',
+    'theme.background.scenery': 'منظر طبيعي',
+    'theme.background.dawn': 'فجر',
+    'theme.background.lagoon': 'بحيرة',
+    'theme.background.meadow': 'مرج',
+    'theme.background.plain': 'سادة',
+    'theme.customGradient': 'تدرّج مخصص',
+    'theme.yourImage': 'صورتك',
+    'theme.gradientColours': 'ألوان التدرّج',
+    'theme.gradientStart': 'لون بداية التدرّج',
+    'theme.gradientEnd': 'لون نهاية التدرّج',
+    'theme.uploadImage': 'رفع صورة',
+    'theme.replaceImage': 'استبدال الصورة',
+    'theme.removeImage': 'إزالة الصورة',
+    'theme.imageHint': 'تبقى الصور المرفوعة على هذا الجهاز. أما باقي الإعدادات فتتبع حسابك.',
+    'theme.notImage': 'يُرجى اختيار ملف صورة.',
+    'theme.imageTooLarge': 'يمكن أن يصل حجم الصور إلى {size} ميغابايت.',
+    'theme.imageError': 'تعذّر حفظ الصورة على هذا الجهاز.',
+
+    'input.title': 'الإدخال دون استخدام اليدين',
+    'input.pressKey': 'اضغط مفتاحًا…',
+    'input.repeatKey': 'تكرار',
+    'input.lostFocusKey': 'شرود',
+    'input.mediaKeys': 'مفاتيح الوسائط وأجهزة التحكم',
+    'input.mediaKeysHint': 'التشغيل/الإيقاف المؤقت أو التالي يحسب تكرارًا، والسابق يسجّل شرودًا.',
+    'input.guard': 'تجاهل الضغطات المزدوجة خلال',
+    'input.guardOff': 'متوقف',
+    'input.keepAwake': 'إبقاء الشاشة مضاءة أثناء الجلسات',
+    'input.moodCheckIns': 'تسجيل المزاج قبل الجلسات وبعدها',
+    'input.tapMode': 'وضع النقر في أي مكان',
+    'tap.label': 'انقر لحساب تكرار، واضغط مطولًا لتسجيل شرود',
+    'tap.hint': 'انقر للعدّ · اضغط مطولًا للشرود',
+    'tap.exit': 'خروج',
+
+    'transfer.title': 'نسخة احتياطية',
+    'transfer.exportCsv': 'تصدير CSV',
+    'transfer.exportJson': 'تصدير JSON',
+    'transfer.import': 'استيراد',
+    'transfer.working': 'جارٍ العمل…',
+    'transfer.exported_zero': 'لم تُصدَّر أي جلسة.',
+    'transfer.exported_one': 'صُدِّرت جلسة واحدة.',
+    'transfer.exported_two': 'صُدِّرت جلستان.',
+    'transfer.exported_few': 'صُدِّرت {count} جلسات.',
+    'transfer.exported_many': 'صُدِّرت {count} جلسة.',
+    'transfer.exported_other': 'صُدِّرت {count} جلسة.',
+    'transfer.exportError': 'تعذّر تصدير جلساتك.',
+    'transfer.readError': 'تعذّرت قراءة الملف.',
+    'transfer.noSessions': 'لا توجد جلسات صالحة في الملف.',
+    'transfer.imported_zero': 'لم تُستورَد أي جلسة.',
+    'transfer.imported_one': 'استُورِدت جلسة واحدة.',
+    'transfer.imported_two': 'استُورِدت جلستان.',
+    'transfer.imported_few': 'استُورِدت {count} جلسات.',
+    'transfer.imported_many': 'استُورِدت {count} جلسة.',
+    'transfer.imported_other': 'استُورِدت {count} جلسة.',
+    'transfer.importedSkipped_zero': 'لم تُستورَد أي جلسة، وتُخطّي {skipped} موجودة في سجلك.',
+    'transfer.importedSkipped_one': 'استُورِدت جلسة واحدة، وتُخطّي {skipped} موجودة في سجلك.',
+    'transfer.importedSkipped_two': 'استُورِدت جلستان، وتُخطّي {skipped} موجودة في سجلك.',
+    'transfer.importedSkipped_few': 'استُورِدت {count} جلسات، وتُخطّي {skipped} موجودة في سجلك.',
+    'transfer.importedSkipped_many': 'استُورِدت {count} جلسة، وتُخطّي {skipped} موجودة في سجلك.',
+    'transfer.importedSkipped_other': 'استُورِدت {count} جلسة، وتُخطّي {skipped} موجودة في سجلك.',
+    'transfer.importError': 'تعذّر استيراد الملف.',
+    'transfer.rowError': '{row}: {reason}',
+    'transfer.moreErrors_zero': '…ولم يُتخطَّ أي صف آخر',
+    'transfer.moreErrors_one': '…وتُخطّي صف آخر',
+    'transfer.moreErrors_two': '…وتُخطّي صفان آخران',
+    'transfer.moreErrors_few': '…وتُخطّيت {count} صفوف أخرى',
+    'transfer.moreErrors_many': '…وتُخطّي {count} صفًا آخر',
+    'transfer.moreErrors_other': '…وتُخطّي {count} صف آخر',
+    'transfer.session': 'الجلسة {number}',
+    'transfer.row': 'الصف {number}',
+    'transfer.notJson': 'الملف ليس JSON صالحًا.',
+    'transfer.notExport': 'الملف ليس تصديرًا لسجل الجلسات.',
+    'transfer.newerVersion': 'صُدِّر الملف من إصدار أحدث من التطبيق.',
+    'transfer.csvColumns': 'يحتاج ملف CSV إلى العمودين "start" و"count" على الأقل.',
+    'transfer.invalidStart': 'وقت البداية مفقود أو غير صالح',
+    'transfer.invalidEnd': 'وقت النهاية غير صالح',
+    'transfer.invalidDuration': 'المدة غير صالحة',
+    'transfer.endBeforeStart': 'وقت النهاية قبل وقت البداية',
+    'transfer.inFuture': 'الجلسة في المستقبل',
+    'transfer.invalidCount': 'يجب أن يكون العدد رقمًا صحيحًا',
+    'transfer.countTooHigh': 'العدد أكبر من {max}',
+    'transfer.invalidLostFocus': 'يجب أن يكون عدد مرات الشرود رقمًا صحيحًا',
+    'transfer.mantraTooLong': 'المانترا أطول من {max} حرفًا',
+    'transfer.unknownTimeZone': 'منطقة زمنية غير معروفة',
+
+    'reminder.title': 'حان وقت الاسترخاء',
+    'reminder.body': 'بضع دقائق من الممارسة؟',
+    'reminder.goalBody': 'هدف اليوم {target} {unit}. بضع دقائق الآن؟',
+
+    'history.totalSessions': 'مجموع الجلسات:',
+    'history.sessionCount_zero': 'لا جلسات',
+    'history.sessionCount_one': 'جلسة واحدة',
+    'history.sessionCount_two': 'جلستان',
+    'history.sessionCount_few': '{count} جلسات',
+    'history.sessionCount_many': '{count} جلسة',
+    'history.sessionCount_other': '{count} جلسة',
+    'history.lostFocusTitle': 'مرات الشرود',
+    'history.notSynced': 'غير متزامنة',
+    'history.notSyncedTitle': 'محفوظة على هذا الجهاز بانتظار المزامنة',
+    'history.paced': 'بإيقاع',
+    'history.pacedTitle': 'مع دليل التنفس',
+    'history.soundscapeTitle': 'الأجواء الصوتية أثناء الجلسة',
+    'history.before': 'قبل: {text}',
+    'history.after': 'بعد: {text}',
+    'history.goalReached': 'تحقق الهدف',
+    'history.goalNotReached': 'لم يتحقق الهدف',
+    'history.goal': 'الهدف {target}',
+    'history.durationTitle': 'مدة الجلسة',
+
+    'detail.noTimeline': 'لم يُسجَّل خط زمني لهذه الجلسة.',
+    'detail.tempo': 'الإيقاع خلال الجلسة، وأعلاه {peak} تكرارًا في الدقيقة',
+    'detail.average': 'المتوسط {pace} / دقيقة',
+    'detail.peak': 'الأعلى {peak} / دقيقة',
+    'detail.lostFocus': 'الشرود {count}',
+
+    'quotes.pin': 'تثبيت الاقتباس في المفضلة',
+    'quotes.pinShort': 'تثبيت في المفضلة',
+    'quotes.unpin': 'إلغاء تثبيت الاقتباس',
+    'quotes.unpinShort': 'إلغاء التثبيت',
+    'quotes.pauseRotation': 'إيقاف تبديل الاقتباسات مؤقتًا',
+    'quotes.resumeRotation': 'استئناف تبديل الاقتباسات',
+    'quotes.pause': 'إيقاف مؤقت',
+    'quotes.filter': 'عرض الاقتباسات من',
+    'quotes.all': 'كل الاقتباسات',
+    'quotes.favourites': 'المفضلة ({count})',
+    'quotes.mine': 'اقتباساتي ({count})',
+    'quotes.addPlaceholder': 'أضف اقتباسك الخاص',
+    'quotes.limit': 'يمكنك الاحتفاظ بما يصل إلى {count} اقتباسًا',
+    'quotes.text': 'نص الاقتباس',
+    'quotes.authorPlaceholder': 'المؤلف (اختياري)',
+    'quotes.author': 'المؤلف',
+    'quotes.category': 'الفئة',
+    'quotes.empty': 'لا توجد اقتباسات هنا بعد',
+    'quotes.category.mindfulness': 'اليقظة الذهنية',
+    'quotes.category.present': 'اللحظة الحاضرة',
+    'quotes.category.calm': 'الهدوء',
+    'quotes.category.breath': 'التنفس',
+    'quotes.category.lettingGo': 'التخلي',
+    'quotes.category.kindness': 'اللطف',
+    'quotes.category.wisdom': 'الحكمة',
+
+    'stale.label': 'جلسة غير منتهية',
+    'stale.text': 'تركت جلسة مفتوحة منذ {idle} ({repeats}، الشرود {lostFocus}).',
+    'stale.hours_one': 'ساعة',
+    'stale.hours_two': 'ساعتين',
+    'stale.hours_few': '{count} ساعات',
+    'stale.hours_many': '{count} ساعة',
+    'stale.hours_other': '{count} ساعة',
+    'stale.days_one': 'يوم',
+    'stale.days_two': 'يومين',
+    'stale.days_few': '{count} أيام',
+    'stale.days_many': '{count} يومًا',
+    'stale.days_other': '{count} يوم',
+    'stale.repeats_zero': 'لا تكرارات',
+    'stale.repeats_one': 'تكرار واحد',
+    'stale.repeats_two': 'تكراران',
+    'stale.repeats_few': '{count} تكرارات',
+    'stale.repeats_many': '{count} تكرارًا',
+    'stale.repeats_other': '{count} تكرار',
+
+    'update.available': 'يتوفر إصدار جديد.',
+    'update.reload': 'إعادة التحميل',
+    'update.later': 'لاحقًا',
+
+    'mood.1': 'متوتر',
+    'mood.2': 'قلق',
+    'mood.3': 'محايد',
+    'mood.4': 'هادئ',
+    'mood.5': 'هادئ جدًا',
+    'mood.notePlaceholder': 'بضع كلمات (اختياري)',
+    'mood.noteLabel': 'ملاحظة الحالة',
+    'checkIn.label': 'تسجيل حالة الجلسة',
+    'checkIn.prompt': 'كيف تشعر الآن؟',
+    'checkIn.save': 'حفظ الجلسة',
+
+    'goal.title': 'الهدف اليومي',
+    'goal.set': 'تحديد هدف',
+    'goal.met': 'تحقق الهدف · ',
+    'goal.type': 'نوع الهدف',
+    'goal.none': 'بلا هدف',
+    'goal.metric.sessions': 'الجلسات',
+    'goal.metric.repeats': 'التكرارات',
+    'goal.metric.minutes': 'الدقائق',
+    'goal.unit.sessions': 'جلسات',
+    'goal.unit.repeats': 'تكرارات',
+    'goal.unit.minutes': 'دقيقة',
+    'goal.target': 'الهدف اليومي',
+    'goal.reminders': 'التذكيرات',
+    'goal.reminderTime': 'وقت التذكير',
+    'goal.blocked': 'الإشعارات محظورة، لذا لا يمكن عرض التذكيرات.',
+    'goal.skipped': 'تُتخطّى في الأيام التي حققت فيها هدفك.',
+
+    'guided.title': 'جلسة موجّهة',
+    'guided.timer': 'مؤقّت',
+    'guided.minutes': '{count} د',
+    'guided.minutesLabel': 'الدقائق',
+    'guided.chimes': 'رنين الفواصل',
+    'guided.chime.0': 'بلا رنين',
+    'guided.chime.30': 'كل 30 ث',
+    'guided.chime.60': 'كل دقيقة',
+    'guided.chime.300': 'كل 5 د',
+    'guided.start': 'ابدأ',
+
+    'pacing.label': 'إيقاع التنفس',
+    'pacing.none': 'بلا إيقاع',
+    'pacing.countEachBreath': 'احتساب كل نَفَس',
+    'pacing.pattern.box': 'الصندوق 4-4-4-4',
+    'pacing.pattern.4-7-8': 'المُرخي 4-7-8',
+    'pacing.pattern.coherent': 'المتناغم 5-5',
+    'pacing.pattern.calm': 'زفير طويل 4-6',
+    'breath.inhale': 'شهيق',
+    'breath.hold': 'احبس',
+    'breath.exhale': 'زفير',
+    'breath.ready': 'استعد',
+
+    'mantras.title': 'عباراتك',
+    'mantras.rename': 'إعادة تسمية {mantra}',
+    'mantras.moveUp': 'نقل {mantra} لأعلى',
+    'mantras.moveDown': 'نقل {mantra} لأسفل',
+    'mantras.archive': 'أرشفة',
+    'mantras.archiveTitle': 'أرشفة العبارة',
+    'mantras.restore': 'استعادة',
+    'mantras.restoreTitle': 'استعادة العبارة',
+    'mantras.placeholder': 'أضف عبارتك الخاصة',
+    'mantras.new': 'عبارة جديدة',
+
+    'browser.label': 'كل الجلسات',
+    'browser.title': 'كل الجلسات',
+    'browser.filterMantra': 'التصفية حسب العبارة',
+    'browser.allMantras': 'كل العبارات',
+    'browser.from': 'من تاريخ',
+    'browser.to': 'إلى تاريخ',
+    'browser.merge': 'دمج {count}',
+    'browser.mergeTitle': 'دمج الجلسات المحددة',
+    'browser.mergeHint': 'اختر جلستين أو أكثر للعبارة نفسها',
+    'browser.confirmMerge': 'دمج {count} جلسات في جلسة واحدة؟',
+    'browser.confirmDelete': 'حذف هذه الجلسة؟ لا يمكن التراجع عن ذلك.',
+    'browser.select': 'تحديد الجلسة',
+    'browser.notePlaceholder': 'أضف ملاحظة',
+    'browser.noteLabel': 'ملاحظة الجلسة',
+    'browser.noMatch': 'لا جلسات تطابق هذه المرشحات',
+    'browser.loadMore': 'تحميل المزيد',
+    'browser.loadError': 'تعذّر تحميل الجلسات.',
+    'browser.loadMoreError': 'تعذّر تحميل مزيد من الجلسات.',
+    'browser.noteError': 'تعذّر حفظ الملاحظة.',
+    'browser.deleteError': 'تعذّر حذف الجلسة.',
+    'browser.mergeError': 'تعذّر دمج الجلسات.',
+};
@@ -0,0 +1,457 @@
+// The source catalog: every other language is checked against these keys.
+// Keys ending in _one, _other (and _zero, _two, _few, _many where a language
+// needs them) are plural forms picked by the `count` parameter.
+export const en = {
+    'common.add': 'Add',
+    'common.cancel': 'Cancel',
+    'common.close': 'Close',
+    'common.delete': 'Delete',
+    'common.discard': 'Discard',
+    'common.done': 'Done',
+    'common.edit': 'Edit',
+    'common.loading': 'Loading…',
+    'common.remove': 'Remove',
+    'common.resume': 'Resume',
+    'common.skip': 'Skip',
+
+    'app.language': 'Language',
+    'app.toggleTheme': 'Toggle theme',
+    'app.quotes': 'Quotes',
+    'app.appearance': 'Appearance',
+    'app.logout': 'Logout',
+    'app.login': 'Sign in',
+    'app.editMantras': 'Edit mantras',
+    'app.instruction': 'repeat the word',
+    'app.arriving': 'How are you arriving?',
+    'app.ofTarget': 'of {target}',
+    'app.endGuided': 'End guided session',
+    'app.repeats': 'Repeats',
+    'app.lostFocus': 'Lost Focus',
+    'app.lostFocusCount': 'Lost Focus Count',
+    'app.increment': 'Increment {mantra} count',
+    'app.startGuided': 'Start a guided session',
+    'app.handsFree': 'Hands-free input',
+    'app.soundscape': 'Soundscape',
+    'app.reset': 'Reset session',
+    'app.distracted': "I'm distracted / lost focus",
+    'app.saveOnDevice': 'Save on this device (login to sync)',
+    'app.saveToHistory': 'Save session to history',
+    'app.saveError': "Couldn't save this session. Your count is still here, so you can try again.",
+    'app.recentDetails': 'Recent Details',
+    'app.onThisDevice': 'On This Device',
+    'app.stats': 'Stats',
+    'app.browseAll': 'Browse all',
+    'app.today': 'Today',
+    'app.showPast': 'Show Past Sessions ({count})',
+    'app.earlier': 'Earlier',
+    'app.hide': 'Hide',
+    'app.noSessionsToday': 'No sessions today yet',
+    'app.noSessions': 'No sessions saved yet',
+    'app.announcement': '{repeats}, {lostFocus}',
+    'app.announcementRepeats_one': '{count} repeat',
+    'app.announcementRepeats_other': '{count} repeats',
+    'app.announcementLostFocus_one': 'lost focus {count} time',
+    'app.announcementLostFocus_other': 'lost focus {count} times',
+
+    'auth.title': 'Sign in',
+    'auth.upgradeTitle': 'Keep this account',
+    'auth.upgradeHint': "You're using a guest account. Add Google or email to keep its history and open it on other devices.",
+    'auth.google': 'Continue with Google',
+    'auth.emailLabel': 'Email address',
+    'auth.emailPlaceholder': 'you@example.com',
+    'auth.sendLink': 'Email me a sign-in link',
+    'auth.linkSent': 'Open the link sent to {email} to finish signing in.',
+    'auth.or': 'or',
+    'auth.anonymous': 'Continue without an account',
+    'auth.anonymousHint': 'Sessions sync to a guest account you can keep later by adding Google or email.',
+    'auth.saveAccount': 'Save account',
+    'auth.confirmEmail': 'Enter the email address the sign-in link was sent to',
+    'auth.confirmGuestLogout': "You're using a guest account. Signing out loses its history unless you save the account first. Sign out anyway?",
+    'auth.error': 'Sign-in failed. Please try again.',
+    'auth.invalidEmail': "That email address doesn't look right.",
+    'auth.linkFailed': 'The sign-in link is invalid or has expired.',
+    'auth.recentLogin': 'For your security, sign out and sign in again, then try once more.',
+    'auth.recentLoginEmail': "We've emailed you a link to confirm it's you. Open it, then try again.",
+    'auth.recentLoginGuest': 'A guest account can only be deleted shortly after it was made. You can still delete its history.',
+    'auth.linkTitle': 'Sign-in methods',
+    'auth.linkHint': 'Add another way to sign in to this account. Its history stays the same.',
+    'auth.linkGoogle': 'Add Google',
+    'auth.allLinked': 'This account signs in with both Google and email.',
+    'auth.linkedElsewhere': 'That sign-in already belongs to another account.',
+
+    'data.title': 'Your data',
+    'data.archiveTitle': 'Download',
+    'data.archiveHint': 'One JSON file with all your sessions, mantras, settings and daily totals. The sessions can be imported again later.',
+    'data.archive': 'Download archive',
+    'data.archived': 'Archive downloaded.',
+    'data.archiveError': 'Could not build the archive.',
+    'data.deleteTitle': 'Delete',
+    'data.deleteHint': 'Removes every saved session from this account and this device.',
+    'data.withAccount': 'Also delete my account, mantras and settings',
+    'data.deleteHistory': 'Delete all history…',
+    'data.deleteAccount': 'Delete account and data…',
+    'data.confirmHistory': 'All of your sessions will be deleted. This cannot be undone.',
+    'data.confirmAccount': 'Your sessions, mantras, settings and account will be deleted. This cannot be undone.',
+    'data.noArchive': "You haven't downloaded an archive yet.",
+    'data.confirmWord': 'delete',
+    'data.confirmLabel': 'Type "{word}" to confirm',
+    'data.deleteForever': 'Delete permanently',
+    'data.progress': 'Deleted {deleted} of {total} sessions',
+    'data.deleted': 'Your history has been deleted.',
+    'data.deleteError': 'Deletion stopped part way. Anything already deleted is gone; try again to finish.',
+
+    'circles.title': 'Circles',
+    'circles.privacy': 'Members of your circles see the name you choose, your daily streak, your session totals and when you are sitting. Your sessions, mantras and notes stay private.',
+    'circles.inviteCode': 'Invite code',
+    'circles.copy': 'Copy',
+    'circles.copied': 'Copied',
+    'circles.newCode': 'New code',
+    'circles.newCodeHint': 'The current code stops working. Members stay in the circle.',
+    'circles.leave': 'Leave',
+    'circles.delete': 'Delete circle',
+    'circles.confirmLeave': 'Leave "{name}"? Its members will no longer see your streak and totals.',
+    'circles.confirmDelete': 'Delete "{name}" for all of its members?',
+    'circles.you': '{name} (you)',
+    'circles.sittingFor': 'Sitting now · {duration}',
+    'circles.streak_one': '{count}-day streak',
+    'circles.streak_other': '{count}-day streak',
+    'circles.today_one': 'Today {count} session, {minutes} min',
+    'circles.today_other': 'Today {count} sessions, {minutes} min',
+    'circles.totals_one': '{count} session in all, {minutes} min',
+    'circles.totals_other': '{count} sessions in all, {minutes} min',
+    'circles.displayName': 'Name shown in your circles',
+    'circles.nameLabel': 'Circle name',
+    'circles.namePlaceholder': 'New circle name',
+    'circles.create': 'Create circle',
+    'circles.codeLabel': 'Invite code to join',
+    'circles.codePlaceholder': 'Invite code',
+    'circles.join': 'Join',
+    'circles.sittingNow_one': '{names} is sitting now',
+    'circles.sittingNow_other': '{names} are sitting now',
+    'circles.createError': 'Could not create the circle.',
+    'circles.joinError': 'No circle has that code, or it is full.',
+    'circles.leaveError': 'Could not leave the circle.',
+    'circles.codeError': 'Could not replace the invite code.',
+
+    'stats.title': 'Statistics',
+    'stats.loading': 'Crunching your sessions…',
+    'stats.loadError': 'Could not load your sessions.',
+    'stats.currentStreak': 'Current streak',
+    'stats.longestStreak': 'Longest streak',
+    'stats.sessions': 'Sessions',
+    'stats.repeats': 'Repeats',
+    'stats.averageLength': 'Avg length',
+    'stats.lostPer100': 'Lost / 100',
+    'stats.repeatsPerWeek': 'Repeats per week',
+    'stats.repeatsPerMonth': 'Repeats per month',
+    'stats.weekly': 'Weekly',
+    'stats.monthly': 'Monthly',
+    'stats.none': 'none',
+    'stats.focusTrend': 'Lost focus per 100 repeats, weekly',
+    'stats.focusTrendDescription': 'Lost focus per 100 repeats by week',
+    'stats.bySoundscape': 'Focus by soundscape',
+    'stats.soundscape': 'Soundscape',
+    'stats.silence': 'Silence',
+    'stats.moodChange': 'Mood change',
+    'stats.moodSummary_one': 'Across {count} checked-in session, mood moved {change} on average (scale of 1 to 5).',
+    'stats.moodSummary_other': 'Across {count} checked-in sessions, mood moved {change} on average (scale of 1 to 5).',
+    'stats.moodCorrelation': 'Correlation with session length: {correlation}.',
+    'stats.length': 'Length',
+    'stats.lengthUnder': 'Under {max} min',
+    'stats.lengthBetween': '{min}–{max} min',
+    'stats.lengthOver': '{min} min or more',
+    'stats.mantra': 'Mantra',
+    'stats.averageChange': 'Avg change',
+    'stats.byMantra': 'By mantra',
+    'stats.time': 'Time',
+
+    'heatmap.title': 'Activity Heatmap',
+    'heatmap.less': 'Less',
+    'heatmap.more': 'More',
+    'heatmap.levels': 'Levels: ≤{first}, ≤{second}, ≤{third}, more',
+    'heatmap.metricLabel': 'Heatmap metric',
+    'heatmap.rangeLabel': 'Heatmap range',
+    'heatmap.metric.sessions': 'Sessions',
+    'heatmap.metric.repeats': 'Repeats',
+    'heatmap.metric.minutes': 'Minutes',
+    'heatmap.metric.lostFocus': 'Lost focus',
+    'heatmap.amount.sessions_one': '{count} session',
+    'heatmap.amount.sessions_other': '{count} sessions',
+    'heatmap.amount.repeats_one': '{count} repeat',
+    'heatmap.amount.repeats_other': '{count} repeats',
+    'heatmap.amount.minutes': '{count} min',
+    'heatmap.amount.lostFocus_one': '{count} lost focus',
+    'heatmap.amount.lostFocus_other': '{count} lost focus',
+    'heatmap.range.26w': '26 weeks',
+    'heatmap.range.1y': 'Year',
+    'heatmap.range.all': 'All time',
+    'heatmap.showGrid': 'Show as grid',
+    'heatmap.showTable': 'Show as table',
+    'heatmap.date': 'Date',
+    'heatmap.goal': 'Goal',
+    'heatmap.goalMet': 'Met',
+    'heatmap.empty': 'No activity in this range',
+    'heatmap.activeDays_one': '{count} active day',
+    'heatmap.activeDays_other': '{count} active days',
+    'heatmap.summary': '{days}, {total} in total',
+    'heatmap.gridLabel': 'Activity heatmap: {summary}',
+    'heatmap.day': '{date}: {amount}',
+    'heatmap.dayGoalMet': '{date}: {amount} · goal met',
+    'heatmap.loading': 'Loading activity…',
+
+    'soundscape.title': 'Soundscape',
+    'soundscape.play': 'Play during sessions',
+    'soundscape.preset': 'Preset',
+    'soundscape.custom': 'Custom',
+    'soundscape.preset.softRain': 'Soft rain',
+    'soundscape.preset.deepHum': 'Deep hum',
+    'soundscape.preset.waterfall': 'Waterfall',
+    'soundscape.preset.storm': 'Storm',
+    'soundscape.noise.white': 'White',
+    'soundscape.noise.pink': 'Pink',
+    'soundscape.noise.brown': 'Brown',
+    'soundscape.noise.rain': 'Rain',
+    'soundscape.saveAs': 'Save mix as…',
+    'soundscape.presetLimit': 'Up to {count} presets',
+    'soundscape.presetName': 'Preset name',
+    'soundscape.save': 'Save',
+    'soundscape.sleepTimer': 'Sleep timer',
+    'soundscape.sleepOff': 'Off',
+    'soundscape.sleepMinutes': '{count} min',
+    'soundscape.fadesAt': 'Fades out at {time}',
+    'soundscape.playing': 'Playing',
+    'soundscape.idle': 'Plays while a session is running',
+
+    'theme.mode': 'Mode',
+    'theme.mode.system': 'Follow system',
+    'theme.mode.light': 'Light',
+    'theme.mode.dark': 'Dark',
+    'theme.mode.schedule': 'By time of day',
+    'theme.lightFrom': 'Light from',
+    'theme.darkFrom': 'Dark from',
+    'theme.colours': 'Colours',
+    'theme.palette.violet': 'Violet',
+    'theme.palette.ocean': 'Ocean',
+    'theme.palette.forest': 'Forest',
+    'theme.palette.sunset': 'Sunset',
+    'theme.palette.rose': 'Rose',
+    'theme.background': 'Background',
+    'theme.background.scenery': 'Scenery',
+    'theme.background.dawn': 'Dawn',
+    'theme.background.lagoon': 'Lagoon',
+    'theme.background.meadow': 'Meadow',
+    'theme.background.plain': 'Plain',
+    'theme.customGradient': 'Custom gradient',
+    'theme.yourImage': 'Your image',
+    'theme.gradientColours': 'Gradient colours',
+    'theme.gradientStart': 'Gradient start colour',
+    'theme.gradientEnd': 'Gradient end colour',
+    'theme.uploadImage': 'Upload image',
+    'theme.replaceImage': 'Replace image',
+    'theme.removeImage': 'Remove image',
+    'theme.imageHint': 'Uploaded images stay on this device. Everything else follows your account.',
+    'theme.notImage': 'Please choose an image file.',
+    'theme.imageTooLarge': 'Images can be up to {size} MB.',
+    'theme.imageError': 'Could not save the image on this device.',
+
+    'input.title': 'Hands-free Input',
+    'input.pressKey': 'Press a key…',
+    'input.repeatKey': 'Repeat',
+    'input.lostFocusKey': 'Lost focus',
+    'input.mediaKeys': 'Media keys & remotes',
+    'input.mediaKeysHint': 'Play/pause or next counts a repeat, previous marks lost focus.',
+    'input.guard': 'Ignore double presses within',
+    'input.guardOff': 'Off',
+    'input.keepAwake': 'Keep screen on during sessions',
+    'input.moodCheckIns': 'Mood check-in before and after sessions',
+    'input.tapMode': 'Tap anywhere mode',
+    'tap.label': 'Tap to count a repeat, hold to mark lost focus',
+    'tap.hint': 'tap to count · hold for lost focus',
+    'tap.exit': 'Exit',
+
+    'transfer.title': 'Backup',
+    'transfer.exportCsv': 'Export CSV',
+    'transfer.exportJson': 'Export JSON',
+    'transfer.import': 'Import',
+    'transfer.working': 'Working…',
+    'transfer.exported_one': 'Exported {count} session.',
+    'transfer.exported_other': 'Exported {count} sessions.',
+    'transfer.exportError': 'Could not export your sessions.',
+    'transfer.readError': 'Could not read the file.',
+    'transfer.noSessions': 'No valid sessions found in the file.',
+    'transfer.imported_one': 'Imported {count} session.',
+    'transfer.imported_other': 'Imported {count} sessions.',
+    'transfer.importedSkipped_one': 'Imported {count} session, skipped {skipped} already in your history.',
+    'transfer.importedSkipped_other': 'Imported {count} sessions, skipped {skipped} already in your history.',
+    'transfer.importError': 'Could not import the file.',
+    'transfer.rowError': '{row}: {reason}',
+    'transfer.moreErrors_one': '…and {count} more row skipped',
+    'transfer.moreErrors_other': '…and {count} more rows skipped',
+    'transfer.session': 'Session {number}',
+    'transfer.row': 'Row {number}',
+    'transfer.notJson': 'The file is not valid JSON.',
+    'transfer.notExport': 'The file is not a session history export.',
+    'transfer.newerVersion': 'The file was exported by a newer version of the app.',
+    'transfer.csvColumns': 'The CSV needs at least "start" and "count" columns.',
+    'transfer.invalidStart': 'missing or invalid start time',
+    'transfer.invalidEnd': 'invalid end time',
+    'transfer.invalidDuration': 'invalid duration',
+    'transfer.endBeforeStart': 'end time is before start time',
+    'transfer.inFuture': 'session is in the future',
+    'transfer.invalidCount': 'count must be a whole number',
+    'transfer.countTooHigh': 'count is more than {max}',
+    'transfer.invalidLostFocus': 'lost focus must be a whole number',
+    'transfer.mantraTooLong': 'mantra is longer than {max} characters',
+    'transfer.unknownTimeZone': 'unknown time zone',
+
+    'reminder.title': 'Time to relax',
+    'reminder.body': 'A few minutes of practice?',
+    'reminder.goalBody': "Today's goal is {target} {unit}. A few minutes now?",
+
+    'history.totalSessions': 'TOTAL SESSIONS:',
+    'history.sessionCount_one': '{count} session',
+    'history.sessionCount_other': '{count} sessions',
+    'history.lostFocusTitle': 'Lost focus occurrences',
+    'history.notSynced': 'not synced',
+    'history.notSyncedTitle': 'Saved on this device, waiting to sync',
+    'history.paced': 'paced',
+    'history.pacedTitle': 'Paced with the breathing guide',
+    'history.soundscapeTitle': 'Soundscape played during the session',
+    'history.before': 'Before: {text}',
+    'history.after': 'After: {text}',
+    'history.goalReached': 'Goal reached',
+    'history.goalNotReached': 'Goal not reached',
+    'history.goal': 'goal {target}',
+    'history.durationTitle': 'Session duration',
+
+    'detail.noTimeline': 'No timeline was recorded for this session.',
+    'detail.tempo': 'Tempo over the session, peaking at {peak} repeats per minute',
+    'detail.average': '{pace} / min avg',
+    'detail.peak': '{peak} / min peak',
+    'detail.lostFocus': '{count} lost focus',
+
+    'quotes.pin': 'Pin quote to favourites',
+    'quotes.pinShort': 'Pin to favourites',
+    'quotes.unpin': 'Unpin quote',
+    'quotes.unpinShort': 'Unpin',
+    'quotes.pauseRotation': 'Pause quote rotation',
+    'quotes.resumeRotation': 'Resume quote rotation',
+    'quotes.pause': 'Pause',
+    'quotes.filter': 'Show quotes from',
+    'quotes.all': 'All quotes',
+    'quotes.favourites': 'Favourites ({count})',
+    'quotes.mine': 'My quotes ({count})',
+    'quotes.addPlaceholder': 'Add your own quote',
+    'quotes.limit': 'You can keep up to {count} quotes',
+    'quotes.text': 'Quote text',
+    'quotes.authorPlaceholder': 'Author (optional)',
+    'quotes.author': 'Author',
+    'quotes.category': 'Category',
+    'quotes.empty': 'No quotes here yet',
+    'quotes.category.mindfulness': 'Mindfulness',
+    'quotes.category.present': 'Present moment',
+    'quotes.category.calm': 'Calm',
+    'quotes.category.breath': 'Breath',
+    'quotes.category.lettingGo': 'Letting go',
+    'quotes.category.kindness': 'Kindness',
+    'quotes.category.wisdom': 'Wisdom',
+
+    'stale.label': 'Unfinished session',
+    'stale.text': 'You left a session open {idle} ago ({repeats}, {lostFocus} lost focus).',
+    'stale.hours_one': '{count} hour',
+    'stale.hours_other': '{count} hours',
+    'stale.days_one': '{count} day',
+    'stale.days_other': '{count} days',
+    'stale.repeats_one': '{count} repeat',
+    'stale.repeats_other': '{count} repeats',
+
+    'update.available': 'A new version is available.',
+    'update.reload': 'Reload',
+    'update.later': 'Later',
+
+    'mood.1': 'Stressed',
+    'mood.2': 'Uneasy',
+    'mood.3': 'Neutral',
+    'mood.4': 'Calm',
+    'mood.5': 'Very calm',
+    'mood.notePlaceholder': 'A few words (optional)',
+    'mood.noteLabel': 'Check-in note',
+    'checkIn.label': 'Session check-in',
+    'checkIn.prompt': 'How do you feel now?',
+    'checkIn.save': 'Save session',
+
+    'goal.title': 'Daily Goal',
+    'goal.set': 'Set goal',
+    'goal.met': 'Goal met · ',
+    'goal.type': 'Goal type',
+    'goal.none': 'No goal',
+    'goal.metric.sessions': 'Sessions',
+    'goal.metric.repeats': 'Repeats',
+    'goal.metric.minutes': 'Minutes',
+    'goal.unit.sessions': 'sessions',
+    'goal.unit.repeats': 'repeats',
+    'goal.unit.minutes': 'min',
+    'goal.target': 'Daily target',
+    'goal.reminders': 'Reminders',
+    'goal.reminderTime': 'Reminder time',
+    'goal.blocked': "Notifications are blocked, so reminders can't be shown.",
+    'goal.skipped': "Skipped on days you've already met your goal.",
+
+    'guided.title': 'Guided Session',
+    'guided.timer': 'Timer',
+    'guided.minutes': '{count} min',
+    'guided.minutesLabel': 'Minutes',
+    'guided.chimes': 'Interval chimes',
+    'guided.chime.0': 'No chimes',
+    'guided.chime.30': 'Every 30s',
+    'guided.chime.60': 'Every minute',
+    'guided.chime.300': 'Every 5 min',
+    'guided.start': 'Start',
+
+    'pacing.label': 'Breathing pace',
+    'pacing.none': 'No pacing',
+    'pacing.countEachBreath': 'count each breath',
+    'pacing.pattern.box': 'Box 4-4-4-4',
+    'pacing.pattern.4-7-8': 'Relaxing 4-7-8',
+    'pacing.pattern.coherent': 'Coherent 5-5',
+    'pacing.pattern.calm': 'Long exhale 4-6',
+    'breath.inhale': 'breathe in',
+    'breath.hold': 'hold',
+    'breath.exhale': 'breathe out',
+    'breath.ready': 'ready',
+
+    'mantras.title': 'Your Mantras',
+    'mantras.rename': 'Rename {mantra}',
+    'mantras.moveUp': 'Move {mantra} up',
+    'mantras.moveDown': 'Move {mantra} down',
+    'mantras.archive': 'Archive',
+    'mantras.archiveTitle': 'Archive mantra',
+    'mantras.restore': 'Restore',
+    'mantras.restoreTitle': 'Restore mantra',
+    'mantras.placeholder': 'Add your own phrase',
+    'mantras.new': 'New mantra',
+
+    'browser.label': 'All sessions',
+    'browser.title': 'All Sessions',
+    'browser.filterMantra': 'Filter by mantra',
+    'browser.allMantras': 'All mantras',
+    'browser.from': 'From date',
+    'browser.to': 'To date',
+    'browser.merge': 'Merge {count}',
+    'browser.mergeTitle': 'Merge selected sessions',
+    'browser.mergeHint': 'Select two or more sessions of the same mantra',
+    'browser.confirmMerge': 'Merge {count} sessions into one?',
+    'browser.confirmDelete': 'Delete this session? This cannot be undone.',
+    'browser.select': 'Select session',
+    'browser.notePlaceholder': 'Add a note',
+    'browser.noteLabel': 'Session note',
+    'browser.noMatch': 'No sessions match these filters',
+    'browser.loadMore': 'Load more',
+    'browser.loadError': 'Could not load sessions.',
+    'browser.loadMoreError': 'Could not load more sessions.',
+    'browser.noteError': 'Could not save the note.',
+    'browser.deleteError': 'Could not delete the session.',
+    'browser.mergeError': 'Could not merge the sessions.',
+};
+
+export type Catalog = Record<keyof typeof en, string> & Partial<Record<string, string>>;
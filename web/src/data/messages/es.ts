@@ -0,0 +1,454 @@
+import type { Catalog } from './en';
+
+export const es: Catalog = {
+    'common.add': 'Añadir',
+    'common.cancel': 'Cancelar',
+    'common.close': 'Cerrar',
+    'common.delete': 'Eliminar',
+    'common.discard': 'Descartar',
+    'common.done': 'Listo',
+    'common.edit': 'Editar',
+    'common.loading': 'Cargando…',
+    'common.remove': 'Quitar',
+    'common.resume': 'Reanudar',
+    'common.skip': 'Omitir',
+
+    'app.language': 'Idioma',
+    'app.toggleTheme': 'Cambiar tema',
+    'app.quotes': 'Citas',
+    'app.appearance': 'Apariencia',
+    'app.logout': 'Cerrar sesión',
+    'app.login': 'Iniciar sesión',
+    'app.editMantras': 'Editar mantras',
+    'app.instruction': 'repite la palabra',
+    'app.arriving': '¿Cómo llegas?',
+    'app.ofTarget': 'de {target}',
+    'app.endGuided': 'Terminar sesión guiada',
+    'app.repeats': 'Repeticiones',
+    'app.lostFocus': 'Distracciones',
+    'app.lostFocusCount': 'Número de distracciones',
+    'app.increment': 'Sumar una repetición de {mantra}',
+    'app.startGuided': 'Empezar una sesión guiada',
+    'app.handsFree': 'Entrada manos libres',
+    'app.soundscape': 'Paisaje sonoro',
+    'app.reset': 'Reiniciar sesión',
+    'app.distracted': 'Me he distraído',
+    'app.saveOnDevice': 'Guardar en este dispositivo (inicia sesión para sincronizar)',
+    'app.saveToHistory': 'Guardar sesión en el historial',
+    'app.saveError': 'No se pudo guardar la sesión. Tu recuento sigue aquí, así que puedes volver a intentarlo.',
+    'app.recentDetails': 'Sesiones recientes',
+    'app.onThisDevice': 'En este dispositivo',
+    'app.stats': 'Estadísticas',
+    'app.browseAll': 'Ver todas',
+    'app.today': 'Hoy',
+    'app.showPast': 'Mostrar sesiones anteriores ({count})',
+    'app.earlier': 'Anteriores',
+    'app.hide': 'Ocultar',
+    'app.noSessionsToday': 'Aún no hay sesiones hoy',
+    'app.noSessions': 'Aún no hay sesiones guardadas',
+    'app.announcement': '{repeats}, {lostFocus}',
+    'app.announcementRepeats_one': '{count} repetición',
+    'app.announcementRepeats_other': '{count} repeticiones',
+    'app.announcementLostFocus_one': '{count} distracción',
+    'app.announcementLostFocus_other': '{count} distracciones',
+
+    'auth.title': 'Iniciar sesión',
+    'auth.upgradeTitle': 'Conservar esta cuenta',
+    'auth.upgradeHint': 'Estás usando una cuenta de invitado. Añade Google o un correo para conservar su historial y abrirla en otros dispositivos.',
+    'auth.google': 'Continuar con Google',
+    'auth.emailLabel': 'Correo electrónico',
+    'auth.emailPlaceholder': 'tu@ejemplo.com',
+    'auth.sendLink': 'Enviarme un enlace de acceso',
+    'auth.linkSent': 'Abre el enlace enviado a {email} para terminar de iniciar sesión.',
+    'auth.or': 'o',
+    'auth.anonymous': 'Continuar sin cuenta',
+    'auth.anonymousHint': 'Las sesiones se sincronizan con una cuenta de invitado que puedes conservar más tarde añadiendo Google o un correo.',
+    'auth.saveAccount': 'Guardar cuenta',
+    'auth.confirmEmail': 'Escribe el correo al que se envió el enlace de acceso',
+    'auth.confirmGuestLogout': 'Estás usando una cuenta de invitado. Si cierras sesión perderás su historial, salvo que guardes la cuenta antes. ¿Cerrar sesión de todos modos?',
+    'auth.error': 'No se pudo iniciar sesión. Inténtalo de nuevo.',
+    'auth.invalidEmail': 'Ese correo no parece válido.',
+    'auth.linkFailed': 'El enlace de acceso no es válido o ha caducado.',
+    'auth.recentLogin': 'Por seguridad, cierra sesión y vuelve a iniciarla; después inténtalo de nuevo.',
+    'auth.recentLoginEmail': 'Te hemos enviado un enlace para confirmar que eres tú. Ábrelo y vuelve a intentarlo.',
+    'auth.recentLoginGuest': 'Una cuenta de invitado solo se puede eliminar poco después de crearla. Aun así puedes eliminar su historial.',
+    'auth.linkTitle': 'Formas de iniciar sesión',
+    'auth.linkHint': 'Añade otra forma de iniciar sesión en esta cuenta. Su historial no cambia.',
+    'auth.linkGoogle': 'Añadir Google',
+    'auth.allLinked': 'Esta cuenta ya inicia sesión con Google y con correo.',
+    'auth.linkedElsewhere': 'Ese inicio de sesión ya pertenece a otra cuenta.',
+
+    'data.title': 'Tus datos',
+    'data.archiveTitle': 'Descargar',
+    'data.archiveHint': 'Un archivo JSON con todas tus sesiones, mantras, ajustes y totales diarios. Las sesiones se pueden volver a importar.',
+    'data.archive': 'Descargar archivo',
+    'data.archived': 'Archivo descargado.',
+    'data.archiveError': 'No se pudo crear el archivo.',
+    'data.deleteTitle': 'Eliminar',
+    'data.deleteHint': 'Elimina todas las sesiones guardadas de esta cuenta y de este dispositivo.',
+    'data.withAccount': 'Eliminar también mi cuenta, mantras y ajustes',
+    'data.deleteHistory': 'Eliminar todo el historial…',
+    'data.deleteAccount': 'Eliminar cuenta y datos…',
+    'data.confirmHistory': 'Se eliminarán todas tus sesiones. No se puede deshacer.',
+    'data.confirmAccount': 'Se eliminarán tus sesiones, mantras, ajustes y tu cuenta. No se puede deshacer.',
+    'data.noArchive': 'Aún no has descargado un archivo.',
+    'data.confirmWord': 'eliminar',
+    'data.confirmLabel': 'Escribe «{word}» para confirmar',
+    'data.deleteForever': 'Eliminar definitivamente',
+    'data.progress': 'Eliminadas {deleted} de {total} sesiones',
+    'data.deleted': 'Tu historial se ha eliminado.',
+    'data.deleteError': 'La eliminación se detuvo a medias. Lo ya eliminado no se recupera; vuelve a intentarlo para terminar.',
+
+    'circles.title': 'Círculos',
+    'circles.privacy': 'Los miembros de tus círculos ven el nombre que elijas, tu racha diaria, tus totales de sesiones y cuándo estás meditando. Tus sesiones, mantras y notas siguen siendo privados.',
+    'circles.inviteCode': 'Código de invitación',
+    'circles.copy': 'Copiar',
+    'circles.copied': 'Copiado',
+    'circles.newCode': 'Nuevo código',
+    'circles.newCodeHint': 'El código actual deja de funcionar. Los miembros siguen en el círculo.',
+    'circles.leave': 'Salir',
+    'circles.delete': 'Eliminar círculo',
+    'circles.confirmLeave': '¿Salir de «{name}»? Sus miembros dejarán de ver tu racha y tus totales.',
+    'circles.confirmDelete': '¿Eliminar «{name}» para todos sus miembros?',
+    'circles.you': '{name} (tú)',
+    'circles.sittingFor': 'Meditando ahora · {duration}',
+    'circles.streak_one': 'Racha de {count} día',
+    'circles.streak_other': 'Racha de {count} días',
+    'circles.today_one': 'Hoy {count} sesión, {minutes} min',
+    'circles.today_other': 'Hoy {count} sesiones, {minutes} min',
+    'circles.totals_one': '{count} sesión en total, {minutes} min',
+    'circles.totals_other': '{count} sesiones en total, {minutes} min',
+    'circles.displayName': 'Nombre que verán tus círculos',
+    'circles.nameLabel': 'Nombre del círculo',
+    'circles.namePlaceholder': 'Nombre del nuevo círculo',
+    'circles.create': 'Crear círculo',
+    'circles.codeLabel': 'Código de invitación para unirte',
+    'circles.codePlaceholder': 'Código de invitación',
+    'circles.join': 'Unirme',
+    'circles.sittingNow_one': '{names} está meditando ahora',
+    'circles.sittingNow_other': '{names} están meditando ahora',
+    'circles.createError': 'No se pudo crear el círculo.',
+    'circles.joinError': 'Ningún círculo tiene ese código, o está completo.',
+    'circles.leaveError': 'No se pudo salir del círculo.',
+    'circles.codeError': 'No se pudo cambiar el código de invitación.',
+
+    'stats.title': 'Estadísticas',
+    'stats.loading': 'Analizando tus sesiones…',
+    'stats.loadError': 'No se pudieron cargar tus sesiones.',
+    'stats.currentStreak': 'Racha actual',
+    'stats.longestStreak': 'Racha más larga',
+    'stats.sessions': 'Sesiones',
+    'stats.repeats': 'Repeticiones',
+    'stats.averageLength': 'Duración media',
+    'stats.lostPer100': 'Despistes / 100',
+    'stats.repeatsPerWeek': 'Repeticiones por semana',
+    'stats.repeatsPerMonth': 'Repeticiones por mes',
+    'stats.weekly': 'Semanal',
+    'stats.monthly': 'Mensual',
+    'stats.none': 'ninguna',
+    'stats.focusTrend': 'Despistes por cada 100 repeticiones, por semana',
+    'stats.focusTrendDescription': 'Despistes por cada 100 repeticiones por semana',
+    'stats.bySoundscape': 'Concentración por ambiente sonoro',
+    'stats.soundscape': 'Ambiente sonoro',
+    'stats.silence': 'Silencio',
+    'stats.moodChange': 'Cambio de ánimo',
+    'stats.moodSummary_one': 'En {count} sesión con registro de ánimo, el ánimo cambió {change} de media (escala del 1 al 5).',
+    'stats.moodSummary_other': 'En {count} sesiones con registro de ánimo, el ánimo cambió {change} de media (escala del 1 al 5).',
+    'stats.moodCorrelation': 'Correlación con la duración de la sesión: {correlation}.',
+    'stats.length': 'Duración',
+    'stats.lengthUnder': 'Menos de {max} min',
+    'stats.lengthBetween': '{min}–{max} min',
+    'stats.lengthOver': '{min} min o más',
+    'stats.mantra': 'Mantra',
+    'stats.averageChange': 'Cambio medio',
+    'stats.byMantra': 'Por mantra',
+    'stats.time': 'Tiempo',
+
+    'heatmap.title': 'Mapa de actividad',
+    'heatmap.less': 'Menos',
+    'heatmap.more': 'Más',
+    'heatmap.levels': 'Niveles: ≤{first}, ≤{second}, ≤{third}, más',
+    'heatmap.metricLabel': 'Medida del mapa de actividad',
+    'heatmap.rangeLabel': 'Periodo del mapa de actividad',
+    'heatmap.metric.sessions': 'Sesiones',
+    'heatmap.metric.repeats': 'Repeticiones',
+    'heatmap.metric.minutes': 'Minutos',
+    'heatmap.metric.lostFocus': 'Despistes',
+    'heatmap.amount.sessions_one': '{count} sesión',
+    'heatmap.amount.sessions_other': '{count} sesiones',
+    'heatmap.amount.repeats_one': '{count} repetición',
+    'heatmap.amount.repeats_other': '{count} repeticiones',
+    'heatmap.amount.minutes': '{count} min',
+    'heatmap.amount.lostFocus_one': '{count} despiste',
+    'heatmap.amount.lostFocus_other': '{count} despistes',
+    'heatmap.range.26w': '26 semanas',
+    'heatmap.range.1y': 'Año',
+    'heatmap.range.all': 'Todo',
+    'heatmap.showGrid': 'Ver como cuadrícula',
+    'heatmap.showTable': 'Ver como tabla',
+    'heatmap.date': 'Fecha',
+    'heatmap.goal': 'Objetivo',
+    'heatmap.goalMet': 'Cumplido',
+    'heatmap.empty': 'No hay actividad en este periodo',
+    'heatmap.activeDays_one': '{count} día activo',
+    'heatmap.activeDays_other': '{count} días activos',
+    'heatmap.summary': '{days}, {total} en total',
+    'heatmap.gridLabel': 'Mapa de actividad: {summary}',
+    'heatmap.day': '{date}: {amount}',
+    'heatmap.dayGoalMet': '{date}: {amount} · objetivo cumplido',
+    'heatmap.loading': 'Cargando actividad…',
+
+    'soundscape.title': 'Ambiente sonoro',
+    'soundscape.play': 'Reproducir durante las sesiones',
+    'soundscape.preset': 'Preajuste',
+    'soundscape.custom': 'Personalizado',
+    'soundscape.preset.softRain': 'Lluvia suave',
+    'soundscape.preset.deepHum': 'Zumbido grave',
+    'soundscape.preset.waterfall': 'Cascada',
+    'soundscape.preset.storm': 'Tormenta',
+    'soundscape.noise.white': 'Blanco',
+    'soundscape.noise.pink': 'Rosa',
+    'soundscape.noise.brown': 'Marrón',
+    'soundscape.noise.rain': 'Lluvia',
+    'soundscape.saveAs': 'Guardar mezcla como…',
+    'soundscape.presetLimit': 'Hasta {count} preajustes',
+    'soundscape.presetName': 'Nombre del preajuste',
+    'soundscape.save': 'Guardar',
+    'soundscape.sleepTimer': 'Temporizador',
+    'soundscape.sleepOff': 'Desactivado',
+    'soundscape.sleepMinutes': '{count} min',
+    'soundscape.fadesAt': 'Se apaga a las {time}',
+    'soundscape.playing': 'Sonando',
+    'soundscape.idle': 'Suena mientras hay una sesión en curso',
+
+    'theme.mode': 'Modo',
+    'theme.mode.system': 'Según el sistema',
+    'theme.mode.light': 'Claro',
+    'theme.mode.dark': 'Oscuro',
+    'theme.mode.schedule': 'Según la hora',
+    'theme.lightFrom': 'Claro desde',
+    'theme.darkFrom': 'Oscuro desde',
+    'theme.colours': 'Colores',
+    'theme.palette.violet': 'Violeta',
+    'theme.palette.ocean': 'Océano',
+    'theme.palette.forest': 'Bosque',
+    'theme.palette.sunset': 'Atardecer',
+    'theme.palette.rose': 'Rosa',
+    'theme.background': 'Fondo',
+    'theme.background.scenery': 'Paisaje',
+    'theme.background.dawn': 'Amanecer',
+    'theme.background.lagoon': 'Laguna',
+    'theme.background.meadow': 'Pradera',
+    'theme.background.plain': 'Liso',
+    'theme.customGradient': 'Degradado personalizado',
+    'theme.yourImage': 'Tu imagen',
+    'theme.gradientColours': 'Colores del degradado',
+    'theme.gradientStart': 'Color inicial del degradado',
+    'theme.gradientEnd': 'Color final del degradado',
+    'theme.uploadImage': 'Subir imagen',
+    'theme.replaceImage': 'Cambiar imagen',
+    'theme.removeImage': 'Quitar imagen',
+    'theme.imageHint': 'Las imágenes subidas se quedan en este dispositivo. Todo lo demás se sincroniza con tu cuenta.',
+    'theme.notImage': 'Elige un archivo de imagen.',
+    'theme.imageTooLarge': 'Las imágenes pueden ocupar hasta {size} MB.',
+    'theme.imageError': 'No se pudo guardar la imagen en este dispositivo.',
+
+    'input.title': 'Entrada manos libres',
+    'input.pressKey': 'Pulsa una tecla…',
+    'input.repeatKey': 'Repetición',
+    'input.lostFocusKey': 'Despiste',
+    'input.mediaKeys': 'Teclas multimedia y mandos',
+    'input.mediaKeysHint': 'Reproducir/pausa o siguiente cuenta una repetición; anterior marca un despiste.',
+    'input.guard': 'Ignorar pulsaciones dobles en menos de',
+    'input.guardOff': 'Desactivado',
+    'input.keepAwake': 'Mantener la pantalla encendida durante las sesiones',
+    'input.moodCheckIns': 'Registro de ánimo antes y después de las sesiones',
+    'input.tapMode': 'Modo tocar en cualquier parte',
+    'tap.label': 'Toca para contar una repetición, mantén pulsado para marcar un despiste',
+    'tap.hint': 'toca para contar · mantén para un despiste',
+    'tap.exit': 'Salir',
+
+    'transfer.title': 'Copia de seguridad',
+    'transfer.exportCsv': 'Exportar CSV',
+    'transfer.exportJson': 'Exportar JSON',
+    'transfer.import': 'Importar',
+    'transfer.working': 'Procesando…',
+    'transfer.exported_one': 'Se exportó {count} sesión.',
+    'transfer.exported_other': 'Se exportaron {count} sesiones.',
+    'transfer.exportError': 'No se pudieron exportar tus sesiones.',
+    'transfer.readError': 'No se pudo leer el archivo.',
+    'transfer.noSessions': 'El archivo no contiene sesiones válidas.',
+    'transfer.imported_one': 'Se importó {count} sesión.',
+    'transfer.imported_other': 'Se importaron {count} sesiones.',
+    'transfer.importedSkipped_one': 'Se importó {count} sesión; se omitieron {skipped} que ya estaban en tu historial.',
+    'transfer.importedSkipped_other': 'Se importaron {count} sesiones; se omitieron {skipped} que ya estaban en tu historial.',
+    'transfer.importError': 'No se pudo importar el archivo.',
+    'transfer.rowError': '{row}: {reason}',
+    'transfer.moreErrors_one': '…y se omitió {count} fila más',
+    'transfer.moreErrors_other': '…y se omitieron {count} filas más',
+    'transfer.session': 'Sesión {number}',
+    'transfer.row': 'Fila {number}',
+    'transfer.notJson': 'El archivo no es un JSON válido.',
+    'transfer.notExport': 'El archivo no es una exportación del historial de sesiones.',
+    'transfer.newerVersion': 'El archivo se exportó con una versión más reciente de la aplicación.',
+    'transfer.csvColumns': 'El CSV necesita al menos las columnas "start" y "count".',
+    'transfer.invalidStart': 'falta la hora de inicio o no es válida',
+    'transfer.invalidEnd': 'la hora de fin no es válida',
+    'transfer.invalidDuration': 'la duración no es válida',
+    'transfer.endBeforeStart': 'la hora de fin es anterior a la de inicio',
+    'transfer.inFuture': 'la sesión está en el futuro',
+    'transfer.invalidCount': 'el recuento debe ser un número entero',
+    'transfer.countTooHigh': 'el recuento supera {max}',
+    'transfer.invalidLostFocus': 'los despistes deben ser un número entero',
+    'transfer.mantraTooLong': 'el mantra tiene más de {max} caracteres',
+    'transfer.unknownTimeZone': 'zona horaria desconocida',
+
+    'reminder.title': 'Hora de relajarse',
+    'reminder.body': '¿Unos minutos de práctica?',
+    'reminder.goalBody': 'El objetivo de hoy es {target} {unit}. ¿Unos minutos ahora?',
+
+    'history.totalSessions': 'SESIONES TOTALES:',
+    'history.sessionCount_one': '{count} sesión',
+    'history.sessionCount_other': '{count} sesiones',
+    'history.lostFocusTitle': 'Distracciones',
+    'history.notSynced': 'sin sincronizar',
+    'history.notSyncedTitle': 'Guardada en este dispositivo, pendiente de sincronizar',
+    'history.paced': 'con ritmo',
+    'history.pacedTitle': 'Con la guía de respiración',
+    'history.soundscapeTitle': 'Paisaje sonoro de la sesión',
+    'history.before': 'Antes: {text}',
+    'history.after': 'Después: {text}',
+    'history.goalReached': 'Objetivo alcanzado',
+    'history.goalNotReached': 'Objetivo no alcanzado',
+    'history.goal': 'objetivo {target}',
+    'history.durationTitle': 'Duración de la sesión',
+
+    'detail.noTimeline': 'No se registró una línea de tiempo para esta sesión.',
+    'detail.tempo': 'Ritmo durante la sesión, con un máximo de {peak} repeticiones por minuto',
+    'detail.average': '{pace} / min de media',
+    'detail.peak': '{peak} / min de máximo',
+    'detail.lostFocus': '{count} distracciones',
+
+    'quotes.pin': 'Fijar la cita en favoritas',
+    'quotes.pinShort': 'Fijar en favoritas',
+    'quotes.unpin': 'Quitar la cita de favoritas',
+    'quotes.unpinShort': 'Quitar',
+    'quotes.pauseRotation': 'Pausar la rotación de citas',
+    'quotes.resumeRotation': 'Reanudar la rotación de citas',
+    'quotes.pause': 'Pausar',
+    'quotes.filter': 'Mostrar citas de',
+    'quotes.all': 'Todas las citas',
+    'quotes.favourites': 'Favoritas ({count})',
+    'quotes.mine': 'Mis citas ({count})',
+    'quotes.addPlaceholder': 'Añade tu propia cita',
+    'quotes.limit': 'Puedes guardar hasta {count} citas',
+    'quotes.text': 'Texto de la cita',
+    'quotes.authorPlaceholder': 'Autor (opcional)',
+    'quotes.author': 'Autor',
+    'quotes.category': 'Categoría',
+    'quotes.empty': 'Aún no hay citas aquí',
+    'quotes.category.mindfulness': 'Atención plena',
+    'quotes.category.present': 'El momento presente',
+    'quotes.category.calm': 'Calma',
+    'quotes.category.breath': 'Respiración',
+    'quotes.category.lettingGo': 'Soltar',
+    'quotes.category.kindness': 'Bondad',
+    'quotes.category.wisdom': 'Sabiduría',
+
+    'stale.label': 'Sesión sin terminar',
+    'stale.text': 'Dejaste una sesión abierta hace {idle} ({repeats}, {lostFocus} distracciones).',
+    'stale.hours_one': '{count} hora',
+    'stale.hours_other': '{count} horas',
+    'stale.days_one': '{count} día',
+    'stale.days_other': '{count} días',
+    'stale.repeats_one': '{count} repetición',
+    'stale.repeats_other': '{count} repeticiones',
+
+    'update.available': 'Hay una versión nueva disponible.',
+    'update.reload': 'Recargar',
+    'update.later': 'Más tarde',
+
+    'mood.1': 'Estresado',
+    'mood.2': 'Inquieto',
+    'mood.3': 'Neutral',
+    'mood.4': 'Tranquilo',
+    'mood.5': 'Muy tranquilo',
+    'mood.notePlaceholder': 'Unas palabras (opcional)',
+    'mood.noteLabel': 'Nota del registro',
+    'checkIn.label': 'Registro de la sesión',
+    'checkIn.prompt': '¿Cómo te sientes ahora?',
+    'checkIn.save': 'Guardar sesión',
+
+    'goal.title': 'Objetivo diario',
+    'goal.set': 'Fijar objetivo',
+    'goal.met': 'Objetivo cumplido · ',
+    'goal.type': 'Tipo de objetivo',
+    'goal.none': 'Sin objetivo',
+    'goal.metric.sessions': 'Sesiones',
+    'goal.metric.repeats': 'Repeticiones',
+    'goal.metric.minutes': 'Minutos',
+    'goal.unit.sessions': 'sesiones',
+    'goal.unit.repeats': 'repeticiones',
+    'goal.unit.minutes': 'min',
+    'goal.target': 'Meta diaria',
+    'goal.reminders': 'Recordatorios',
+    'goal.reminderTime': 'Hora del recordatorio',
+    'goal.blocked': 'Las notificaciones están bloqueadas, así que no se pueden mostrar recordatorios.',
+    'goal.skipped': 'Se omiten los días en que ya has cumplido el objetivo.',
+
+    'guided.title': 'Sesión guiada',
+    'guided.timer': 'Temporizador',
+    'guided.minutes': '{count} min',
+    'guided.minutesLabel': 'Minutos',
+    'guided.chimes': 'Campanas de intervalo',
+    'guided.chime.0': 'Sin campanas',
+    'guided.chime.30': 'Cada 30 s',
+    'guided.chime.60': 'Cada minuto',
+    'guided.chime.300': 'Cada 5 min',
+    'guided.start': 'Empezar',
+
+    'pacing.label': 'Ritmo de respiración',
+    'pacing.none': 'Sin ritmo',
+    'pacing.countEachBreath': 'contar cada respiración',
+    'pacing.pattern.box': 'Caja 4-4-4-4',
+    'pacing.pattern.4-7-8': 'Relajante 4-7-8',
+    'pacing.pattern.coherent': 'Coherente 5-5',
+    'pacing.pattern.calm': 'Exhalación larga 4-6',
+    'breath.inhale': 'inhala',
+    'breath.hold': 'mantén',
+    'breath.exhale': 'exhala',
+    'breath.ready': 'preparado',
+
+    'mantras.title': 'Tus mantras',
+    'mantras.rename': 'Renombrar {mantra}',
+    'mantras.moveUp': 'Subir {mantra}',
+    'mantras.moveDown': 'Bajar {mantra}',
+    'mantras.archive': 'Archivar',
+    'mantras.archiveTitle': 'Archivar mantra',
+    'mantras.restore': 'Restaurar',
+    'mantras.restoreTitle': 'Restaurar mantra',
+    'mantras.placeholder': 'Añade tu propia frase',
+    'mantras.new': 'Nuevo mantra',
+
+    'browser.label': 'Todas las sesiones',
+    'browser.title': 'Todas las sesiones',
+    'browser.filterMantra': 'Filtrar por mantra',
+    'browser.allMantras': 'Todos los mantras',
+    'browser.from': 'Desde',
+    'browser.to': 'Hasta',
+    'browser.merge': 'Unir {count}',
+    'browser.mergeTitle': 'Unir las sesiones seleccionadas',
+    'browser.mergeHint': 'Selecciona dos o más sesiones del mismo mantra',
+    'browser.confirmMerge': '¿Unir {count} sesiones en una?',
+    'browser.confirmDelete': '¿Eliminar esta sesión? No se puede deshacer.',
+    'browser.select': 'Seleccionar sesión',
+    'browser.notePlaceholder': 'Añade una nota',
+    'browser.noteLabel': 'Nota de la sesión',
+    'browser.noMatch': 'Ninguna sesión coincide con estos filtros',
+    'browser.loadMore': 'Cargar más',
+    'browser.loadError': 'No se pudieron cargar las sesiones.',
+    'browser.loadMoreError': 'No se pudieron cargar más sesiones.',
+    'browser.noteError': 'No se pudo guardar la nota.',
+    'browser.deleteError': 'No se pudo eliminar la sesión.',
+    'browser.mergeError': 'No se pudieron unir las sesiones.',
+};
@@ -0,0 +1,22 @@
+import type { MoodCheckIn } from '../types';
+
+// Each mood is named by its 'mood.<value>' message
+export const MOODS = [
+    { value: 1, emoji: '😣' },
+    { value: 2, emoji: '😕' },
+    { value: 3, emoji: '😐' },
+    { value: 4, emoji: '🙂' },
+    { value: 5, emoji: '😌' },
+];
+
+export const MIN_MOOD = 1;
+export const MAX_MOOD = 5;
+export const MAX_CHECK_IN_NOTE_LENGTH = 140;
+
+// Drops blank notes and trims the rest before a check-in is stored
+export const normalizeCheckIn = ({ mood, note }: MoodCheckIn): MoodCheckIn => {
+    const trimmed = note?.trim().slice(0, MAX_CHECK_IN_NOTE_LENGTH);
+    return trimmed ? { mood, note: trimmed } : { mood };
+};
+
+export const findMood = (value: number | undefined) => MOODS.find(m => m.value === value);
@@ -1,102 +1,163 @@
-export const quotes = [
-    "Be where you are, otherwise you will miss your life.",
-    "The only way to live is by accepting each minute as an unrepeatable miracle.",
-    "Nature does not hurry, yet everything is accomplished.",
-    "Empty your mind, be formless, shapeless—like water.",
-    "Walk as if you are kissing the Earth with your feet.",
-    "Breathing in, I calm body and mind. Breathing out, I smile.",
-    "The past has no power over the present moment.",
-    "Surrender to what is. Let go of what was. Have faith in what will be.",
-    "In this moment, there is plenty of time. In this moment, you are precisely as you should be.",
-    "Mindfulness is a way of befriending ourselves and our experience.",
-    "You must live in the present, launch yourself on every wave, find your eternity in each moment.",
-    "The present moment is the only moment available to us, and it is the door to all moments.",
-    "Each morning we are born again. What we do today is what matters most.",
-    "Suffering usually relates to wanting things to be different from the way they are.",
-    "The best way to capture moments is to pay attention. This is how we cultivate mindfulness.",
-    "Mindfulness is about being fully awake in our lives.",
-    "Paradise is not a place; it's a state of consciousness.",
-    "The mind is like water. When it's turbulent, it's difficult to see. When it's calm, everything becomes clear.",
-    "Be happy in the moment, that's enough. Each moment is all we need, not more.",
-    "Drink your tea slowly and reverently, as if it is the axis on which the world earth revolves.",
-    "Mindfulness means paying attention in a particular way: on purpose, in the present moment, and non-judgmentally.",
-    "Be kind whenever possible. It is always possible.",
-    "A disciplined mind leads to happiness, and an undisciplined mind leads to suffering.",
-    "Open your arms to change but don't let go of your values.",
-    "As you breathe in, cherish yourself. As you breathe out, cherish all beings.",
-    "If you want to conquer the anxiety of life, live in the moment, live in the breath.",
-    "Just when you feel you have no time to relax, know this is the moment you most need to relax.",
-    "There is nothing more important to true growth than realizing that you are not the voice of the mind—you are the one who hears it.",
-    "Choose to be optimistic, it feels better.",
-    "Our life is shaped by our mind, for we become what we think.",
-    "If you can't do anything about it, then let it go. Don't be a prisoner to things you can't change.",
-    "Quiet the mind, and the soul will speak.",
-    "Before you speak, let your words pass through three gates: Is it true? Is it necessary? Is it kind?",
-    "Begin doing what you want to do now. We are not living in eternity. We have only this moment, sparkling like a star in our hand melting like a snowflake.",
-    "Serenity is the peaceful surrender to the flow of life.",
-    "Serenity is the ability to stay centred, no matter what life throws at you.",
-    "Tranquility is not a place, but a state of mind.",
-    "Serenity is the gentle acceptance of life's unpredictability.",
-    "Serenity is found in the acceptance of what is and the release of what was.",
-    "Serenity is the peaceful coexistence with life's challenges.",
-    "Serenity is not freedom from the storm, but peace amid the storm.",
-    "Serenity comes when you trade expectations for acceptance.",
-    "Serenity is the balance of mind, body, and spirit.",
-    "Serenity is the quiet confidence that comes from within.",
-    "Serenity is found when you let go of expectations and find peace in the moment.",
-    "Serenity is not the absence of trouble, but the presence of inner peace.",
-    "The ideal of calm exists in a sitting cat.",
-    "Gentleness is strength under control. It is the ability to stay calm, no matter what happens.",
-    "By staying calm, you increase your resistance against any kind of storms.",
-    "Breath is the power behind all things…. I breathe in and know that good things will happen.",
-    "Within you, there is a stillness and a sanctuary to which you can retreat at any time and be yourself.",
-    "Don't try to force anything. Let life be a deep let-go. God opens millions of flowers every day without forcing their buds.",
-    "Give your stress wings and let it fly away.",
-    "Your life will be in order when disorder ceases to bother you.",
-    "Freedom is a calm mind.",
-    "Remain calm, serene, always in command of yourself.",
-    "He who would be serene and pure needs but one thing, detachment.",
-    "The more I expect, the more unhappy I am going to be. The more I accept, the more serene I am.",
-    "I feel beautiful when I'm at peace with myself. When I'm serene, when I'm a good person, when I've been considerate of others.",
-    "Patience is not the ability to wait. Patience is to be calm no matter what happens, constantly take action to turn it to positive growth opportunities, and have faith to believe that it will all work out in the end while you are waiting.",
-    "You are the sky. Everything else – it's just the weather.",
-    "To learn to see- to accustom the eye to calmness, to patience, and to allow things to come up to it.",
-    "Be mindful. Be grateful. Be positive. Be true. Be kind.",
-    "Feelings come and go like clouds in a windy sky. Conscious breathing is my anchor.",
-    "The most fundamental aggression to ourselves, the most fundamental harm we can do to ourselves, is to remain ignorant by not having the courage and the respect to look at ourselves honestly and gently.",
-    "Looking at beauty in the world, is the first step of purifying the mind.",
-    "Do every act of your life as though it were the very last act of your life.",
-    "Be rid of your troubles and find serenity.",
-    "The true measure of success is a calm nervous system.",
-    "Life is a series of natural and spontaneous changes. Don't resist them; that only creates sorrow. Let reality be reality. Let things flow naturally forward in whatever way they like.",
-    "When you do the right thing, you get the feeling of peace and serenity associated with it. Do it again and again.",
-    "There are two ways to get enough. One is to continue to accumulate more and more. The other is to desire less.",
-    "Never respond to an angry person with a fiery comeback, even if he deserves it... Don't allow his anger to become your anger.",
-    "Holding anger is a poison. It eats you from inside.",
-    "If you get tired, learn to rest, not to quit.",
-    "In a moment of decision, the best thing you can do is the right thing to do, the next best thing is the wrong thing, and the worst thing you can do is nothing.",
-    "The moment. Stop regretting the past and fearing the future. Today is all you have. Make the most of it. Make it worth remembering.",
-    "We are all mindful to one degree or another, moment by moment. It is an inherent human capacity.",
-    "The richness of present-moment experience is the richness of life itself.",
-    "Mindfulness isn't training to be present in peaceful places. It's about practicing presence in all kinds of situations, including those that are the most difficult.",
-    "At its most elemental, meditation is about just sitting and being ok not doing anything. It's an attitude of accepting the moment just how it is and not making a big deal of it.",
-    "Mindfulness is a pause – the space between stimulus and response: that's where choice lies.",
-    "Mindfulness is not about never being mindless, it's about learning to come back to an open-hearted and wise presence sooner and sooner.",
-    "When we practice Mindfulness, we learn to become aware of what is happening in the present moment, without judging or evaluating.",
-    "Mindfulness practices can and do help us feel better, but it's not by avoiding the uncomfortable stuff.",
-    "With mindfulness, each time we fall, we bring ourselves back with elevated self-compassion and patience.",
-    "We often experience life as a series of ups and downs, highs and lows. But if we can consistently return to center.",
-    "Meditation is evolution's strategy to bring out our full potential.",
-    "Meditation practice is neither holding on nor avoiding; it is a settling back into the moment.",
-    "Your mind is your instrument, learn to play it well.",
-    "The mind wanders, that's sort of what it's good at. Our task is simply to notice when that happens.",
-    "Once we are more mindful we notice the good things around us a lot more.",
-    "The aim of meditation is not to stop thinking. It is to be more aware of thinking.",
-    "Attention is the most basic form of love. By paying attention we let ourselves be touched by life.",
-    "As our mindfulness practice grows, so does our ability to hold that which feels unholdable.",
-    "Just as a clear pond reflects the sky, mindfulness allows us to see the truth of our experience.",
-    "By quieting our mind and body, and tuning in, we can open up to our inner landscape.",
-    "Wherever you are, be there totally.",
-    "Mindfulness, put simply, is the ability to see what's going on in our heads.",
-    "I am worthy of rest. I am worthy of this time."
+import type { MessageKey } from '../lib/i18n';
+import type { Quote } from '../types';
+
+// Categories the sidebar can be filtered by, in display order
+export const QUOTE_CATEGORIES: { id: string; labelKey: MessageKey }[] = [
+    { id: 'mindfulness', labelKey: 'quotes.category.mindfulness' },
+    { id: 'present', labelKey: 'quotes.category.present' },
+    { id: 'calm', labelKey: 'quotes.category.calm' },
+    { id: 'breath', labelKey: 'quotes.category.breath' },
+    { id: 'letting-go', labelKey: 'quotes.category.lettingGo' },
+    { id: 'kindness', labelKey: 'quotes.category.kindness' },
+    { id: 'wisdom', labelKey: 'quotes.category.wisdom' },
 ];
+
+export const MAX_CUSTOM_QUOTES = 50;
+export const MAX_QUOTE_LENGTH = 300;
+export const MAX_AUTHOR_LENGTH = 60;
+
+export const quotes: Quote[] = [
+    { id: 'q001', text: "Be where you are, otherwise you will miss your life.", author: 'Buddha', tags: ['present'], lang: 'en' },
+    { id: 'q002', text: "The only way to live is by accepting each minute as an unrepeatable miracle.", author: 'Tara Brach', tags: ['letting-go'], lang: 'en' },
+    { id: 'q003', text: "Nature does not hurry, yet everything is accomplished.", author: 'Lao Tzu', tags: ['wisdom'], lang: 'en' },
+    { id: 'q004', text: "Empty your mind, be formless, shapeless—like water.", author: 'Bruce Lee', tags: ['wisdom'], lang: 'en' },
+    { id: 'q005', text: "Walk as if you are kissing the Earth with your feet.", author: 'Thich Nhat Hanh', tags: ['wisdom'], lang: 'en' },
+    { id: 'q006', text: "Breathing in, I calm body and mind. Breathing out, I smile.", author: 'Thich Nhat Hanh', tags: ['breath', 'calm'], lang: 'en' },
+    { id: 'q007', text: "The past has no power over the present moment.", author: 'Eckhart Tolle', tags: ['present'], lang: 'en' },
+    { id: 'q008', text: "Surrender to what is. Let go of what was. Have faith in what will be.", author: 'Sonia Ricotti', tags: ['letting-go'], lang: 'en' },
+    { id: 'q009', text: "In this moment, there is plenty of time. In this moment, you are precisely as you should be.", author: 'Sri Sri Ravi Shankar', tags: ['present'], lang: 'en' },
+    { id: 'q010', text: "Mindfulness is a way of befriending ourselves and our experience.", author: 'Jon Kabat-Zinn', tags: ['mindfulness', 'kindness'], lang: 'en' },
+    { id: 'q011', text: "You must live in the present, launch yourself on every wave, find your eternity in each moment.", author: 'Henry David Thoreau', tags: ['present'], lang: 'en' },
+    { id: 'q012', text: "The present moment is the only moment available to us, and it is the door to all moments.", author: 'Thich Nhat Hanh', tags: ['present'], lang: 'en' },
+    { id: 'q013', text: "Each morning we are born again. What we do today is what matters most.", author: 'Buddha', tags: ['present'], lang: 'en' },
+    { id: 'q014', text: "Suffering usually relates to wanting things to be different from the way they are.", author: 'Allan Lokos', tags: ['wisdom'], lang: 'en' },
+    { id: 'q015', text: "The best way to capture moments is to pay attention. This is how we cultivate mindfulness.", author: 'Jon Kabat-Zinn', tags: ['present', 'mindfulness'], lang: 'en' },
+    { id: 'q016', text: "Mindfulness is about being fully awake in our lives.", author: 'Jon Kabat-Zinn', tags: ['mindfulness'], lang: 'en' },
+    { id: 'q017', text: "Paradise is not a place; it's a state of consciousness.", author: 'Sri Chinmoy', tags: ['wisdom'], lang: 'en' },
+    { id: 'q018', text: "The mind is like water. When it's turbulent, it's difficult to see. When it's calm, everything becomes clear.", author: 'Prasad Mahes', tags: ['mindfulness', 'calm'], lang: 'en' },
+    { id: 'q019', text: "Be happy in the moment, that's enough. Each moment is all we need, not more.", author: 'Mother Teresa', tags: ['present'], lang: 'en' },
+    { id: 'q020', text: "Drink your tea slowly and reverently, as if it is the axis on which the world earth revolves.", author: 'Thich Nhat Hanh', tags: ['wisdom'], lang: 'en' },
+    { id: 'q021', text: "Mindfulness means paying attention in a particular way: on purpose, in the present moment, and non-judgmentally.", author: 'Jon Kabat-Zinn', tags: ['present', 'mindfulness'], lang: 'en' },
+    { id: 'q022', text: "Be kind whenever possible. It is always possible.", author: 'Dalai Lama', tags: ['kindness'], lang: 'en' },
+    { id: 'q023', text: "A disciplined mind leads to happiness, and an undisciplined mind leads to suffering.", author: 'Dalai Lama', tags: ['wisdom'], lang: 'en' },
+    { id: 'q024', text: "Open your arms to change but don't let go of your values.", author: 'Dalai Lama', tags: ['letting-go'], lang: 'en' },
+    { id: 'q025', text: "As you breathe in, cherish yourself. As you breathe out, cherish all beings.", author: 'Dalai Lama', tags: ['breath', 'kindness'], lang: 'en' },
+    { id: 'q026', text: "If you want to conquer the anxiety of life, live in the moment, live in the breath.", author: 'Amit Ray', tags: ['breath', 'present'], lang: 'en' },
+    { id: 'q027', text: "Just when you feel you have no time to relax, know this is the moment you most need to relax.", author: 'Matthew Kelly', tags: ['present', 'calm'], lang: 'en' },
+    { id: 'q028', text: "There is nothing more important to true growth than realizing that you are not the voice of the mind—you are the one who hears it.", author: 'Michael A. Singer', tags: ['wisdom'], lang: 'en' },
+    { id: 'q029', text: "Choose to be optimistic, it feels better.", author: 'Dalai Lama', tags: ['wisdom'], lang: 'en' },
+    { id: 'q030', text: "Our life is shaped by our mind, for we become what we think.", author: 'Buddha', tags: ['wisdom'], lang: 'en' },
+    { id: 'q031', text: "If you can't do anything about it, then let it go. Don't be a prisoner to things you can't change.", tags: ['wisdom'], lang: 'en' },
+    { id: 'q032', text: "Quiet the mind, and the soul will speak.", author: 'Ma Jaya Sati Bhagavati', tags: ['calm'], lang: 'en' },
+    { id: 'q033', text: "Before you speak, let your words pass through three gates: Is it true? Is it necessary? Is it kind?", author: 'Rumi', tags: ['kindness'], lang: 'en' },
+    { id: 'q034', text: "Begin doing what you want to do now. We are not living in eternity. We have only this moment, sparkling like a star in our hand melting like a snowflake.", author: 'Marie Beynon Ray', tags: ['present'], lang: 'en' },
+    { id: 'q035', text: "Serenity is the peaceful surrender to the flow of life.", tags: ['calm', 'letting-go'], lang: 'en' },
+    { id: 'q036', text: "Serenity is the ability to stay centred, no matter what life throws at you.", tags: ['calm'], lang: 'en' },
+    { id: 'q037', text: "Tranquility is not a place, but a state of mind.", tags: ['calm'], lang: 'en' },
+    { id: 'q038', text: "Serenity is the gentle acceptance of life's unpredictability.", tags: ['calm', 'letting-go', 'kindness'], lang: 'en' },
+    { id: 'q039', text: "Serenity is found in the acceptance of what is and the release of what was.", tags: ['calm', 'letting-go'], lang: 'en' },
+    { id: 'q040', text: "Serenity is the peaceful coexistence with life's challenges.", tags: ['calm'], lang: 'en' },
+    { id: 'q041', text: "Serenity is not freedom from the storm, but peace amid the storm.", tags: ['calm'], lang: 'en' },
+    { id: 'q042', text: "Serenity comes when you trade expectations for acceptance.", tags: ['calm', 'letting-go'], lang: 'en' },
+    { id: 'q043', text: "Serenity is the balance of mind, body, and spirit.", tags: ['calm'], lang: 'en' },
+    { id: 'q044', text: "Serenity is the quiet confidence that comes from within.", tags: ['calm'], lang: 'en' },
+    { id: 'q045', text: "Serenity is found when you let go of expectations and find peace in the moment.", tags: ['present', 'calm', 'letting-go'], lang: 'en' },
+    { id: 'q046', text: "Serenity is not the absence of trouble, but the presence of inner peace.", tags: ['calm'], lang: 'en' },
+    { id: 'q047', text: "The ideal of calm exists in a sitting cat.", author: 'Jules Renard', tags: ['calm'], lang: 'en' },
+    { id: 'q048', text: "Gentleness is strength under control. It is the ability to stay calm, no matter what happens.", tags: ['calm', 'kindness'], lang: 'en' },
+    { id: 'q049', text: "By staying calm, you increase your resistance against any kind of storms.", tags: ['calm', 'kindness'], lang: 'en' },
+    { id: 'q050', text: "Breath is the power behind all things…. I breathe in and know that good things will happen.", tags: ['breath', 'present'], lang: 'en' },
+    { id: 'q051', text: "Within you, there is a stillness and a sanctuary to which you can retreat at any time and be yourself.", author: 'Hermann Hesse', tags: ['calm'], lang: 'en' },
+    { id: 'q052', text: "Don't try to force anything. Let life be a deep let-go. God opens millions of flowers every day without forcing their buds.", author: 'Osho', tags: ['letting-go'], lang: 'en' },
+    { id: 'q053', text: "Give your stress wings and let it fly away.", author: 'Terri Guillemets', tags: ['calm'], lang: 'en' },
+    { id: 'q054', text: "Your life will be in order when disorder ceases to bother you.", tags: ['wisdom'], lang: 'en' },
+    { id: 'q055', text: "Freedom is a calm mind.", tags: ['calm'], lang: 'en' },
+    { id: 'q056', text: "Remain calm, serene, always in command of yourself.", author: 'Paramahansa Yogananda', tags: ['calm'], lang: 'en' },
+    { id: 'q057', text: "He who would be serene and pure needs but one thing, detachment.", author: 'Meister Eckhart', tags: ['calm', 'letting-go'], lang: 'en' },
+    { id: 'q058', text: "The more I expect, the more unhappy I am going to be. The more I accept, the more serene I am.", tags: ['calm', 'letting-go'], lang: 'en' },
+    { id: 'q059', text: "I feel beautiful when I'm at peace with myself. When I'm serene, when I'm a good person, when I've been considerate of others.", tags: ['calm'], lang: 'en' },
+    { id: 'q060', text: "Patience is not the ability to wait. Patience is to be calm no matter what happens, constantly take action to turn it to positive growth opportunities, and have faith to believe that it will all work out in the end while you are waiting.", author: 'Roy T. Bennett', tags: ['calm'], lang: 'en' },
+    { id: 'q061', text: "You are the sky. Everything else – it's just the weather.", author: 'Pema Chödrön', tags: ['wisdom'], lang: 'en' },
+    { id: 'q062', text: "To learn to see- to accustom the eye to calmness, to patience, and to allow things to come up to it.", author: 'Friedrich Nietzsche', tags: ['calm'], lang: 'en' },
+    { id: 'q063', text: "Be mindful. Be grateful. Be positive. Be true. Be kind.", author: 'Roy T. Bennett', tags: ['mindfulness', 'kindness'], lang: 'en' },
+    { id: 'q064', text: "Feelings come and go like clouds in a windy sky. Conscious breathing is my anchor.", author: 'Thich Nhat Hanh', tags: ['breath'], lang: 'en' },
+    { id: 'q065', text: "The most fundamental aggression to ourselves, the most fundamental harm we can do to ourselves, is to remain ignorant by not having the courage and the respect to look at ourselves honestly and gently.", author: 'Pema Chödrön', tags: ['wisdom'], lang: 'en' },
+    { id: 'q066', text: "Looking at beauty in the world, is the first step of purifying the mind.", author: 'Amit Ray', tags: ['wisdom'], lang: 'en' },
+    { id: 'q067', text: "Do every act of your life as though it were the very last act of your life.", author: 'Marcus Aurelius', tags: ['wisdom'], lang: 'en' },
+    { id: 'q068', text: "Be rid of your troubles and find serenity.", tags: ['calm'], lang: 'en' },
+    { id: 'q069', text: "The true measure of success is a calm nervous system.", tags: ['calm'], lang: 'en' },
+    { id: 'q070', text: "Life is a series of natural and spontaneous changes. Don't resist them; that only creates sorrow. Let reality be reality. Let things flow naturally forward in whatever way they like.", author: 'Lao Tzu', tags: ['letting-go'], lang: 'en' },
+    { id: 'q071', text: "When you do the right thing, you get the feeling of peace and serenity associated with it. Do it again and again.", author: 'Roy T. Bennett', tags: ['calm'], lang: 'en' },
+    { id: 'q072', text: "There are two ways to get enough. One is to continue to accumulate more and more. The other is to desire less.", author: 'G. K. Chesterton', tags: ['letting-go'], lang: 'en' },
+    { id: 'q073', text: "Never respond to an angry person with a fiery comeback, even if he deserves it... Don't allow his anger to become your anger.", tags: ['kindness'], lang: 'en' },
+    { id: 'q074', text: "Holding anger is a poison. It eats you from inside.", author: 'Mitch Albom', tags: ['kindness'], lang: 'en' },
+    { id: 'q075', text: "If you get tired, learn to rest, not to quit.", author: 'Banksy', tags: ['calm'], lang: 'en' },
+    { id: 'q076', text: "In a moment of decision, the best thing you can do is the right thing to do, the next best thing is the wrong thing, and the worst thing you can do is nothing.", author: 'Theodore Roosevelt', tags: ['present'], lang: 'en' },
+    { id: 'q077', text: "The moment. Stop regretting the past and fearing the future. Today is all you have. Make the most of it. Make it worth remembering.", tags: ['present', 'letting-go'], lang: 'en' },
+    { id: 'q078', text: "We are all mindful to one degree or another, moment by moment. It is an inherent human capacity.", author: 'Jon Kabat-Zinn', tags: ['present', 'mindfulness'], lang: 'en' },
+    { id: 'q079', text: "The richness of present-moment experience is the richness of life itself.", author: 'Jon Kabat-Zinn', tags: ['present'], lang: 'en' },
+    { id: 'q080', text: "Mindfulness isn't training to be present in peaceful places. It's about practicing presence in all kinds of situations, including those that are the most difficult.", tags: ['present', 'mindfulness', 'calm', 'kindness'], lang: 'en' },
+    { id: 'q081', text: "At its most elemental, meditation is about just sitting and being ok not doing anything. It's an attitude of accepting the moment just how it is and not making a big deal of it.", tags: ['present', 'mindfulness', 'letting-go'], lang: 'en' },
+    { id: 'q082', text: "Mindfulness is a pause – the space between stimulus and response: that's where choice lies.", author: 'Tara Brach', tags: ['mindfulness'], lang: 'en' },
+    { id: 'q083', text: "Mindfulness is not about never being mindless, it's about learning to come back to an open-hearted and wise presence sooner and sooner.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q084', text: "When we practice Mindfulness, we learn to become aware of what is happening in the present moment, without judging or evaluating.", tags: ['present', 'mindfulness'], lang: 'en' },
+    { id: 'q085', text: "Mindfulness practices can and do help us feel better, but it's not by avoiding the uncomfortable stuff.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q086', text: "With mindfulness, each time we fall, we bring ourselves back with elevated self-compassion and patience.", tags: ['mindfulness', 'kindness'], lang: 'en' },
+    { id: 'q087', text: "We often experience life as a series of ups and downs, highs and lows. But if we can consistently return to center.", tags: ['wisdom'], lang: 'en' },
+    { id: 'q088', text: "Meditation is evolution's strategy to bring out our full potential.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q089', text: "Meditation practice is neither holding on nor avoiding; it is a settling back into the moment.", tags: ['present', 'mindfulness'], lang: 'en' },
+    { id: 'q090', text: "Your mind is your instrument, learn to play it well.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q091', text: "The mind wanders, that's sort of what it's good at. Our task is simply to notice when that happens.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q092', text: "Once we are more mindful we notice the good things around us a lot more.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q093', text: "The aim of meditation is not to stop thinking. It is to be more aware of thinking.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q094', text: "Attention is the most basic form of love. By paying attention we let ourselves be touched by life.", author: 'Tara Brach', tags: ['mindfulness', 'kindness'], lang: 'en' },
+    { id: 'q095', text: "As our mindfulness practice grows, so does our ability to hold that which feels unholdable.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q096', text: "Just as a clear pond reflects the sky, mindfulness allows us to see the truth of our experience.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q097', text: "By quieting our mind and body, and tuning in, we can open up to our inner landscape.", tags: ['calm'], lang: 'en' },
+    { id: 'q098', text: "Wherever you are, be there totally.", author: 'Eckhart Tolle', tags: ['wisdom'], lang: 'en' },
+    { id: 'q099', text: "Mindfulness, put simply, is the ability to see what's going on in our heads.", tags: ['mindfulness'], lang: 'en' },
+    { id: 'q100', text: "I am worthy of rest. I am worthy of this time.", tags: ['calm'], lang: 'en' },
+
+    { id: 'es001', text: 'Caminante, no hay camino, se hace camino al andar.', author: 'Antonio Machado', tags: ['present', 'wisdom'], lang: 'es' },
+    { id: 'es002', text: 'Nada te turbe, nada te espante, todo se pasa.', author: 'Teresa de Ávila', tags: ['calm', 'letting-go'], lang: 'es' },
+    { id: 'es003', text: 'La paciencia todo lo alcanza.', author: 'Teresa de Ávila', tags: ['calm'], lang: 'es' },
+    { id: 'es004', text: 'Está donde estás; si no, te perderás tu vida.', author: 'Buda', tags: ['present'], lang: 'es' },
+    { id: 'es005', text: 'La naturaleza no tiene prisa, y sin embargo todo se cumple.', author: 'Lao Tse', tags: ['wisdom'], lang: 'es' },
+    { id: 'es006', text: 'Al inspirar, calmo el cuerpo y la mente. Al espirar, sonrío.', author: 'Thich Nhat Hanh', tags: ['breath', 'calm'], lang: 'es' },
+    { id: 'es007', text: 'El pasado no tiene poder sobre el momento presente.', author: 'Eckhart Tolle', tags: ['present'], lang: 'es' },
+    { id: 'es008', text: 'Sé amable siempre que sea posible. Siempre es posible.', author: 'Dalai Lama', tags: ['kindness'], lang: 'es' },
+    { id: 'es009', text: 'Aquieta la mente y el alma hablará.', author: 'Ma Jaya Sati Bhagavati', tags: ['calm'], lang: 'es' },
+    { id: 'es010', text: 'Tú eres el cielo. Todo lo demás es solo el clima.', author: 'Pema Chödrön', tags: ['wisdom'], lang: 'es' },
+
+    { id: 'ar001', text: 'الصبر مفتاح الفرج.', tags: ['calm'], lang: 'ar' },
+    { id: 'ar002', text: 'كن حيث أنت، وإلا فاتتك حياتك.', author: 'بوذا', tags: ['present'], lang: 'ar' },
+    { id: 'ar003', text: 'الطبيعة لا تستعجل، ومع ذلك يتم كل شيء.', author: 'لاو تسو', tags: ['wisdom'], lang: 'ar' },
+    { id: 'ar004', text: 'مع الشهيق أُهدّئ جسدي وعقلي، ومع الزفير أبتسم.', author: 'ثيش نات هانه', tags: ['breath', 'calm'], lang: 'ar' },
+    { id: 'ar005', text: 'لا سلطان للماضي على اللحظة الحاضرة.', author: 'إكهارت تول', tags: ['present'], lang: 'ar' },
+    { id: 'ar006', text: 'كن لطيفًا كلما أمكن. وهذا ممكن دائمًا.', author: 'الدالاي لاما', tags: ['kindness'], lang: 'ar' },
+    { id: 'ar007', text: 'اهدأ، وسيتكلم القلب.', author: 'ما جايا ساتي بهاغافاتي', tags: ['calm'], lang: 'ar' },
+    { id: 'ar008', text: 'أنت السماء، وكل ما عداك مجرد طقس.', author: 'بيما تشودرون', tags: ['wisdom'], lang: 'ar' },
+    { id: 'ar009', text: 'حيثما كنت، فكن هناك بكلّيتك.', author: 'إكهارت تول', tags: ['present'], lang: 'ar' },
+    { id: 'ar010', text: 'إذا تعبت فتعلّم أن تستريح، لا أن تستسلم.', author: 'بانكسي', tags: ['calm'], lang: 'ar' },
+];
+
+// Quotes people add themselves live in their settings, with ids marked by this prefix
+const CUSTOM_PREFIX = 'custom-';
+
+export const isCustomQuote = (quote: Quote) => quote.id.startsWith(CUSTOM_PREFIX);
+
+export const newCustomQuoteId = () => `${CUSTOM_PREFIX}${crypto.randomUUID()}`;
+
+// Built-in quotes in the UI language (English when it has none) plus every quote people added themselves
+export const quotesInLanguage = (all: Quote[], language: string) => {
+    const builtIn = all.filter(q => !isCustomQuote(q));
+    const hasLanguage = builtIn.some(q => q.lang === language);
+    return all.filter(q => isCustomQuote(q) || q.lang === (hasLanguage ? language : 'en'));
+};
+
+export const filterQuotes = (all: Quote[], filter: string, favourites: string[]) => {
+    if (filter === 'favourites') return all.filter(q => favourites.includes(q.id));
+    if (filter === 'mine') return all.filter(isCustomQuote);
+    if (filter) return all.filter(q => q.tags.includes(filter));
+    return all;
+};
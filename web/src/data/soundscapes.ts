@@ -0,0 +1,34 @@
+import type { MessageKey } from '../lib/i18n';
+import type { NoiseType, SoundscapeMix, SoundscapePreset } from '../types';
+
+export const NOISE_TYPES: NoiseType[] = ['white', 'pink', 'brown', 'rain'];
+
+export const SILENT_MIX: SoundscapeMix = { white: 0, pink: 0, brown: 0, rain: 0 };
+
+// Shown to everyone; saved presets are listed after these
+export const BUILT_IN_SOUNDSCAPES: SoundscapePreset[] = [
+    { id: 'soft-rain', name: 'Soft rain', mix: { white: 0, pink: 0.15, brown: 0, rain: 0.6 } },
+    { id: 'deep-hum', name: 'Deep hum', mix: { white: 0, pink: 0, brown: 0.7, rain: 0 } },
+    { id: 'waterfall', name: 'Waterfall', mix: { white: 0.1, pink: 0.5, brown: 0.3, rain: 0 } },
+    { id: 'storm', name: 'Storm', mix: { white: 0, pink: 0, brown: 0.5, rain: 0.8 } },
+];
+
+export const CUSTOM_SOUNDSCAPE_NAME = 'Custom';
+export const MAX_SOUNDSCAPE_PRESETS = 10;
+export const MAX_SOUNDSCAPE_NAME_LENGTH = 30;
+
+// 0 turns the timer off
+export const SLEEP_TIMER_OPTIONS = [0, 10, 20, 30, 60];
+
+// Sessions store the English name, so built-in names are only translated for display
+const BUILT_IN_NAME_KEYS: Record<string, MessageKey> = {
+    'Soft rain': 'soundscape.preset.softRain',
+    'Deep hum': 'soundscape.preset.deepHum',
+    'Waterfall': 'soundscape.preset.waterfall',
+    'Storm': 'soundscape.preset.storm',
+    [CUSTOM_SOUNDSCAPE_NAME]: 'soundscape.custom',
+};
+
+export const soundscapeNameKey = (name: string): MessageKey | undefined => BUILT_IN_NAME_KEYS[name];
+
+export const isSilent = (mix: SoundscapeMix) => NOISE_TYPES.every(noise => mix[noise] <= 0);
@@ -0,0 +1,105 @@
+import type { MessageKey } from '../lib/i18n';
+import type { ThemeMode, ThemePreference } from '../types';
+
+export const DEFAULT_THEME: ThemePreference = {
+    mode: 'system',
+    palette: 'violet',
+    background: 'scenery',
+    gradient: ['#a1c4fd', '#c2e9fb'],
+    lightFrom: '07:00',
+    darkFrom: '19:00',
+};
+
+export const THEME_MODES: ThemeMode[] = ['system', 'light', 'dark', 'schedule'];
+
+interface PaletteColours {
+    primary: string;
+    gradientStart: string;
+    gradientEnd: string;
+}
+
+export interface Palette {
+    id: string;
+    labelKey: MessageKey;
+    light: PaletteColours;
+    dark: PaletteColours;
+}
+
+// Only the accent colours change; glass, text and shadows come from light/dark mode
+export const PALETTES: Palette[] = [
+    {
+        id: 'violet',
+        labelKey: 'theme.palette.violet',
+        light: { primary: '#7c4dff', gradientStart: '#667eea', gradientEnd: '#764ba2' },
+        dark: { primary: '#b388ff', gradientStart: '#a5b4fc', gradientEnd: '#c084fc' },
+    },
+    {
+        id: 'ocean',
+        labelKey: 'theme.palette.ocean',
+        light: { primary: '#0277bd', gradientStart: '#2193b0', gradientEnd: '#1565c0' },
+        dark: { primary: '#4fc3f7', gradientStart: '#81d4fa', gradientEnd: '#4dd0e1' },
+    },
+    {
+        id: 'forest',
+        labelKey: 'theme.palette.forest',
+        light: { primary: '#2e7d32', gradientStart: '#43a047', gradientEnd: '#00695c' },
+        dark: { primary: '#81c784', gradientStart: '#a5d6a7', gradientEnd: '#80cbc4' },
+    },
+    {
+        id: 'sunset',
+        labelKey: 'theme.palette.sunset',
+        light: { primary: '#e65100', gradientStart: '#f2994a', gradientEnd: '#d4145a' },
+        dark: { primary: '#ffb74d', gradientStart: '#ffcc80', gradientEnd: '#f48fb1' },
+    },
+    {
+        id: 'rose',
+        labelKey: 'theme.palette.rose',
+        light: { primary: '#c2185b', gradientStart: '#ec407a', gradientEnd: '#8e24aa' },
+        dark: { primary: '#f48fb1', gradientStart: '#f8bbd0', gradientEnd: '#ce93d8' },
+    },
+];
+
+export interface BackgroundPreset {
+    id: string;
+    labelKey: MessageKey;
+    light: string;
+    dark: string;
+}
+
+export const BACKGROUNDS: BackgroundPreset[] = [
+    {
+        id: 'scenery',
+        labelKey: 'theme.background.scenery',
+        light: "url('/assets/background.jpeg') no-repeat center center fixed",
+        dark: "url('/assets/dark_background.png') no-repeat center center fixed",
+    },
+    {
+        id: 'dawn',
+        labelKey: 'theme.background.dawn',
+        light: 'linear-gradient(135deg, #fdfcfb 0%, #e2d1c3 100%) fixed',
+        dark: 'linear-gradient(135deg, #2c3e50 0%, #4b3b47 100%) fixed',
+    },
+    {
+        id: 'lagoon',
+        labelKey: 'theme.background.lagoon',
+        light: 'linear-gradient(160deg, #e0f7fa 0%, #80deea 100%) fixed',
+        dark: 'linear-gradient(160deg, #0f2027 0%, #203a43 50%, #2c5364 100%) fixed',
+    },
+    {
+        id: 'meadow',
+        labelKey: 'theme.background.meadow',
+        light: 'linear-gradient(180deg, #f1f8e9 0%, #aed581 100%) fixed',
+        dark: 'linear-gradient(180deg, #1b2a1f 0%, #2e4a36 100%) fixed',
+    },
+    {
+        id: 'plain',
+        labelKey: 'theme.background.plain',
+        light: '#eef1f6',
+        dark: '#161a22',
+    },
+];
+
+// Uploads stay on the device, so they are capped to keep IndexedDB small
+export const MAX_BACKGROUND_BYTES = 8 * 1024 * 1024;
+
+export const findPalette = (id: string) => PALETTES.find(p => p.id === id) ?? PALETTES[0];
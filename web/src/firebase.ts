@@ -1,12 +1,19 @@
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
-import { getAuth, GoogleAuthProvider } from "firebase/auth";
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore";
+import { connectAuthEmulator, getAuth, GoogleAuthProvider } from "firebase/auth";
+
+// Set VITE_FIREBASE_EMULATORS=true to talk to `firebase emulators:start` instead of a real project
+export const usingEmulators = import.meta.env.VITE_FIREBASE_EMULATORS === 'true';
+export const hasFirebaseProject = Boolean(import.meta.env.VITE_FIREBASE_PROJECT_ID) || usingEmulators;
+
+const emulatorHost = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1';
 
 // TODO: Replace with your actual Firebase config from Firebase Console
+// Without one the placeholders let the app start; sign-in only works against the emulators.
 const firebaseConfig = {
-    apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+    apiKey: import.meta.env.VITE_FIREBASE_API_KEY || 'demo-api-key',
     authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-    projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+    projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || 'demo-relax',
     storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
     messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
     appId: import.meta.env.VITE_FIREBASE_APP_ID
@@ -16,3 +23,10 @@ const app = initializeApp(firebaseConfig);
 export const db = getFirestore(app);
 export const auth = getAuth(app);
 export const googleProvider = new GoogleAuthProvider();
+
+// Ports match firebase.json. A real project needs Google, email link and anonymous
+// sign-in enabled; the Auth emulator accepts all three and prints emailed links to its log.
+if (usingEmulators) {
+    connectFirestoreEmulator(db, emulatorHost, 8080);
+    connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect, useRef } from 'react';
+
+// Screen readers fall behind if every tap is spoken, so updates are batched
+const MIN_INTERVAL_MS = 2500;
+
+/**
+ * Returns the text for an aria-live region, changing at most once per
+ * interval. The latest message always wins, so a burst of repeats is
+ * announced once with the final count rather than dropped.
+ */
+export function useAnnouncement(message: string) {
+    const [announced, setAnnounced] = useState('');
+    const lastRef = useRef(0);
+
+    useEffect(() => {
+        if (!message) return;
+        const wait = Math.max(lastRef.current + MIN_INTERVAL_MS - Date.now(), 0);
+        const timeout = setTimeout(() => {
+            lastRef.current = Date.now();
+            setAnnounced(message);
+        }, wait);
+        return () => clearTimeout(timeout);
+    }, [message]);
+
+    return announced;
+}
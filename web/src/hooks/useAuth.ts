@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { onIdTokenChanged, type User } from 'firebase/auth';
+import { auth } from '../firebase';
+import { completePendingSignIn, signInErrorKey } from '../lib/auth';
+import { getLocale, translate, type MessageKey } from '../lib/i18n';
+import { debugError } from '../logger';
+
+/**
+ * The signed-in user, anonymous ones included. Also finishes a redirect or
+ * email-link sign-in that brought the user back to the app; `error` is set
+ * when that failed.
+ */
+export function useAuth() {
+    const [user, setUser] = useState<User | null>(null);
+    // Linking a provider updates the same User object, so this is what changes when a guest is upgraded
+    const [isAnonymous, setIsAnonymous] = useState(false);
+    const [error, setError] = useState<MessageKey | null>(null);
+
+    useEffect(() => onIdTokenChanged(auth, current => {
+        setUser(current);
+        setIsAnonymous(current?.isAnonymous ?? false);
+    }), []);
+
+    useEffect(() => {
+        completePendingSignIn(() => window.prompt(translate(getLocale(), 'auth.confirmEmail')))
+            .catch(e => {
+                debugError('Error completing sign-in: ', e);
+                setError(signInErrorKey(e));
+            });
+    }, []);
+
+    return { user, isAnonymous, error, clearError: () => setError(null) };
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { User } from 'firebase/auth';
+import {
+    createCircle,
+    currentSummary,
+    deleteCircle,
+    isSitting,
+    joinCircle,
+    leaveCircle,
+    listCircles,
+    PRESENCE_HEARTBEAT_MS,
+    PRESENCE_TIMEOUT_MS,
+    publishSummary,
+    replaceInviteCode,
+    setSitting,
+    watchMembers,
+} from '../lib/circles';
+import { debugError } from '../logger';
+import type { Circle, CircleMember } from '../types';
+
+const SITTING_TABS_KEY = 'circleSittingTabs';
+const TAB_ID = crypto.randomUUID();
+
+const readSittingTabs = (): Record<string, number> => {
+    try {
+        return JSON.parse(localStorage.getItem(SITTING_TABS_KEY) ?? 'null') ?? {};
+    } catch {
+        return {};
+    }
+};
+
+// Every tab of a live session keeps the user sitting. Each one is listed until its heartbeat
+// lapses; marking this tab tells whether another is still sitting, so closing one doesn't end it.
+const markTabSitting = (sitting: boolean) => {
+    const now = Date.now();
+    const tabs = Object.fromEntries(
+        Object.entries(readSittingTabs()).filter(([tab, until]) => tab !== TAB_ID && until > now)
+    );
+    const othersSitting = Object.keys(tabs).length > 0;
+    if (sitting) tabs[TAB_ID] = now + PRESENCE_TIMEOUT_MS;
+    localStorage.setItem(SITTING_TABS_KEY, JSON.stringify(tabs));
+    return othersSitting;
+};
+
+/**
+ * The user's circles and their members, kept live. While `sittingSince` is
+ * set the user shows as sitting in every circle; `refreshKey` republishes
+ * their summary, as in useTodayStats.
+ */
+export function useCircles(user: User | null, sittingSince: number | null, refreshKey: number) {
+    const [loaded, setLoaded] = useState<{ uid: string; circles: Circle[] } | null>(null);
+    const [members, setMembers] = useState<Record<string, CircleMember[]>>({});
+    const [version, setVersion] = useState(0);
+    // Presence goes stale without anything changing, so "now" has to tick
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), PRESENCE_HEARTBEAT_MS / 2);
+        return () => clearInterval(interval);
+    }, []);
+
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        listCircles(user.uid)
+            .then(circles => {
+                if (!cancelled) setLoaded({ uid: user.uid, circles });
+            })
+            .catch(e => debugError('Error fetching circles: ', e));
+        return () => {
+            cancelled = true;
+        };
+    }, [user, version]);
+
+    const circles = useMemo(
+        () => (user && loaded?.uid === user.uid ? loaded.circles : []),
+        [user, loaded]
+    );
+    // Effects below depend on which circles there are, not on the array's identity
+    const circleKey = circles.map(c => c.id).join(',');
+
+    useEffect(() => {
+        if (!circleKey) return;
+        const unsubscribes = circleKey.split(',').map(circleId =>
+            watchMembers(circleId, list => setMembers(prev => ({ ...prev, [circleId]: list })))
+        );
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    }, [circleKey]);
+
+    useEffect(() => {
+        if (!user || !circleKey) return;
+        currentSummary(user.uid)
+            .then(summary => publishSummary(user.uid, circleKey.split(','), summary))
+            .catch(e => debugError('Error publishing circle summary: ', e));
+    }, [user, circleKey, refreshKey]);
+
+    useEffect(() => {
+        if (!user || !circleKey || sittingSince === null) return;
+        const circleIds = circleKey.split(',');
+        const update = (since: number | null) =>
+            setSitting(user.uid, circleIds, since).catch(e => debugError('Error updating presence: ', e));
+        const beat = () => {
+            markTabSitting(true);
+            update(sittingSince);
+        };
+        const stop = () => {
+            if (!markTabSitting(false)) update(null);
+        };
+
+        beat();
+        const interval = setInterval(beat, PRESENCE_HEARTBEAT_MS);
+        // Closing the last sitting tab mid-session shouldn't leave the user sitting until the timeout
+        window.addEventListener('pagehide', stop);
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('pagehide', stop);
+            stop();
+        };
+    }, [user, circleKey, sittingSince]);
+
+    const membersOf = useCallback((circleId: string) => members[circleId] ?? [], [members]);
+
+    // Everyone else sitting right now, once each however many circles they share
+    const sittingNow = useMemo(() => {
+        const seen = new Map<string, CircleMember>();
+        circles.forEach(circle => (members[circle.id] ?? []).forEach(member => {
+            if (member.userId !== user?.uid && isSitting(member, now)) seen.set(member.userId, member);
+        }));
+        return [...seen.values()];
+    }, [circles, members, user, now]);
+
+    // Each action reloads the list once it has gone through
+    const reloading = <A extends unknown[], R>(action: (...args: A) => Promise<R>) => async (...args: A) => {
+        const result = await action(...args);
+        setVersion(v => v + 1);
+        return result;
+    };
+
+    const requireUser = () => {
+        if (!user) throw new Error('Circles need a signed-in user');
+        return user.uid;
+    };
+
+    return {
+        circles,
+        membersOf,
+        sittingNow,
+        now,
+        create: reloading(async (name: string, displayName: string) => {
+            const uid = requireUser();
+            return createCircle(uid, name, displayName, await currentSummary(uid));
+        }),
+        join: reloading(async (code: string, displayName: string) => {
+            const uid = requireUser();
+            return joinCircle(uid, code, displayName, await currentSummary(uid), circles.map(c => c.id));
+        }),
+        leave: reloading((circle: Circle) => leaveCircle(requireUser(), circle)),
+        remove: reloading(deleteCircle),
+        replaceCode: reloading((circle: Circle) => replaceInviteCode(requireUser(), circle)),
+    };
+}
+
+export type Circles = ReturnType<typeof useCircles>;
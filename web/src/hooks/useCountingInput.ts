@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { DEFAULT_INPUT_BINDINGS } from '../data/inputBindings';
+import { bindMediaKeys, startSilentPlayback, stopSilentPlayback, type MediaKeyAction } from '../lib/mediaKeys';
+import type { InputBindings } from '../types';
+
+const STORAGE_KEY = 'inputBindings';
+
+const loadBindings = (): InputBindings => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? { ...DEFAULT_INPUT_BINDINGS, ...JSON.parse(saved) } : DEFAULT_INPUT_BINDINGS;
+    } catch {
+        return DEFAULT_INPUT_BINDINGS;
+    }
+};
+
+// Typing in a field must never count, and a focused control or open dialog keeps its own keys
+const ownsKeys = (target: EventTarget | null) =>
+    target instanceof HTMLElement
+    && (target.isContentEditable
+        || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON', 'A'].includes(target.tagName)
+        || target.closest('[role="button"], [role="dialog"]') !== null);
+
+/**
+ * Routes keyboard, media-key and on-screen input to the same two actions.
+ * Every source goes through one guard per action, so a remote that sends
+ * two events per press counts once. Keys pressed on a focused button or
+ * inside a dialog are left to it, and keyboard input is ignored while
+ * `enabled` is false.
+ */
+export function useCountingInput(onIncrement: () => void, onLostFocus: () => void, enabled = true) {
+    const [bindings, setBindingsState] = useState(loadBindings);
+    const lastFiredRef = useRef<Record<MediaKeyAction, number>>({ increment: 0, lostFocus: 0 });
+    const handlersRef = useRef({ onIncrement, onLostFocus });
+
+    useEffect(() => {
+        handlersRef.current = { onIncrement, onLostFocus };
+    }, [onIncrement, onLostFocus]);
+
+    const setBindings = useCallback((update: Partial<InputBindings>) => {
+        setBindingsState(prev => {
+            const next = { ...prev, ...update };
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+            return next;
+        });
+    }, []);
+
+    const fire = useCallback((action: MediaKeyAction) => {
+        const now = Date.now();
+        if (now - lastFiredRef.current[action] < bindings.guardMs) return;
+        lastFiredRef.current[action] = now;
+        // After a reload media keys stay silent until the first gesture restarts playback
+        if (bindings.mediaKeys) startSilentPlayback().catch(() => {});
+        if (action === 'increment') handlersRef.current.onIncrement();
+        else handlersRef.current.onLostFocus();
+    }, [bindings.guardMs, bindings.mediaKeys]);
+
+    const increment = useCallback(() => fire('increment'), [fire]);
+    const lostFocus = useCallback(() => fire('lostFocus'), [fire]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        const actionFor = (e: KeyboardEvent): MediaKeyAction | null => {
+            if (e.ctrlKey || e.metaKey || e.altKey || ownsKeys(e.target)) return null;
+            if (e.code === bindings.incrementKey) return 'increment';
+            if (e.code === bindings.lostFocusKey) return 'lostFocus';
+            return null;
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const action = actionFor(e);
+            if (!action) return;
+            // Stops Space from scrolling the page
+            e.preventDefault();
+            if (!e.repeat) fire(action);
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (actionFor(e)) e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, [enabled, bindings.incrementKey, bindings.lostFocusKey, fire]);
+
+    useEffect(() => {
+        if (!bindings.mediaKeys) return;
+        const unbind = bindMediaKeys(fire);
+        return () => {
+            unbind();
+            stopSilentPlayback();
+        };
+    }, [bindings.mediaKeys, fire]);
+
+    return { bindings, setBindings, increment, lostFocus };
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keyboard behaviour for the overlay panels: focus moves into the panel when
+ * it opens, Tab stays inside it, Escape closes it, and focus returns to
+ * whatever opened it afterwards.
+ */
+export function useDialog<T extends HTMLElement>(onClose: () => void) {
+    const ref = useRef<T>(null);
+    const onCloseRef = useRef(onClose);
+
+    useEffect(() => {
+        onCloseRef.current = onClose;
+    }, [onClose]);
+
+    useEffect(() => {
+        const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        ref.current?.focus();
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const panel = ref.current;
+            if (!panel) return;
+            if (e.key === 'Escape') {
+                e.stopPropagation();
+                onCloseRef.current();
+                return;
+            }
+            if (e.key !== 'Tab') return;
+            const focusable = Array.from(panel.querySelectorAll<HTMLElement>(FOCUSABLE));
+            if (focusable.length === 0) return;
+            const first = focusable[0];
+            const last = focusable[focusable.length - 1];
+            if (e.shiftKey && (document.activeElement === first || document.activeElement === panel)) {
+                e.preventDefault();
+                last.focus();
+            } else if (!e.shiftKey && document.activeElement === last) {
+                e.preventDefault();
+                first.focus();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+            opener?.focus();
+        };
+    }, []);
+
+    return ref;
+}
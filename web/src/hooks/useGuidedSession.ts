@@ -0,0 +1,65 @@
+import { useState, useEffect, useRef } from 'react';
+import { playCompletionChime, playIntervalChime } from '../lib/chime';
+import type { SessionGoal } from '../types';
+
+const AUTO_SAVE_CLAIM_KEY = 'guidedAutoSave';
+
+// Every open tab runs the same timer; only the first to claim a session may auto-save it
+const claimAutoSave = (startTime: number) => {
+    if (localStorage.getItem(AUTO_SAVE_CLAIM_KEY) === String(startTime)) return false;
+    localStorage.setItem(AUTO_SAVE_CLAIM_KEY, String(startTime));
+    return true;
+};
+
+export const getGoalProgress = (goal: SessionGoal, startTime: number | null, count: number, now: number) => {
+    if (goal.type === 'count') return Math.min(count / goal.target, 1);
+    if (startTime === null) return 0;
+    return Math.min(Math.max(now - startTime, 0) / (goal.target * 60 * 1000), 1);
+};
+
+export function useGuidedSession(
+    goal: SessionGoal | null,
+    startTime: number | null,
+    count: number,
+    onComplete: () => void
+) {
+    const [now, setNow] = useState(() => Date.now());
+    const onCompleteRef = useRef(onComplete);
+    const lastChimeRef = useRef(0);
+    const completedRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        onCompleteRef.current = onComplete;
+    }, [onComplete]);
+
+    useEffect(() => {
+        if (!goal || startTime === null) return;
+        lastChimeRef.current = Math.floor((Date.now() - startTime) / 1000 / (goal.chimeInterval || Infinity));
+        const interval = setInterval(() => {
+            const current = Date.now();
+            setNow(current);
+            if (goal.chimeInterval > 0) {
+                const chimeIndex = Math.floor((current - startTime) / 1000 / goal.chimeInterval);
+                if (chimeIndex > lastChimeRef.current) {
+                    lastChimeRef.current = chimeIndex;
+                    playIntervalChime();
+                }
+            }
+        }, 1000);
+        return () => clearInterval(interval);
+    }, [goal, startTime]);
+
+    const progress = goal ? getGoalProgress(goal, startTime, count, now) : 0;
+    const remainingMs = goal?.type === 'duration' && startTime !== null
+        ? Math.max(goal.target * 60 * 1000 - Math.max(now - startTime, 0), 0)
+        : null;
+
+    useEffect(() => {
+        if (!goal || startTime === null || progress < 1 || completedRef.current === startTime) return;
+        completedRef.current = startTime;
+        playCompletionChime();
+        if (claimAutoSave(startTime)) onCompleteRef.current();
+    }, [goal, startTime, progress]);
+
+    return { progress, remainingMs };
+}
@@ -0,0 +1,35 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import {
+    formatDate,
+    formatDuration,
+    formatList,
+    formatNumber,
+    formatTime,
+    getLocale,
+    localeDirection,
+    setLocale,
+    subscribeLocale,
+    translate,
+    type MessageKey,
+    type MessageParams,
+} from '../lib/i18n';
+
+/**
+ * The active locale with its translator and formatters bound to it. Every
+ * component using it re-renders when the language is switched.
+ */
+export function useI18n() {
+    const locale = useSyncExternalStore(subscribeLocale, getLocale);
+
+    return useMemo(() => ({
+        locale,
+        dir: localeDirection(locale),
+        setLocale,
+        t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+        formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) => formatDate(locale, date, options),
+        formatTime: (date: Date) => formatTime(locale, date),
+        formatDuration: (ms: number) => formatDuration(locale, ms),
+        formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+        formatList: (items: string[]) => formatList(locale, items),
+    }), [locale]);
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { debugError } from '../logger';
+import type { LiveSession } from '../types';
+
+const STORAGE_KEY = 'liveSession';
+const CHANNEL_NAME = 'relax-live-session';
+// A session untouched for this long gets a resume/discard prompt instead of silently continuing
+const STALE_AFTER_MS = 3 * 60 * 60 * 1000;
+
+const emptySession = (): LiveSession => ({
+    counts: {},
+    lostFocusCount: 0,
+    startTime: null,
+    mantraId: null,
+    events: [],
+    goal: null,
+    pacing: null,
+    soundscape: null,
+    checkInBefore: null,
+    updatedAt: Date.now(),
+});
+
+export const hasActivity = (session: LiveSession) =>
+    session.lostFocusCount > 0 || Object.values(session.counts).some(c => c > 0);
+
+const readStoredSession = (): LiveSession | null => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? { ...emptySession(), ...JSON.parse(saved) } : null;
+    } catch (e) {
+        debugError('Error reading live session: ', e);
+        return null;
+    }
+};
+
+const isStale = (session: LiveSession) => hasActivity(session) && Date.now() - session.updatedAt > STALE_AFTER_MS;
+
+const loadInitialState = () => {
+    const stored = readStoredSession();
+    if (stored && isStale(stored)) {
+        return { session: { ...emptySession(), mantraId: stored.mantraId }, stale: stored };
+    }
+    return { session: stored ?? emptySession(), stale: null };
+};
+
+export function useLiveSession() {
+    const [initial] = useState(loadInitialState);
+    const [session, setSession] = useState<LiveSession>(initial.session);
+    const [staleSession, setStaleSession] = useState<LiveSession | null>(initial.stale);
+    const channelRef = useRef<BroadcastChannel | null>(null);
+    // The last state received from another tab, so it isn't echoed back
+    const remoteRef = useRef<LiveSession | null>(null);
+    const sessionRef = useRef(session);
+
+    useEffect(() => {
+        sessionRef.current = session;
+    }, [session]);
+
+    // A tab left open for hours gets the same prompt when the user comes back to it
+    useEffect(() => {
+        const checkStale = () => {
+            if (document.visibilityState !== 'visible') return;
+            const current = sessionRef.current;
+            if (!isStale(current)) return;
+            setStaleSession(previous => previous ?? current);
+            setSession({ ...emptySession(), mantraId: current.mantraId });
+        };
+        document.addEventListener('visibilitychange', checkStale);
+        window.addEventListener('focus', checkStale);
+        return () => {
+            document.removeEventListener('visibilitychange', checkStale);
+            window.removeEventListener('focus', checkStale);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (typeof BroadcastChannel === 'undefined') return;
+        const channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.onmessage = (event: MessageEvent<LiveSession>) => {
+            remoteRef.current = event.data;
+            setSession(event.data);
+        };
+        channelRef.current = channel;
+        return () => {
+            channel.close();
+            channelRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (remoteRef.current === session) return;
+        // Keep the stale session on disk until the user decides what to do with it
+        if (staleSession && !hasActivity(session)) return;
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+        } catch (e) {
+            debugError('Error persisting live session: ', e);
+        }
+        channelRef.current?.postMessage(session);
+    }, [session, staleSession]);
+
+    const updateLiveSession = useCallback((update: (prev: LiveSession) => Partial<LiveSession>) => {
+        setSession(prev => ({ ...prev, ...update(prev), updatedAt: Date.now() }));
+    }, []);
+
+    const resumeStaleSession = useCallback(() => {
+        if (!staleSession) return;
+        // Shift the start forward by the idle gap so the saved duration only covers time actually practised
+        const idle = Date.now() - staleSession.updatedAt;
+        setSession({
+            ...staleSession,
+            startTime: staleSession.startTime !== null ? staleSession.startTime + idle : null,
+            events: staleSession.events.map(e => ({ ...e, at: e.at + idle })),
+            updatedAt: Date.now(),
+        });
+        setStaleSession(null);
+    }, [staleSession]);
+
+    const discardStaleSession = useCallback(() => {
+        setStaleSession(null);
+    }, []);
+
+    return { liveSession: session, updateLiveSession, staleSession, resumeStaleSession, discardStaleSession };
+}
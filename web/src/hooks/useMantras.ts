@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { collection, doc, getDocs, query, where, writeBatch, serverTimestamp } from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { db } from '../firebase';
+import { defaultMantras, MAX_MANTRA_LENGTH, sortMantras } from '../data/mantras';
+import { debugError } from '../logger';
+import type { Locale, Mantra } from '../types';
+
+const GUEST_STORAGE_KEY = 'mantras';
+
+const loadGuestMantras = (locale: Locale): Mantra[] => {
+    try {
+        const saved = localStorage.getItem(GUEST_STORAGE_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved) as Mantra[];
+            if (Array.isArray(parsed) && parsed.some(m => !m.archived)) return sortMantras(parsed);
+        }
+    } catch (e) {
+        debugError('Error reading guest mantras: ', e);
+    }
+    return defaultMantras(locale);
+};
+
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ').slice(0, MAX_MANTRA_LENGTH);
+
+export function useMantras(user: User | null, locale: Locale) {
+    const [guestMantras, setGuestMantras] = useState<Mantra[]>(() => loadGuestMantras(locale));
+    const [remote, setRemote] = useState<{ uid: string; mantras: Mantra[] } | null>(null);
+    // Only a first sign-in's seeding reads the language, so changing it doesn't load the mantras again
+    const localeRef = useRef(locale);
+    const uid = user?.uid ?? null;
+
+    useEffect(() => {
+        localeRef.current = locale;
+    }, [locale]);
+
+    useEffect(() => {
+        localStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(guestMantras));
+    }, [guestMantras]);
+
+    useEffect(() => {
+        if (!uid) return;
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const snapshot = await getDocs(query(collection(db, 'mantras'), where('userId', '==', uid)));
+                let loaded = snapshot.docs.map(d => ({
+                    id: d.id,
+                    text: d.data().text,
+                    order: d.data().order ?? 0,
+                    archived: d.data().archived ?? false,
+                })) as Mantra[];
+
+                // First sign-in: seed the account with the default set. Deterministic ids keep this idempotent.
+                if (loaded.length === 0) {
+                    const batch = writeBatch(db);
+                    loaded = defaultMantras(localeRef.current).map(m => ({ ...m, id: `${uid}_${m.id}` }));
+                    loaded.forEach(m => {
+                        batch.set(doc(db, 'mantras', m.id), {
+                            userId: uid,
+                            text: m.text,
+                            order: m.order,
+                            archived: m.archived,
+                            createdAt: serverTimestamp(),
+                        });
+                    });
+                    await batch.commit();
+                }
+                if (!cancelled) setRemote({ uid, mantras: sortMantras(loaded) });
+            } catch (e) {
+                debugError('Error fetching mantras: ', e);
+            }
+        };
+        load();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [uid]);
+
+    // Until the account's own mantras arrive, the defaults are only shown: their ids aren't the account's
+    const isLoaded = !user || remote?.uid === user.uid;
+    const mantras = user
+        ? (remote?.uid === user.uid ? remote.mantras : defaultMantras(locale))
+        : guestMantras;
+    const activeMantras = mantras.filter(m => !m.archived);
+
+    // Applies the change locally, then persists only the mantras whose fields differ
+    const apply = useCallback(async (next: Mantra[]) => {
+        const sorted = sortMantras(next);
+        if (!user) {
+            setGuestMantras(sorted);
+            return;
+        }
+        // Ignore edits until the account's mantras have loaded
+        if (remote?.uid !== user.uid) return;
+        const previous = remote.mantras;
+        setRemote({ uid: user.uid, mantras: sorted });
+        try {
+            const batch = writeBatch(db);
+            sorted.forEach(m => {
+                const before = previous.find(p => p.id === m.id);
+                if (!before) {
+                    batch.set(doc(db, 'mantras', m.id), {
+                        userId: user.uid,
+                        text: m.text,
+                        order: m.order,
+                        archived: m.archived,
+                        createdAt: serverTimestamp(),
+                    });
+                } else if (before.text !== m.text || before.order !== m.order || before.archived !== m.archived) {
+                    batch.update(doc(db, 'mantras', m.id), {
+                        text: m.text,
+                        order: m.order,
+                        archived: m.archived,
+                    });
+                }
+            });
+            await batch.commit();
+        } catch (e) {
+            debugError('Error saving mantras: ', e);
+            setRemote({ uid: user.uid, mantras: previous });
+        }
+    }, [user, remote]);
+
+    const createMantra = useCallback((text: string) => {
+        const normalized = normalizeText(text);
+        if (!normalized) return;
+        const id = user ? doc(collection(db, 'mantras')).id : crypto.randomUUID();
+        const order = mantras.reduce((max, m) => Math.max(max, m.order + 1), 0);
+        apply([...mantras, { id, text: normalized, order, archived: false }]);
+    }, [user, mantras, apply]);
+
+    const renameMantra = useCallback((id: string, text: string) => {
+        const normalized = normalizeText(text);
+        if (!normalized) return;
+        apply(mantras.map(m => (m.id === id ? { ...m, text: normalized } : m)));
+    }, [mantras, apply]);
+
+    const moveMantra = useCallback((id: string, direction: -1 | 1) => {
+        const index = mantras.findIndex(m => m.id === id);
+        const target = index + direction;
+        if (index < 0 || target < 0 || target >= mantras.length) return;
+        const reordered = [...mantras];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        apply(reordered.map((m, i) => ({ ...m, order: i })));
+    }, [mantras, apply]);
+
+    const setMantraArchived = useCallback((id: string, archived: boolean) => {
+        // Always keep at least one mantra to practise with
+        if (archived && activeMantras.length <= 1) return;
+        apply(mantras.map(m => (m.id === id ? { ...m, archived } : m)));
+    }, [mantras, activeMantras.length, apply]);
+
+    return { mantras, activeMantras, isLoaded, createMantra, renameMantra, moveMantra, setMantraArchived };
+}
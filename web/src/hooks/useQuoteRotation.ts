@@ -0,0 +1,82 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Quote } from '../types';
+
+type Side = 'left' | 'right';
+
+interface Slot {
+    id: string | null;
+    visible: boolean;
+}
+
+// Each side changes every 12s, staggered so only one fades at a time
+const SIDE_INTERVAL_MS = 6000;
+const FADE_MS = 1000;
+
+const pickOther = (pool: Quote[], exclude: (string | null)[]) => {
+    const candidates = pool.filter(q => !exclude.includes(q.id));
+    if (candidates.length === 0) return null;
+    return candidates[Math.floor(Math.random() * candidates.length)].id;
+};
+
+/**
+ * Drives both quote sidebars from one place so they never show the same
+ * quote. When the pool changes (a new filter), any side whose quote left the
+ * pool is refilled straight away. While paused both sides hold their quote.
+ */
+export function useQuoteRotation(pool: Quote[], paused = false) {
+    const poolKey = pool.map(q => q.id).join('|');
+    const [slots, setSlots] = useState<{ poolKey: string; left: Slot; right: Slot }>(() => {
+        const left = pickOther(pool, []);
+        return {
+            poolKey,
+            left: { id: left, visible: true },
+            right: { id: pickOther(pool, [left]), visible: true },
+        };
+    });
+    const poolRef = useRef(pool);
+
+    useEffect(() => {
+        poolRef.current = pool;
+    }, [pool]);
+
+    // Adjusting state during render keeps both sides valid without an extra frame
+    if (slots.poolKey !== poolKey) {
+        const inPool = (id: string | null) => pool.some(q => q.id === id);
+        const left = inPool(slots.left.id) ? slots.left.id : pool.find(q => q.id !== slots.right.id)?.id ?? null;
+        const right = inPool(slots.right.id) && slots.right.id !== left
+            ? slots.right.id
+            : pool.find(q => q.id !== left)?.id ?? null;
+        setSlots({ poolKey, left: { id: left, visible: true }, right: { id: right, visible: true } });
+    }
+
+    useEffect(() => {
+        if (paused) return;
+        let next: Side = 'left';
+        let fadeTimeout: number | undefined;
+        const interval = setInterval(() => {
+            const side = next;
+            next = side === 'left' ? 'right' : 'left';
+            setSlots(prev => ({ ...prev, [side]: { ...prev[side], visible: false } }));
+            fadeTimeout = window.setTimeout(() => {
+                setSlots(prev => {
+                    const id = pickOther(poolRef.current, [prev.left.id, prev.right.id]) ?? prev[side].id;
+                    return { ...prev, [side]: { id, visible: true } };
+                });
+            }, FADE_MS);
+        }, SIDE_INTERVAL_MS);
+        return () => {
+            clearInterval(interval);
+            clearTimeout(fadeTimeout);
+            // Pausing mid-fade would otherwise leave that side blank
+            setSlots(prev => prev.left.visible && prev.right.visible
+                ? prev
+                : { ...prev, left: { ...prev.left, visible: true }, right: { ...prev.right, visible: true } });
+        };
+    }, [paused]);
+
+    const byId = (id: string | null) => pool.find(q => q.id === id) ?? null;
+    return {
+        left: { quote: byId(slots.left.id), visible: slots.left.visible },
+        right: { quote: byId(slots.right.id), visible: slots.right.visible },
+    };
+}
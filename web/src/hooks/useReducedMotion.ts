@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+const subscribe = (onChange: () => void) => {
+    const media = window.matchMedia(QUERY);
+    media.addEventListener('change', onChange);
+    return () => media.removeEventListener('change', onChange);
+};
+
+const getSnapshot = () => window.matchMedia(QUERY).matches;
+
+// Follows the system setting live, so turning it on mid-session takes effect at once
+export function useReducedMotion() {
+    return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { useI18n } from './useI18n';
+import { checkReminders, saveReminderState, setBackgroundChecks } from '../lib/reminders';
+import { debugError } from '../logger';
+import type { DailyGoal } from '../types';
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Keeps the shared reminder record current and checks it while the app is open
+export function useReminders(times: string[], goal: DailyGoal | null, goalMetDate: string | null) {
+    const timesKey = times.join(',');
+    const { t } = useI18n();
+
+    useEffect(() => {
+        const body = goal
+            ? t('reminder.goalBody', { target: goal.target, unit: t(`goal.unit.${goal.metric}`) })
+            : t('reminder.body');
+        saveReminderState({ times: timesKey ? timesKey.split(',') : [], goalMetDate, title: t('reminder.title'), body })
+            .catch(e => debugError('Error saving reminders: ', e));
+    }, [timesKey, goal, goalMetDate, t]);
+
+    useEffect(() => {
+        setBackgroundChecks(timesKey !== '').catch(e => debugError('Error scheduling reminder checks: ', e));
+        if (!timesKey) return;
+        const interval = setInterval(() => {
+            checkReminders().catch(e => debugError('Error showing reminder: ', e));
+        }, CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [timesKey]);
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { debugError } from '../logger';
+
+// New builds are looked for at most this often while the app stays open
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker in production builds and reports when a new
+ * build has been downloaded. The new worker waits until `applyUpdate` is
+ * called, so a session in progress is never reloaded from under the user.
+ */
+export function useServiceWorker() {
+    const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+    // Set when the user accepts the prompt in this tab; nothing else may reload it
+    const updateAccepted = useRef(false);
+
+    useEffect(() => {
+        if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+        let interval: number | undefined;
+
+        const watch = (registration: ServiceWorkerRegistration) => {
+            // Only an update if a worker already controls the page; the first install is silent
+            if (registration.waiting && navigator.serviceWorker.controller) {
+                setWaitingWorker(registration.waiting);
+            }
+            registration.addEventListener('updatefound', () => {
+                const installing = registration.installing;
+                installing?.addEventListener('statechange', () => {
+                    if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+                        setWaitingWorker(installing);
+                    }
+                });
+            });
+        };
+
+        navigator.serviceWorker.register('/sw.js')
+            .then((registration) => {
+                watch(registration);
+                interval = window.setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+            })
+            .catch((e) => debugError('Service worker registration failed: ', e));
+
+        // The first install also changes the controller, through clients.claim()
+        let hadController = navigator.serviceWorker.controller !== null;
+        let reloading = false;
+        const handleControllerChange = () => {
+            const replaced = hadController;
+            hadController = true;
+            if (reloading || !replaced || !updateAccepted.current) return;
+            reloading = true;
+            window.location.reload();
+        };
+        navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+
+        return () => {
+            clearInterval(interval);
+            navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+        };
+    }, []);
+
+    const applyUpdate = useCallback(() => {
+        if (!waitingWorker) return;
+        updateAccepted.current = true;
+        waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+    }, [waitingWorker]);
+
+    const dismissUpdate = useCallback(() => setWaitingWorker(null), []);
+
+    return { updateAvailable: waitingWorker !== null, applyUpdate, dismissUpdate };
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { User } from 'firebase/auth';
+import { claimGuestSessions, enqueueSession, listLocalSessions, syncPendingSessions } from '../lib/sessionQueue';
+import { debugError } from '../logger';
+import type { LocalSession, SessionRecord } from '../types';
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+export function useSessionQueue(user: User | null, onSynced: () => void) {
+    const [localSessions, setLocalSessions] = useState<LocalSession[]>([]);
+
+    const refresh = useCallback(async () => {
+        try {
+            setLocalSessions(await listLocalSessions());
+        } catch (e) {
+            debugError('Error reading local sessions: ', e);
+        }
+    }, []);
+
+    const sync = useCallback(async () => {
+        if (!user || !navigator.onLine) return;
+        try {
+            const synced = await syncPendingSessions(user.uid);
+            await refresh();
+            if (synced > 0) onSynced();
+        } catch (e) {
+            debugError('Error syncing sessions: ', e);
+        }
+    }, [user, refresh, onSynced]);
+
+    // Migrate guest sessions into the account as soon as someone signs in
+    useEffect(() => {
+        const run = async () => {
+            try {
+                if (user) await claimGuestSessions(user.uid);
+            } catch (e) {
+                debugError('Error migrating guest sessions: ', e);
+            }
+            await refresh();
+            await sync();
+        };
+        run();
+    }, [user, refresh, sync]);
+
+    useEffect(() => {
+        const handleOnline = () => {
+            sync();
+        };
+        window.addEventListener('online', handleOnline);
+        const interval = setInterval(handleOnline, RETRY_INTERVAL_MS);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            clearInterval(interval);
+        };
+    }, [sync]);
+
+    const enqueue = useCallback(async (record: SessionRecord) => {
+        await enqueueSession(record, user?.uid ?? null);
+        await refresh();
+        sync();
+    }, [user, refresh, sync]);
+
+    const ownerId = user?.uid ?? null;
+    const pendingSessions = localSessions.filter(s => s.ownerId === ownerId && s.status === 'pending');
+    // Guests have no remote history, so everything stored on the device is their history
+    const guestSessions = user ? [] : localSessions.filter(s => s.ownerId === null);
+
+    return { pendingSessions, guestSessions, enqueue, refresh };
+}
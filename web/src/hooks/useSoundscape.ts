@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef } from 'react';
+import { isSilent } from '../data/soundscapes';
+import { setSoundscapeMix, startSoundscape, stopSoundscape } from '../lib/soundscape';
+import type { SessionSoundscape } from '../types';
+
+const FADE_IN_SECONDS = 3;
+const FADE_OUT_SECONDS = 4;
+// Falling asleep to it shouldn't be interrupted by a sudden stop
+const SLEEP_FADE_SECONDS = 30;
+
+/**
+ * Plays the soundscape while a session is running, fading in when it starts
+ * and out once it is saved or reset. The sleep timer fades it out early and
+ * keeps it quiet until the session ends.
+ */
+export function useSoundscape(soundscape: SessionSoundscape | null, running: boolean) {
+    const [sleepUntil, setSleepUntil] = useState<number | null>(null);
+    const [asleep, setAsleep] = useState(false);
+    const [wasRunning, setWasRunning] = useState(running);
+    const fadeOutRef = useRef(FADE_OUT_SECONDS);
+    const mix = soundscape?.mix ?? null;
+    const mixRef = useRef(mix);
+
+    // A new session starts with sound again
+    if (wasRunning !== running) {
+        setWasRunning(running);
+        if (!running) setAsleep(false);
+    }
+
+    const playing = mix !== null && !isSilent(mix) && running && !asleep;
+
+    useEffect(() => {
+        mixRef.current = mix;
+        if (mix) setSoundscapeMix(mix);
+    }, [mix]);
+
+    useEffect(() => {
+        if (playing && mixRef.current) {
+            startSoundscape(mixRef.current, FADE_IN_SECONDS);
+        } else {
+            stopSoundscape(fadeOutRef.current);
+            fadeOutRef.current = FADE_OUT_SECONDS;
+        }
+    }, [playing]);
+
+    useEffect(() => () => stopSoundscape(FADE_OUT_SECONDS), []);
+
+    useEffect(() => {
+        if (sleepUntil === null) return;
+        const timeout = setTimeout(() => {
+            fadeOutRef.current = SLEEP_FADE_SECONDS;
+            setAsleep(true);
+            setSleepUntil(null);
+        }, Math.max(sleepUntil - Date.now(), 0));
+        return () => clearTimeout(timeout);
+    }, [sleepUntil]);
+
+    const setSleepTimer = (minutes: number) => {
+        setSleepUntil(minutes > 0 ? Date.now() + minutes * 60 * 1000 : null);
+        setAsleep(false);
+    };
+
+    return { playing, sleepUntil, setSleepTimer };
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+import { backgroundCss, clearBackgroundImage, loadBackgroundImage, paletteVariables, resolveDark, saveBackgroundImage } from '../lib/theme';
+import { debugError } from '../logger';
+import type { ThemePreference } from '../types';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const subscribe = (onChange: () => void) => {
+    const media = window.matchMedia(DARK_QUERY);
+    media.addEventListener('change', onChange);
+    return () => media.removeEventListener('change', onChange);
+};
+
+const getSnapshot = () => window.matchMedia(DARK_QUERY).matches;
+
+/**
+ * Applies a theme preference to the page: the dark-mode class, the palette's
+ * accent colours and the background. The uploaded background image lives in
+ * IndexedDB on this device only; other devices fall back to the stylesheet
+ * default until an image is uploaded there too.
+ */
+export function useTheme(theme: ThemePreference) {
+    const systemDark = useSyncExternalStore(subscribe, getSnapshot);
+    const [now, setNow] = useState(() => new Date());
+    const [imageUrl, setImageUrl] = useState<string | null>(null);
+    const imageUrlRef = useRef<string | null>(null);
+
+    // The clock only needs to tick when the mode depends on it
+    useEffect(() => {
+        if (theme.mode !== 'schedule') return;
+        const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, [theme.mode]);
+
+    const showImage = useCallback((image: Blob | undefined) => {
+        if (imageUrlRef.current) URL.revokeObjectURL(imageUrlRef.current);
+        imageUrlRef.current = image ? URL.createObjectURL(image) : null;
+        setImageUrl(imageUrlRef.current);
+    }, []);
+
+    useEffect(() => {
+        loadBackgroundImage()
+            .then(showImage)
+            .catch(e => debugError('Error loading background image: ', e));
+        return () => {
+            if (imageUrlRef.current) URL.revokeObjectURL(imageUrlRef.current);
+        };
+    }, [showImage]);
+
+    const isDark = resolveDark(theme, systemDark, now);
+
+    useEffect(() => {
+        const body = document.body;
+        body.classList.toggle('dark-mode', isDark);
+        const variables = paletteVariables(theme, isDark);
+        Object.entries(variables).forEach(([name, value]) => body.style.setProperty(name, value));
+        const background = backgroundCss(theme, isDark, imageUrl);
+        if (background) {
+            body.style.setProperty('--app-background', background);
+        } else {
+            body.style.removeProperty('--app-background');
+        }
+        document.querySelector('meta[name="theme-color"]')?.setAttribute('content', variables['--primary-color']);
+    }, [theme, isDark, imageUrl]);
+
+    const setBackgroundImage = useCallback(async (image: Blob) => {
+        await saveBackgroundImage(image);
+        showImage(image);
+    }, [showImage]);
+
+    const removeBackgroundImage = useCallback(async () => {
+        await clearBackgroundImage();
+        showImage(undefined);
+    }, [showImage]);
+
+    return { isDark, hasImage: imageUrl !== null, setBackgroundImage, removeBackgroundImage };
+}
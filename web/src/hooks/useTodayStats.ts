@@ -0,0 +1,47 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { User } from 'firebase/auth';
+import { addContribution, itemContribution, type DailyDeltas } from '../lib/dailyStats';
+import { sessionRepository } from '../lib/history';
+import { getLocalDateKey } from '../lib/dates';
+import { debugError } from '../logger';
+import type { DailyStats, HistoryItem } from '../types';
+
+/**
+ * Today's totals: the account's rollup for today plus any sessions still
+ * waiting on the device. `refreshKey` works as in ActivityHeatmap.
+ */
+export function useTodayStats(user: User | null, localItems: HistoryItem[], refreshKey: number): DailyStats {
+    const [today, setToday] = useState(() => getLocalDateKey(new Date()));
+    const [remote, setRemote] = useState<{ uid: string; date: string; stats: DailyStats | undefined } | null>(null);
+
+    // Roll over at midnight when the app is left open
+    useEffect(() => {
+        const interval = setInterval(() => setToday(getLocalDateKey(new Date())), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        sessionRepository.fetchDailyStats(user.uid, today)
+            .then(stats => {
+                if (!cancelled) setRemote({ uid: user.uid, date: today, stats: stats.find(s => s.date === today) });
+            })
+            .catch(e => debugError('Error fetching today\'s stats: ', e));
+        return () => {
+            cancelled = true;
+        };
+    }, [user, today, refreshKey]);
+
+    return useMemo(() => {
+        const deltas: DailyDeltas = {};
+        // The previous figures stay up while a refresh is in flight
+        const base = user && remote?.uid === user.uid && remote.date === today ? remote.stats : undefined;
+        if (base) addContribution(deltas, base);
+        localItems.forEach(item => {
+            const contribution = itemContribution(item);
+            if (contribution.date === today) addContribution(deltas, contribution);
+        });
+        return { date: today, ...(deltas[today] ?? { sessions: 0, repeats: 0, minutes: 0, lostFocus: 0 }) };
+    }, [user, remote, localItems, today]);
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { db } from '../firebase';
+import { DEFAULT_THEME } from '../data/themes';
+import { debugError } from '../logger';
+import type { ThemePreference, UserSettings } from '../types';
+
+const GUEST_STORAGE_KEY = 'userSettings';
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+    dailyGoal: null,
+    reminders: [],
+    favouriteQuotes: [],
+    customQuotes: [],
+    quoteFilter: '',
+    theme: DEFAULT_THEME,
+    soundscapePresets: [],
+    moodCheckIns: false,
+};
+
+// Earlier versions only stored a light/dark choice under its own key
+const legacyTheme = (): ThemePreference => {
+    const saved = localStorage.getItem('theme');
+    return saved === 'dark' || saved === 'light' ? { ...DEFAULT_THEME, mode: saved } : DEFAULT_THEME;
+};
+
+const loadGuestSettings = (): UserSettings => {
+    try {
+        const saved = localStorage.getItem(GUEST_STORAGE_KEY);
+        if (saved) return { ...DEFAULT_USER_SETTINGS, theme: legacyTheme(), ...JSON.parse(saved) };
+    } catch (e) {
+        debugError('Error reading guest settings: ', e);
+    }
+    return { ...DEFAULT_USER_SETTINGS, theme: legacyTheme() };
+};
+
+export function useUserSettings(user: User | null) {
+    const [guestSettings, setGuestSettings] = useState<UserSettings>(loadGuestSettings);
+    const [remote, setRemote] = useState<{ uid: string; settings: UserSettings } | null>(null);
+
+    useEffect(() => {
+        localStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(guestSettings));
+    }, [guestSettings]);
+
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        getDoc(doc(db, 'userSettings', user.uid))
+            .then(snapshot => {
+                const data = snapshot.data() ?? {};
+                // Only known fields are taken, each falling back to its default
+                const settings = Object.fromEntries(
+                    Object.entries(DEFAULT_USER_SETTINGS).map(([key, fallback]) => [key, data[key] ?? fallback])
+                ) as unknown as UserSettings;
+                if (!cancelled) setRemote({ uid: user.uid, settings });
+            })
+            .catch(e => debugError('Error fetching settings: ', e));
+        return () => {
+            cancelled = true;
+        };
+    }, [user]);
+
+    const settings = user
+        ? (remote?.uid === user.uid ? remote.settings : DEFAULT_USER_SETTINGS)
+        : guestSettings;
+
+    const updateSettings = useCallback(async (update: Partial<UserSettings>) => {
+        if (!user) {
+            setGuestSettings(prev => ({ ...prev, ...update }));
+            return;
+        }
+        // Same as mantras: wait for the stored settings before allowing edits
+        if (remote?.uid !== user.uid) return;
+        const previous = remote.settings;
+        setRemote({ uid: user.uid, settings: { ...previous, ...update } });
+        try {
+            await setDoc(doc(db, 'userSettings', user.uid), { ...update, updatedAt: serverTimestamp() }, { merge: true });
+        } catch (e) {
+            debugError('Error saving settings: ', e);
+            setRemote({ uid: user.uid, settings: previous });
+        }
+    }, [user, remote]);
+
+    return { settings, updateSettings };
+}
@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { debugError } from '../logger';
+
+/**
+ * Keeps the screen on while `active` is true. Browsers drop the lock when
+ * the page is hidden, so it is requested again whenever the page comes back.
+ */
+export function useWakeLock(active: boolean) {
+    useEffect(() => {
+        if (!active || !('wakeLock' in navigator)) return;
+        let sentinel: WakeLockSentinel | null = null;
+        let released = false;
+
+        const acquire = async () => {
+            if (document.visibilityState !== 'visible' || (sentinel && !sentinel.released)) return;
+            try {
+                const lock = await navigator.wakeLock.request('screen');
+                if (released) {
+                    lock.release();
+                } else {
+                    sentinel = lock;
+                }
+            } catch (e) {
+                debugError('Wake lock request failed: ', e);
+            }
+        };
+
+        acquire();
+        document.addEventListener('visibilitychange', acquire);
+        return () => {
+            released = true;
+            document.removeEventListener('visibilitychange', acquire);
+            sentinel?.release();
+        };
+    }, [active]);
+}
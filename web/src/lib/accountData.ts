@@ -0,0 +1,68 @@
+import { collection, deleteDoc, doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { deleteUser, type User } from 'firebase/auth';
+import { db } from '../firebase';
+import { fetchAllSessions, sessionRepository } from './history';
+import { leaveAllCircles } from './circles';
+import { ARCHIVE_FORMAT_NAME, EXPORT_VERSION, toExportedSession } from './historyTransfer';
+import { discardLocalSessions } from './sessionQueue';
+import type { Mantra, UserSettings } from '../types';
+
+/**
+ * Everything kept for an account, so it can be taken away or erased:
+ * sessions (with their daily rollups), mantras and settings, plus the
+ * summaries shared with circles.
+ */
+
+// One JSON file with all of it. The sessions list matches the history export, so it can be imported again.
+export const buildArchive = async (user: User, mantras: Mantra[], settings: UserSettings) => {
+    const [items, dailyStats] = await Promise.all([
+        fetchAllSessions(user.uid),
+        sessionRepository.fetchDailyStats(user.uid),
+    ]);
+    return JSON.stringify({
+        format: ARCHIVE_FORMAT_NAME,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        account: {
+            uid: user.uid,
+            email: user.email,
+            providers: user.providerData.map(p => p.providerId),
+            createdAt: user.metadata.creationTime ?? null,
+        },
+        sessions: items
+            .map(item => toExportedSession(item, mantras))
+            .sort((a, b) => a.start.localeCompare(b.start)),
+        mantras,
+        settings,
+        dailyStats: dailyStats.sort((a, b) => a.date.localeCompare(b.date)),
+    }, null, 2);
+};
+
+/**
+ * Deletes all of the user's sessions, including ones still waiting on this
+ * device. The device's copies go only once the stored ones are gone, so a
+ * failed deletion never loses sessions that exist nowhere else. Resolves
+ * with how many stored sessions were removed.
+ */
+export const deleteAllHistory = async (uid: string, onProgress?: (deleted: number) => void) => {
+    const deleted = await sessionRepository.deleteAll(uid, onProgress);
+    await discardLocalSessions(uid);
+    return deleted;
+};
+
+// Whatever is left once the history is gone: circles, mantras and settings
+export const deleteAccountData = async (uid: string) => {
+    await leaveAllCircles(uid);
+    const mantras = await getDocs(query(collection(db, 'mantras'), where('userId', '==', uid)));
+    if (!mantras.empty) {
+        const batch = writeBatch(db);
+        mantras.docs.forEach(d => batch.delete(d.ref));
+        await batch.commit();
+    }
+    await deleteDoc(doc(db, 'userSettings', uid));
+};
+
+export const deleteAccount = async (user: User) => {
+    await deleteAccountData(user.uid);
+    await deleteUser(user);
+};
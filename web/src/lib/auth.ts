@@ -0,0 +1,200 @@
+import { FirebaseError } from 'firebase/app';
+import {
+    EmailAuthProvider,
+    getRedirectResult,
+    GoogleAuthProvider,
+    isSignInWithEmailLink,
+    linkWithCredential,
+    linkWithPopup,
+    linkWithRedirect,
+    reauthenticateWithPopup,
+    sendSignInLinkToEmail,
+    signInAnonymously,
+    signInWithCredential,
+    signInWithPopup,
+    signInWithRedirect,
+    type AuthCredential,
+    type User,
+} from 'firebase/auth';
+import { auth, googleProvider } from '../firebase';
+import { deleteAccountData, deleteAllHistory } from './accountData';
+import { fetchAllHistory } from './history';
+import { releaseToGuest } from './sessionQueue';
+import type { MessageKey } from './i18n';
+
+/**
+ * Sign-in methods. A signed-in account, anonymous or not, gets another
+ * provider by linking it, which keeps its uid, so the `userId` on its history
+ * stays valid. Every method here also runs against the Auth emulator.
+ */
+
+const EMAIL_STORAGE_KEY = 'emailForSignIn';
+
+// Popups fail in many in-app browsers; these mean a redirect is worth trying
+const POPUP_FAILURES = ['auth/popup-blocked', 'auth/operation-not-supported-in-environment'];
+// Linking failed because another account already has this sign-in method
+const ACCOUNT_EXISTS = ['auth/credential-already-in-use', 'auth/email-already-in-use'];
+// Closing the popup isn't an error worth showing
+const DISMISSED = ['auth/popup-closed-by-user', 'auth/cancelled-popup-request'];
+
+// Firebase only deletes an account signed in to within the last five minutes
+const RECENT_SIGN_IN_MS = 5 * 60 * 1000;
+
+// Thrown before an account deletion starts when the sign-in is too old for it
+export class ReauthenticationError extends Error {
+    key: MessageKey;
+
+    constructor(key: MessageKey) {
+        super(key);
+        this.name = 'ReauthenticationError';
+        this.key = key;
+    }
+}
+
+const errorCode = (e: unknown) => (e instanceof FirebaseError ? e.code : '');
+
+export const hasGoogleSignIn = (user: User) =>
+    user.providerData.some(p => p.providerId === GoogleAuthProvider.PROVIDER_ID);
+
+export const hasEmailSignIn = (user: User) =>
+    user.providerData.some(p => p.providerId === EmailAuthProvider.PROVIDER_ID);
+
+// Home-screen apps on iOS can't open popups at all
+const isStandalone = () =>
+    window.matchMedia('(display-mode: standalone)').matches
+    || (navigator as Navigator & { standalone?: boolean }).standalone === true;
+
+/**
+ * Signs in to the account that already owns the credential, for when an
+ * anonymous account can't be linked to it. The anonymous account's sessions
+ * go back to the device's guest queue first, so the account signed in to
+ * claims them. Its stored data is then deleted while it is still signed in,
+ * since nothing could reach it afterwards. If either step fails, the
+ * sessions are handed back and synced to it again.
+ */
+const switchFromAnonymous = async (anonymous: User, credential: AuthCredential) => {
+    const restore = await releaseToGuest(anonymous.uid, await fetchAllHistory(anonymous.uid));
+    try {
+        await deleteAllHistory(anonymous.uid);
+        await deleteAccountData(anonymous.uid);
+        await signInWithCredential(auth, credential);
+    } catch (e) {
+        await restore();
+        throw e;
+    }
+};
+
+// Only a guest account is given up for the existing one; a real account keeps its sign-in and reports the clash
+const recoverFromLinkError = async (e: unknown, credential: AuthCredential | null) => {
+    const current = auth.currentUser;
+    if (!ACCOUNT_EXISTS.includes(errorCode(e)) || !credential || !current?.isAnonymous) throw e;
+    await switchFromAnonymous(current, credential);
+};
+
+const googleRedirect = () => {
+    const current = auth.currentUser;
+    return current ? linkWithRedirect(current, googleProvider) : signInWithRedirect(auth, googleProvider);
+};
+
+export const signInWithGoogle = async () => {
+    if (isStandalone()) return googleRedirect();
+    const current = auth.currentUser;
+    try {
+        if (current) {
+            await linkWithPopup(current, googleProvider);
+        } else {
+            await signInWithPopup(auth, googleProvider);
+        }
+    } catch (e) {
+        if (POPUP_FAILURES.includes(errorCode(e))) return googleRedirect();
+        await recoverFromLinkError(e, e instanceof FirebaseError ? GoogleAuthProvider.credentialFromError(e) : null);
+    }
+};
+
+export const continueAnonymously = () => signInAnonymously(auth);
+
+const signedInRecently = (user: User) =>
+    Date.now() - Date.parse(user.metadata.lastSignInTime ?? '') < RECENT_SIGN_IN_MS;
+
+/**
+ * Deleting an account needs a recent sign-in, so it is checked before
+ * anything is removed and a refusal never leaves an emptied account behind.
+ * Google accounts are asked again. Email accounts signed in too long ago are
+ * sent a fresh link to sign in with before trying again. A guest account
+ * can't sign in again, so it can only be deleted soon after it was made.
+ */
+export const reauthenticate = async (user: User) => {
+    if (hasGoogleSignIn(user)) {
+        await reauthenticateWithPopup(user, googleProvider);
+        return;
+    }
+    if (signedInRecently(user)) return;
+    if (user.isAnonymous || !user.email) throw new ReauthenticationError('auth.recentLoginGuest');
+    await sendEmailSignInLink(user.email);
+    throw new ReauthenticationError('auth.recentLoginEmail');
+};
+
+export const sendEmailSignInLink = async (email: string) => {
+    await sendSignInLinkToEmail(auth, email, {
+        url: window.location.origin + window.location.pathname,
+        handleCodeInApp: true,
+    });
+    localStorage.setItem(EMAIL_STORAGE_KEY, email);
+};
+
+const completeEmailLink = async (email: string) => {
+    const credential = EmailAuthProvider.credentialWithLink(email, window.location.href);
+    const current = auth.currentUser;
+    try {
+        // An account that already signs in by email is signing in again, for example to confirm a deletion
+        if (current && !hasEmailSignIn(current)) {
+            await linkWithCredential(current, credential);
+        } else {
+            await signInWithCredential(auth, credential);
+        }
+    } catch (e) {
+        await recoverFromLinkError(e, credential);
+    }
+    localStorage.removeItem(EMAIL_STORAGE_KEY);
+};
+
+let pendingCompletion: Promise<void> | null = null;
+
+/**
+ * Finishes a sign-in that left the page: a Google redirect, or an emailed
+ * link that opened the app. The link's email is remembered from when it was
+ * sent; opened on another device, `askEmail` is used to get it again. Runs
+ * once per page load, however often it is called.
+ */
+export const completePendingSignIn = (askEmail: () => string | null) => {
+    if (!pendingCompletion) {
+        pendingCompletion = (async () => {
+            await auth.authStateReady();
+            try {
+                await getRedirectResult(auth);
+            } catch (e) {
+                await recoverFromLinkError(e, e instanceof FirebaseError ? GoogleAuthProvider.credentialFromError(e) : null);
+            }
+            if (!isSignInWithEmailLink(auth, window.location.href)) return;
+            const email = localStorage.getItem(EMAIL_STORAGE_KEY) ?? askEmail();
+            try {
+                if (email) await completeEmailLink(email);
+            } finally {
+                // The code in the address is single-use either way
+                window.history.replaceState(null, '', window.location.pathname);
+            }
+        })();
+    }
+    return pendingCompletion;
+};
+
+// The message to show for a failed sign-in, or null when the user just backed out
+export const signInErrorKey = (e: unknown): MessageKey | null => {
+    const code = errorCode(e);
+    if (DISMISSED.includes(code)) return null;
+    if (ACCOUNT_EXISTS.includes(code)) return 'auth.linkedElsewhere';
+    if (code === 'auth/invalid-email' || code === 'auth/missing-email') return 'auth.invalidEmail';
+    if (code === 'auth/invalid-action-code' || code === 'auth/expired-action-code') return 'auth.linkFailed';
+    if (code === 'auth/requires-recent-login') return 'auth.recentLogin';
+    return 'auth.error';
+};
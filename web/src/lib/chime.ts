@@ -0,0 +1,41 @@
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture, so call this from a click handler first
+export const getAudioContext = () => {
+    if (!audioContext) {
+        audioContext = new AudioContext();
+    }
+    if (audioContext.state === 'suspended') {
+        audioContext.resume();
+    }
+    return audioContext;
+};
+
+// A soft bell: a sine partial plus a quieter overtone with a slow exponential decay
+const strike = (ctx: AudioContext, frequency: number, at: number, volume: number) => {
+    [1, 2.76].forEach((ratio, i) => {
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.type = 'sine';
+        osc.frequency.value = frequency * ratio;
+        const peak = volume / (i + 1) / 2;
+        gain.gain.setValueAtTime(0.0001, at);
+        gain.gain.exponentialRampToValueAtTime(peak, at + 0.02);
+        gain.gain.exponentialRampToValueAtTime(0.0001, at + 2.5);
+        osc.connect(gain).connect(ctx.destination);
+        osc.start(at);
+        osc.stop(at + 2.6);
+    });
+};
+
+export const playIntervalChime = (volume = 0.25) => {
+    const ctx = getAudioContext();
+    strike(ctx, 528, ctx.currentTime, volume);
+};
+
+export const playCompletionChime = (volume = 0.3) => {
+    const ctx = getAudioContext();
+    strike(ctx, 396, ctx.currentTime, volume);
+    strike(ctx, 528, ctx.currentTime + 0.6, volume);
+    strike(ctx, 660, ctx.currentTime + 1.2, volume);
+};
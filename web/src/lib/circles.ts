@@ -0,0 +1,221 @@
+import {
+    arrayRemove,
+    arrayUnion,
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    onSnapshot,
+    query,
+    serverTimestamp,
+    Timestamp,
+    updateDoc,
+    where,
+    writeBatch,
+    type DocumentData,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { addDaysToKey, getLocalDateKey } from './dates';
+import { sessionRepository } from './history';
+import { streaksFromDays } from './stats';
+import { debugError } from '../logger';
+import type { Circle, CircleMember, CircleSummary, DailyStats } from '../types';
+
+/**
+ * Circles are opt-in groups. The circle document lists its members, each
+ * member keeps a summary document inside it that only they write, and
+ * circleInvites maps an invite code to its circle so it can be found
+ * without being a member. No session or note ever leaves the owner's
+ * history; firestore.rules enforce all of this.
+ */
+
+export const MAX_CIRCLE_NAME_LENGTH = 40;
+export const MAX_DISPLAY_NAME_LENGTH = 30;
+export const MAX_CIRCLE_MEMBERS = 20;
+// How often a sitting member checks in, and how long before a silent one is dropped
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+export const PRESENCE_TIMEOUT_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+// No 0/O or 1/I, so codes survive being read aloud. 32 symbols divide 256, so every one is equally likely.
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+export const generateInviteCode = () =>
+    Array.from(crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH)), byte => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]).join('');
+
+// Codes are shown in capitals, but people type them however they like
+export const normalizeInviteCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const circleRef = (circleId: string) => doc(db, 'circles', circleId);
+const membersRef = (circleId: string) => collection(db, 'circles', circleId, 'members');
+const memberRef = (circleId: string, uid: string) => doc(db, 'circles', circleId, 'members', uid);
+const inviteRef = (code: string) => doc(db, 'circleInvites', code);
+
+/**
+ * What the user shares, worked out from their daily rollups: streaks,
+ * today's figures and all-time totals. Minutes are rounded so nothing finer
+ * than that is given away.
+ */
+export const summarizeDailyStats = (stats: DailyStats[], today: string): CircleSummary => {
+    const days = [...new Set(stats.filter(s => s.sessions > 0).map(s => s.date))].sort();
+    const todayStats = stats.find(s => s.date === today);
+    return {
+        streak: streaksFromDays(new Set(days), today),
+        lastActiveDate: days[days.length - 1] ?? null,
+        today: {
+            date: today,
+            sessions: todayStats?.sessions ?? 0,
+            minutes: Math.round(todayStats?.minutes ?? 0),
+        },
+        totals: {
+            sessions: stats.reduce((sum, s) => sum + s.sessions, 0),
+            minutes: Math.round(stats.reduce((sum, s) => sum + s.minutes, 0)),
+        },
+    };
+};
+
+// The summary as it stands now, from the account's stored sessions
+export const currentSummary = async (uid: string) =>
+    summarizeDailyStats(await sessionRepository.fetchDailyStats(uid), getLocalDateKey(new Date()));
+
+// A streak that wasn't extended yesterday or today has lapsed, however long ago it was published
+export const currentStreak = (member: CircleSummary, today: string) =>
+    member.lastActiveDate !== null && member.lastActiveDate >= addDaysToKey(today, -1) ? member.streak.current : 0;
+
+// Today's figures are only the member's own "today" while it is still today here too
+export const todayFigures = (member: CircleSummary, today: string) =>
+    member.today.date === today ? member.today : { date: today, sessions: 0, minutes: 0 };
+
+export const isSitting = (member: CircleMember, now: number) =>
+    member.sittingSince !== null && member.lastSeen !== null && now - member.lastSeen < PRESENCE_TIMEOUT_MS;
+
+const toCircle = (id: string, data: DocumentData): Circle => ({
+    id,
+    name: data.name,
+    ownerId: data.ownerId,
+    inviteCode: data.inviteCode,
+    memberIds: data.memberIds ?? [],
+});
+
+const toMember = (data: DocumentData): CircleMember => ({
+    userId: data.userId,
+    displayName: data.displayName,
+    streak: data.streak ?? { current: 0, longest: 0 },
+    lastActiveDate: data.lastActiveDate ?? null,
+    today: data.today ?? { date: '', sessions: 0, minutes: 0 },
+    totals: data.totals ?? { sessions: 0, minutes: 0 },
+    sittingSince: (data.sittingSince as Timestamp | null)?.toMillis() ?? null,
+    lastSeen: (data.lastSeen as Timestamp | null)?.toMillis() ?? null,
+});
+
+// The member document as first written; the invite code shows the rules the member was let in
+const newMember = (uid: string, displayName: string, inviteCode: string, summary: CircleSummary) => ({
+    userId: uid,
+    displayName: displayName.trim().slice(0, MAX_DISPLAY_NAME_LENGTH),
+    inviteCode,
+    ...summary,
+    sittingSince: null,
+    lastSeen: null,
+    joinedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+});
+
+export const listCircles = async (uid: string) => {
+    const snapshot = await getDocs(query(collection(db, 'circles'), where('memberIds', 'array-contains', uid)));
+    return snapshot.docs
+        .map(d => toCircle(d.id, d.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Resolves with the new circle's id
+export const createCircle = async (uid: string, name: string, displayName: string, summary: CircleSummary) => {
+    const ref = doc(collection(db, 'circles'));
+    const inviteCode = generateInviteCode();
+    const batch = writeBatch(db);
+    batch.set(ref, {
+        name: name.trim().slice(0, MAX_CIRCLE_NAME_LENGTH),
+        ownerId: uid,
+        inviteCode,
+        memberIds: [uid],
+        createdAt: serverTimestamp(),
+    });
+    batch.set(inviteRef(inviteCode), { circleId: ref.id, ownerId: uid });
+    batch.set(memberRef(ref.id, uid), newMember(uid, displayName, inviteCode, summary));
+    await batch.commit();
+    return ref.id;
+};
+
+/**
+ * Joins the circle the code belongs to. Resolves with its id, or null when
+ * no circle has that code (it may have been replaced by a new one).
+ * `memberOf` lists the circles the user is already in, which are left alone.
+ */
+export const joinCircle = async (uid: string, code: string, displayName: string, summary: CircleSummary, memberOf: string[]) => {
+    const inviteCode = normalizeInviteCode(code);
+    if (!inviteCode) return null;
+    const invite = await getDoc(inviteRef(inviteCode));
+    if (!invite.exists()) return null;
+    const { circleId } = invite.data();
+    if (memberOf.includes(circleId)) return circleId as string;
+    const batch = writeBatch(db);
+    batch.update(circleRef(circleId), { memberIds: arrayUnion(uid) });
+    batch.set(memberRef(circleId, uid), newMember(uid, displayName, inviteCode, summary));
+    await batch.commit();
+    return circleId as string;
+};
+
+export const leaveCircle = async (uid: string, circle: Circle) => {
+    const batch = writeBatch(db);
+    batch.update(circleRef(circle.id), { memberIds: arrayRemove(uid) });
+    batch.delete(memberRef(circle.id, uid));
+    await batch.commit();
+};
+
+// Owners only. Removes every member's summary along with the circle.
+export const deleteCircle = async (circle: Circle) => {
+    const members = await getDocs(membersRef(circle.id));
+    const batch = writeBatch(db);
+    members.docs.forEach(d => batch.delete(d.ref));
+    batch.delete(inviteRef(circle.inviteCode));
+    batch.delete(circleRef(circle.id));
+    await batch.commit();
+};
+
+// Owners only. The old code stops working straight away; existing members stay.
+export const replaceInviteCode = async (uid: string, circle: Circle) => {
+    const inviteCode = generateInviteCode();
+    const batch = writeBatch(db);
+    batch.delete(inviteRef(circle.inviteCode));
+    batch.set(inviteRef(inviteCode), { circleId: circle.id, ownerId: uid });
+    batch.update(circleRef(circle.id), { inviteCode });
+    await batch.commit();
+};
+
+// Leaves every circle, deleting the ones the user owns; used when deleting an account
+export const leaveAllCircles = async (uid: string) => {
+    const circles = await listCircles(uid);
+    for (const circle of circles) {
+        await (circle.ownerId === uid ? deleteCircle(circle) : leaveCircle(uid, circle));
+    }
+};
+
+// Live member summaries of one circle. Returns the unsubscribe function.
+export const watchMembers = (circleId: string, onChange: (members: CircleMember[]) => void) =>
+    onSnapshot(
+        membersRef(circleId),
+        snapshot => onChange(snapshot.docs.map(d => toMember(d.data()))),
+        e => debugError('Error watching circle members: ', e)
+    );
+
+export const publishSummary = (uid: string, circleIds: string[], summary: CircleSummary) =>
+    Promise.all(circleIds.map(circleId => updateDoc(memberRef(circleId, uid), {
+        ...summary,
+        updatedAt: serverTimestamp(),
+    })));
+
+// Marks the user as sitting since `since`, or not sitting when null; also serves as the heartbeat
+export const setSitting = (uid: string, circleIds: string[], since: number | null) =>
+    Promise.all(circleIds.map(circleId => updateDoc(memberRef(circleId, uid), {
+        sittingSince: since === null ? null : Timestamp.fromMillis(since),
+        lastSeen: since === null ? null : serverTimestamp(),
+    })));
@@ -0,0 +1,19 @@
+import type { DailyGoal, DailyStats } from '../types';
+
+export const GOAL_METRICS: DailyGoal['metric'][] = ['sessions', 'repeats', 'minutes'];
+
+export const MAX_REMINDERS = 5;
+
+// The rules refuse anything larger
+export const MAX_GOAL_TARGET = 10000;
+
+export const maxGoalTarget = (metric: DailyGoal['metric']) => metric === 'repeats' ? MAX_GOAL_TARGET : 240;
+
+export const clampGoalTarget = (value: number, metric: DailyGoal['metric']) =>
+    Math.min(Math.max(1, Math.round(value) || 1), maxGoalTarget(metric));
+
+export const goalProgress = (goal: DailyGoal, stats: DailyStats | undefined) =>
+    Math.min((stats?.[goal.metric] ?? 0) / goal.target, 1);
+
+export const isGoalMet = (goal: DailyGoal | null, stats: DailyStats | undefined) =>
+    goal !== null && goalProgress(goal, stats) >= 1;
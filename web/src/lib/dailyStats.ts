@@ -0,0 +1,154 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    increment,
+    query,
+    runTransaction,
+    serverTimestamp,
+    setDoc,
+    where,
+    writeBatch,
+    type DocumentData,
+    type DocumentReference,
+    type SetOptions,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { getLocalDateKey, sessionDateKey } from './dates';
+import type { DailyStats, HistoryItem, SessionRecord } from '../types';
+
+export type DailyDeltas = Record<string, Omit<DailyStats, 'date'>>;
+
+// The common ground of WriteBatch and Transaction
+interface DocumentWriter {
+    set: (ref: DocumentReference, data: DocumentData, options: SetOptions) => unknown;
+}
+
+export const dailyStatsId = (uid: string, date: string) => `${uid}_${date}`;
+
+const emptyDelta = () => ({ sessions: 0, repeats: 0, minutes: 0, lostFocus: 0 });
+
+// Whole 1/1024ths of a minute add and subtract exactly, so taking every session
+// back out of a day leaves it at zero rather than a rounding error below it
+const MINUTE_STEPS = 1024;
+
+// Records without a stored day are counted on the day they ended, as before
+export const recordContribution = (record: Pick<SessionRecord, 'count' | 'lostFocusCount' | 'startTime' | 'endTime' | 'localDate'>) => ({
+    date: record.localDate ?? getLocalDateKey(new Date(record.endTime)),
+    sessions: 1,
+    repeats: record.count,
+    minutes: Math.round(Math.max(record.endTime - record.startTime, 0) / 60000 * MINUTE_STEPS) / MINUTE_STEPS,
+    lostFocus: record.lostFocusCount,
+});
+
+export const itemContribution = (item: HistoryItem) => {
+    const endTime = (item.endTime ?? item.timestamp).toMillis();
+    return recordContribution({
+        count: item.count,
+        lostFocusCount: item.lostFocusCount ?? 0,
+        startTime: item.startTime?.toMillis() ?? endTime,
+        endTime,
+        localDate: sessionDateKey(item),
+    });
+};
+
+// Accumulates a session's contribution into per-day deltas; sign -1 removes it
+export const addContribution = (deltas: DailyDeltas, contribution: DailyStats, sign: 1 | -1 = 1) => {
+    const entry = deltas[contribution.date] ?? emptyDelta();
+    entry.sessions += sign * contribution.sessions;
+    entry.repeats += sign * contribution.repeats;
+    entry.minutes += sign * contribution.minutes;
+    entry.lostFocus += sign * contribution.lostFocus;
+    deltas[contribution.date] = entry;
+    return deltas;
+};
+
+// Writes the deltas as atomic increments inside the caller's batch or transaction
+export const applyDailyDeltas = (writer: DocumentWriter, uid: string, deltas: DailyDeltas) => {
+    Object.entries(deltas).forEach(([date, delta]) => {
+        if (!delta.sessions && !delta.repeats && !delta.minutes && !delta.lostFocus) return;
+        writer.set(doc(db, 'dailyStats', dailyStatsId(uid, date)), {
+            userId: uid,
+            date,
+            sessions: increment(delta.sessions),
+            repeats: increment(delta.repeats),
+            minutes: increment(delta.minutes),
+            lostFocus: increment(delta.lostFocus),
+            updatedAt: serverTimestamp(),
+        }, { merge: true });
+    });
+};
+
+export const fetchDailyStats = async (uid: string, fromDate?: string) => {
+    const constraints = [where('userId', '==', uid)];
+    if (fromDate) constraints.push(where('date', '>=', fromDate));
+    const snapshot = await getDocs(query(collection(db, 'dailyStats'), ...constraints));
+    return snapshot.docs.map(d => {
+        const data = d.data();
+        return {
+            date: data.date,
+            sessions: data.sessions ?? 0,
+            repeats: data.repeats ?? 0,
+            minutes: data.minutes ?? 0,
+            lostFocus: data.lostFocus ?? 0,
+        } as DailyStats;
+    });
+};
+
+// Raised when the rollups have to be built again from raw history
+const DAILY_STATS_VERSION = 1;
+
+const settingsRef = (uid: string) => doc(db, 'userSettings', uid);
+
+// Accounts already known to be built, so the marker is read once per load
+const built = new Set<string>();
+
+// The marker lives in the user's settings, so a new device or profile doesn't scan history again
+export const needsBackfill = async (uid: string) => {
+    if (built.has(uid)) return false;
+    const snapshot = await getDoc(settingsRef(uid));
+    if ((snapshot.data()?.dailyStatsVersion ?? 0) < DAILY_STATS_VERSION) return true;
+    built.add(uid);
+    return false;
+};
+
+/**
+ * Builds the missing rollups from raw history, for sessions saved before
+ * rollups existed. A day that already has a rollup is left alone, since saves
+ * keep it up to date from then on. Each chunk of days is read and written in a
+ * transaction, so a rollup created meanwhile on another device makes it retry
+ * instead of being overwritten.
+ */
+export const backfillDailyStats = async (uid: string, items: HistoryItem[]) => {
+    const totals = items.reduce((deltas, item) => addContribution(deltas, itemContribution(item)), {} as DailyDeltas);
+    const entries = Object.entries(totals);
+    for (let i = 0; i < entries.length; i += 100) {
+        const chunk = entries.slice(i, i + 100);
+        await runTransaction(db, async (tx) => {
+            const refs = chunk.map(([date]) => doc(db, 'dailyStats', dailyStatsId(uid, date)));
+            const snapshots = await Promise.all(refs.map(ref => tx.get(ref)));
+            chunk.forEach(([date, totalsForDay], j) => {
+                if (snapshots[j].exists()) return;
+                tx.set(refs[j], {
+                    userId: uid,
+                    date,
+                    ...totalsForDay,
+                    updatedAt: serverTimestamp(),
+                });
+            });
+        });
+    }
+    await setDoc(settingsRef(uid), { dailyStatsVersion: DAILY_STATS_VERSION, updatedAt: serverTimestamp() }, { merge: true });
+    built.add(uid);
+};
+
+// Drops all of the user's rollups, for when their history is deleted
+export const deleteDailyStats = async (uid: string) => {
+    const snapshot = await getDocs(query(collection(db, 'dailyStats'), where('userId', '==', uid)));
+    for (let i = 0; i < snapshot.docs.length; i += 400) {
+        const batch = writeBatch(db);
+        snapshot.docs.slice(i, i + 400).forEach(d => batch.delete(d.ref));
+        await batch.commit();
+    }
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { addDaysToKey, dateKeyInTimeZone, dateKeysBetween, recordDateFields, sessionDateKey } from './dates';
+
+// The config pins the device to America/New_York
+const at = (iso: string) => Date.parse(iso);
+
+describe('dateKeyInTimeZone', () => {
+    it('uses the zone rather than UTC', () => {
+        expect(dateKeyInTimeZone(at('2026-05-01T23:30:00Z'), 'UTC')).toBe('2026-05-01');
+        expect(dateKeyInTimeZone(at('2026-05-01T23:30:00Z'), 'Europe/Madrid')).toBe('2026-05-02');
+        expect(dateKeyInTimeZone(at('2026-05-01T23:30:00Z'), 'America/Los_Angeles')).toBe('2026-05-01');
+    });
+
+    it('moves midnight with the clocks when they go forward', () => {
+        // Madrid is UTC+1 until 01:00 UTC on 29 March, then UTC+2
+        expect(dateKeyInTimeZone(at('2026-03-28T22:59:00Z'), 'Europe/Madrid')).toBe('2026-03-28');
+        expect(dateKeyInTimeZone(at('2026-03-28T23:00:00Z'), 'Europe/Madrid')).toBe('2026-03-29');
+        expect(dateKeyInTimeZone(at('2026-03-29T21:59:00Z'), 'Europe/Madrid')).toBe('2026-03-29');
+        expect(dateKeyInTimeZone(at('2026-03-29T22:00:00Z'), 'Europe/Madrid')).toBe('2026-03-30');
+    });
+
+    it('moves midnight with the clocks when they go back', () => {
+        // Madrid is UTC+2 until 01:00 UTC on 25 October, then UTC+1
+        expect(dateKeyInTimeZone(at('2026-10-24T21:59:00Z'), 'Europe/Madrid')).toBe('2026-10-24');
+        expect(dateKeyInTimeZone(at('2026-10-24T22:00:00Z'), 'Europe/Madrid')).toBe('2026-10-25');
+        expect(dateKeyInTimeZone(at('2026-10-25T22:59:00Z'), 'Europe/Madrid')).toBe('2026-10-25');
+        expect(dateKeyInTimeZone(at('2026-10-25T23:00:00Z'), 'Europe/Madrid')).toBe('2026-10-26');
+    });
+
+    it('keeps the repeated hour on the same day', () => {
+        // 02:30 happens twice in New York on 1 November
+        expect(dateKeyInTimeZone(at('2026-11-01T06:30:00Z'), 'America/New_York')).toBe('2026-11-01');
+        expect(dateKeyInTimeZone(at('2026-11-01T07:30:00Z'), 'America/New_York')).toBe('2026-11-01');
+    });
+
+    it('falls back to the device zone for an unknown zone', () => {
+        expect(dateKeyInTimeZone(at('2026-05-02T03:00:00Z'), 'Mars/Olympus_Mons')).toBe('2026-05-01');
+    });
+});
+
+describe('addDaysToKey', () => {
+    it('steps over both DST changes one day at a time', () => {
+        expect(addDaysToKey('2026-03-07', 1)).toBe('2026-03-08');
+        expect(addDaysToKey('2026-03-08', 1)).toBe('2026-03-09');
+        expect(addDaysToKey('2026-10-31', 1)).toBe('2026-11-01');
+        expect(addDaysToKey('2026-11-01', 1)).toBe('2026-11-02');
+        expect(addDaysToKey('2026-11-02', -1)).toBe('2026-11-01');
+    });
+
+    it('crosses month, year and leap-day boundaries', () => {
+        expect(addDaysToKey('2026-01-31', 1)).toBe('2026-02-01');
+        expect(addDaysToKey('2026-12-31', 1)).toBe('2027-01-01');
+        expect(addDaysToKey('2028-02-28', 1)).toBe('2028-02-29');
+        expect(addDaysToKey('2026-03-01', -1)).toBe('2026-02-28');
+        expect(addDaysToKey('2026-05-01', -364)).toBe('2025-05-02');
+    });
+});
+
+describe('dateKeysBetween', () => {
+    it('lists every day once across both DST changes', () => {
+        expect(dateKeysBetween('2026-03-07', '2026-03-10')).toEqual(['2026-03-07', '2026-03-08', '2026-03-09', '2026-03-10']);
+        expect(dateKeysBetween('2026-10-31', '2026-11-02')).toEqual(['2026-10-31', '2026-11-01', '2026-11-02']);
+    });
+
+    it('includes both ends and is empty when they are reversed', () => {
+        expect(dateKeysBetween('2026-05-01', '2026-05-01')).toEqual(['2026-05-01']);
+        expect(dateKeysBetween('2026-05-02', '2026-05-01')).toEqual([]);
+    });
+
+    it('covers a whole leap year', () => {
+        expect(dateKeysBetween('2028-01-01', '2028-12-31')).toHaveLength(366);
+    });
+});
+
+describe('sessionDateKey', () => {
+    const session = (start: string, end: string, fields: { timeZone?: string; localDate?: string } = {}) => ({
+        startTime: Timestamp.fromMillis(at(start)),
+        endTime: Timestamp.fromMillis(at(end)),
+        timestamp: Timestamp.fromMillis(at(end)),
+        ...fields,
+    });
+
+    it('uses the stored local date', () => {
+        expect(sessionDateKey(session('2026-05-01T12:00:00Z', '2026-05-01T12:10:00Z', {
+            timeZone: 'UTC',
+            localDate: '2026-04-30',
+        }))).toBe('2026-04-30');
+    });
+
+    it('keeps a session that runs past midnight on the day it started', () => {
+        // 23:40 to 00:20 in Madrid
+        const start = '2026-05-01T21:40:00Z';
+        const item = session(start, '2026-05-01T22:20:00Z', recordDateFields(at(start), 'Europe/Madrid'));
+        expect(item.localDate).toBe('2026-05-01');
+        expect(sessionDateKey(item)).toBe('2026-05-01');
+    });
+
+    it('keeps the day of the zone a session was recorded in, not the device zone', () => {
+        // 01:00 on 2 May in Tokyo is still 1 May in New York
+        const start = '2026-05-01T16:00:00Z';
+        const item = session(start, '2026-05-01T16:20:00Z', recordDateFields(at(start), 'Asia/Tokyo'));
+        expect(sessionDateKey(item)).toBe('2026-05-02');
+        expect(sessionDateKey({ ...item, localDate: undefined })).toBe('2026-05-02');
+    });
+
+    it('falls back to the end time in the device zone when no day was stored', () => {
+        // Starts at 23:40 and ends at 00:20 in New York; legacy rollups used the end
+        expect(sessionDateKey(session('2026-05-02T03:40:00Z', '2026-05-02T04:20:00Z'))).toBe('2026-05-02');
+        expect(sessionDateKey(session('2026-05-02T03:00:00Z', '2026-05-02T03:30:00Z'))).toBe('2026-05-01');
+    });
+
+    it('falls back to the timestamp when a legacy session has no end time', () => {
+        expect(sessionDateKey({ timestamp: Timestamp.fromMillis(at('2026-05-02T03:30:00Z')) })).toBe('2026-05-01');
+    });
+});
@@ -0,0 +1,97 @@
+import type { HistoryItem } from '../types';
+
+/**
+ * Calendar days as 'YYYY-MM-DD' keys. Sessions keep the day they were
+ * recorded on, in the timezone they were recorded in, so travelling or
+ * changing the device's timezone doesn't move them to another day.
+ */
+
+export const getLocalDateKey = (date: Date) => {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// The device's IANA timezone, e.g. 'Europe/Madrid'
+export const currentTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The calendar day a moment falls on in the given timezone. Intl applies
+ * that zone's offset at that moment, DST included. An unknown zone falls
+ * back to the device's own.
+ */
+export const dateKeyInTimeZone = (millis: number, timeZone: string) => {
+    let formatter = dayFormatters.get(timeZone);
+    if (!formatter) {
+        try {
+            formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+        } catch {
+            return getLocalDateKey(new Date(millis));
+        }
+        dayFormatters.set(timeZone, formatter);
+    }
+    const parts = Object.fromEntries(formatter.formatToParts(millis).map(part => [part.type, part.value]));
+    return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+// Key arithmetic runs in UTC, where every day is 24 hours long
+const keyToUtc = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+};
+
+const utcToKey = (millis: number) => new Date(millis).toISOString().slice(0, 10);
+
+export const addDaysToKey = (key: string, days: number) => utcToKey(keyToUtc(key) + days * 24 * 60 * 60 * 1000);
+
+// 0 for Sunday, as with Date.getDay()
+export const dayOfWeekForKey = (key: string) => new Date(keyToUtc(key)).getUTCDay();
+
+// Every key from `from` to `to`, both included
+export const dateKeysBetween = (from: string, to: string) => {
+    const keys: string[] = [];
+    for (let key = from; key <= to; key = addDaysToKey(key, 1)) keys.push(key);
+    return keys;
+};
+
+// Local midnight of the day, for display and for Date-based ranges
+export const dateFromKey = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+export const recordDateFields = (startTime: number, timeZone = currentTimeZone()) => ({
+    timeZone,
+    localDate: dateKeyInTimeZone(startTime, timeZone),
+});
+
+/**
+ * The day a session belongs to. A session counts toward the day it started,
+ * so a sit that runs past midnight stays with the evening it began. Older
+ * sessions without a stored day fall back to their end time on this device,
+ * matching how their daily rollups were written.
+ */
+export const sessionDateKey = (item: Pick<HistoryItem, 'localDate' | 'timeZone' | 'startTime' | 'endTime' | 'timestamp'>) => {
+    if (item.localDate) return item.localDate;
+    if (item.timeZone && item.startTime) return dateKeyInTimeZone(item.startTime.toMillis(), item.timeZone);
+    return getLocalDateKey((item.endTime ?? item.timestamp).toDate());
+};
+
+// Groups items by their day, newest day first, keeping the order within each day
+export const groupByDate = <T extends Parameters<typeof sessionDateKey>[0]>(items: T[]) => {
+    const groups = new Map<string, T[]>();
+    items.forEach(item => {
+        const key = sessionDateKey(item);
+        groups.set(key, [...(groups.get(key) ?? []), item]);
+    });
+    return [...groups.entries()].sort(([a], [b]) => b.localeCompare(a));
+};
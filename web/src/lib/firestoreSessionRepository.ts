@@ -0,0 +1,184 @@
+import {
+    and,
+    collection,
+    deleteField,
+    doc,
+    getCountFromServer,
+    getDocs,
+    limit,
+    or,
+    orderBy,
+    query,
+    runTransaction,
+    startAfter,
+    Timestamp,
+    updateDoc,
+    where,
+    writeBatch,
+    type QueryCompositeFilterConstraint,
+    type QueryDocumentSnapshot,
+    type QueryFilterConstraint,
+    type QueryNonFilterConstraint,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import {
+    addContribution,
+    applyDailyDeltas,
+    backfillDailyStats,
+    deleteDailyStats,
+    fetchDailyStats,
+    itemContribution,
+    needsBackfill,
+    recordContribution,
+    type DailyDeltas,
+} from './dailyStats';
+import {
+    fetchAllPages,
+    filterBounds,
+    planMerge,
+    toHistoryDoc,
+    trimNote,
+    type HistoryCursor,
+    type HistoryFilters,
+    type SessionRepository,
+} from './sessionRepository';
+import type { HistoryItem } from '../types';
+
+const buildFilter = (uid: string, filters: HistoryFilters): QueryCompositeFilterConstraint => {
+    const constraints: QueryFilterConstraint[] = [where('userId', '==', uid)];
+    if (filters.mantra) {
+        // Sessions saved before mantras had ids only carry the word
+        constraints.push(or(
+            where('mantraId', '==', filters.mantra.id),
+            where('word', '==', filters.mantra.text)
+        ));
+    }
+    const { from, to } = filterBounds(filters);
+    if (from !== null) constraints.push(where('timestamp', '>=', Timestamp.fromMillis(from)));
+    if (to !== null) constraints.push(where('timestamp', '<', Timestamp.fromMillis(to)));
+    return and(...constraints);
+};
+
+const DELETE_BATCH_SIZE = 400;
+
+const toItem = (snapshot: QueryDocumentSnapshot) => ({ id: snapshot.id, ...snapshot.data() }) as HistoryItem;
+
+// One backfill per account at a time, however many views ask for stats
+const backfills = new Map<string, Promise<void>>();
+
+const fetchPage = async (uid: string, filters: HistoryFilters, pageSize: number, cursor: HistoryCursor | null = null) => {
+    const constraints: QueryNonFilterConstraint[] = [orderBy('timestamp', 'desc')];
+    if (cursor) constraints.push(startAfter(cursor as QueryDocumentSnapshot));
+    // Ask for one extra document to learn whether another page exists
+    constraints.push(limit(pageSize + 1));
+
+    const snapshot = await getDocs(query(collection(db, 'history'), buildFilter(uid, filters), ...constraints));
+    const docs = snapshot.docs.slice(0, pageSize);
+    return {
+        items: docs.map(toItem),
+        cursor: docs[docs.length - 1] ?? null,
+        hasMore: snapshot.docs.length > pageSize,
+    };
+};
+
+/**
+ * Sessions live in the 'history' collection with per-day totals in
+ * 'dailyStats'. Every write updates both in the same batch or transaction.
+ */
+export const firestoreSessionRepository: SessionRepository = {
+    fetchPage,
+
+    count: async (uid, filters = {}) => {
+        const snapshot = await getCountFromServer(query(collection(db, 'history'), buildFilter(uid, filters)));
+        return snapshot.data().count;
+    },
+
+    // The transaction makes a retry after a lost acknowledgement harmless
+    addSession: (uid, record) => runTransaction(db, async (tx) => {
+        const historyRef = doc(db, 'history', record.id);
+        if ((await tx.get(historyRef)).exists()) return false;
+        tx.set(historyRef, toHistoryDoc(record, uid));
+        applyDailyDeltas(tx, uid, addContribution({}, recordContribution(record)));
+        return true;
+    }),
+
+    addSessions: async (uid, records) => {
+        // Each session costs one write plus at most one rollup write, well under the 500 batch limit
+        for (let i = 0; i < records.length; i += 200) {
+            const batch = writeBatch(db);
+            const deltas: DailyDeltas = {};
+            records.slice(i, i + 200).forEach(record => {
+                batch.set(doc(db, 'history', record.id), toHistoryDoc(record, uid));
+                addContribution(deltas, recordContribution(record));
+            });
+            applyDailyDeltas(batch, uid, deltas);
+            await batch.commit();
+        }
+    },
+
+    updateNote: (id, note) => {
+        const trimmed = trimNote(note);
+        return updateDoc(doc(db, 'history', id), { note: trimmed ?? deleteField() });
+    },
+
+    // Removes the session and takes it back out of its day's rollup
+    deleteSession: (uid, id) => runTransaction(db, async (tx) => {
+        const ref = doc(db, 'history', id);
+        const snapshot = await tx.get(ref);
+        if (!snapshot.exists()) return;
+        const item = { id, ...snapshot.data() } as HistoryItem;
+        tx.delete(ref);
+        applyDailyDeltas(tx, uid, addContribution({}, itemContribution(item), -1));
+    }),
+
+    mergeSessions: async (uid, items) => {
+        const plan = planMerge(items);
+        if (!plan) return;
+        const batch = writeBatch(db);
+        batch.update(doc(db, 'history', plan.target.id), {
+            count: plan.count,
+            lostFocusCount: plan.lostFocusCount,
+            startTime: plan.startTime,
+            endTime: plan.endTime,
+            timeline: plan.timeline ?? deleteField(),
+            note: plan.note ?? deleteField(),
+            // A merged session no longer matches any single plan
+            goal: deleteField(),
+            goalReached: deleteField(),
+        });
+        plan.rest.forEach(item => batch.delete(doc(db, 'history', item.id)));
+        applyDailyDeltas(batch, uid, plan.deltas);
+        await batch.commit();
+    },
+
+    // A page at a time, since a batch holds at most 500 writes
+    deleteAll: async (uid, onProgress) => {
+        let deleted = 0;
+        for (;;) {
+            const snapshot = await getDocs(query(collection(db, 'history'), where('userId', '==', uid), limit(DELETE_BATCH_SIZE)));
+            if (snapshot.empty) break;
+            const batch = writeBatch(db);
+            snapshot.docs.forEach(d => batch.delete(d.ref));
+            await batch.commit();
+            deleted += snapshot.size;
+            onProgress?.(deleted);
+        }
+        await deleteDailyStats(uid);
+        return deleted;
+    },
+
+    fetchDailyStats: async (uid, fromDate) => {
+        // Accounts with sessions from before rollups existed get them built once
+        if (await needsBackfill(uid)) {
+            let backfill = backfills.get(uid);
+            if (!backfill) {
+                backfill = (async () => {
+                    await backfillDailyStats(uid, await fetchAllPages(firestoreSessionRepository, uid));
+                })().finally(() => backfills.delete(uid));
+                backfills.set(uid, backfill);
+            }
+            await backfill;
+        }
+        return fetchDailyStats(uid, fromDate);
+    },
+};
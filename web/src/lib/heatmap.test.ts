@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildHeatmapDays, levelFor, percentileThresholds, rangeStart } from './heatmap';
+
+describe('percentileThresholds', () => {
+    it('takes the quartiles of the active days only', () => {
+        expect(percentileThresholds([0, 0, 5, 1, 3, 0, 2, 4])).toEqual([2, 3, 4]);
+    });
+
+    it('interpolates between days', () => {
+        expect(percentileThresholds([4, 1, 3, 2])).toEqual([1.75, 2.5, 3.25]);
+    });
+
+    it('puts every cut-off on the one active day', () => {
+        expect(percentileThresholds([0, 7, 0])).toEqual([7, 7, 7]);
+    });
+
+    it('is all zero without activity', () => {
+        expect(percentileThresholds([])).toEqual([0, 0, 0]);
+        expect(percentileThresholds([0, 0])).toEqual([0, 0, 0]);
+    });
+});
+
+describe('levelFor', () => {
+    const thresholds: [number, number, number] = [2, 3, 4];
+
+    it('shades each quartile on its own level', () => {
+        expect([0, 1, 2, 2.5, 3, 4, 5, 100].map(v => levelFor(v, thresholds))).toEqual([0, 1, 1, 2, 2, 3, 4, 4]);
+    });
+
+    it('keeps empty days at the lowest level', () => {
+        expect(levelFor(0, [0, 0, 0])).toBe(0);
+        expect(levelFor(-1, thresholds)).toBe(0);
+    });
+
+    it('copes with equal cut-offs', () => {
+        expect(levelFor(7, [7, 7, 7])).toBe(1);
+        expect(levelFor(8, [7, 7, 7])).toBe(4);
+    });
+});
+
+describe('rangeStart', () => {
+    it('shows 26 weeks or a year up to today', () => {
+        expect(rangeStart('26w', '2026-05-06')).toBe('2025-11-06');
+        expect(rangeStart('1y', '2026-05-06')).toBe('2025-05-07');
+    });
+
+    it('reaches back to the earliest day for all time, but never shows less than 26 weeks', () => {
+        expect(rangeStart('all', '2026-05-06', '2024-02-29')).toBe('2024-02-29');
+        expect(rangeStart('all', '2026-05-06', '2026-04-01')).toBe('2025-11-06');
+        expect(rangeStart('all', '2026-05-06')).toBe('2025-11-06');
+    });
+});
+
+describe('buildHeatmapDays', () => {
+    it('lists each day once across a DST change, with its weekday', () => {
+        const stats = { '2026-03-08': { date: '2026-03-08', sessions: 2, repeats: 40, minutes: 12.5, lostFocus: 1 } };
+        expect(buildHeatmapDays(stats, 'minutes', '2026-03-07', '2026-03-09')).toEqual([
+            { date: '2026-03-07', value: 0, dayIndex: 6 },
+            { date: '2026-03-08', value: 12.5, dayIndex: 0 },
+            { date: '2026-03-09', value: 0, dayIndex: 1 },
+        ]);
+    });
+});
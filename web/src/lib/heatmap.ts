@@ -0,0 +1,61 @@
+import { addDaysToKey, dateKeysBetween, dayOfWeekForKey } from './dates';
+import type { DailyStats } from '../types';
+
+export type HeatmapMetric = Exclude<keyof DailyStats, 'date'>;
+export type HeatmapRange = '26w' | '1y' | 'all';
+
+export interface HeatmapDay {
+    date: string;
+    value: number;
+    dayIndex: number;
+}
+
+export const HEATMAP_METRICS: HeatmapMetric[] = ['sessions', 'repeats', 'minutes', 'lostFocus'];
+
+export const HEATMAP_RANGES: HeatmapRange[] = ['26w', '1y', 'all'];
+
+const DEFAULT_DAYS = 182;
+
+// First day key shown for a range. "All time" reaches back to the earliest recorded day.
+export const rangeStart = (range: HeatmapRange, today: string, earliest?: string) => {
+    if (range === '1y') return addDaysToKey(today, -364);
+    const start = addDaysToKey(today, -(DEFAULT_DAYS - 1));
+    return range === 'all' && earliest && earliest < start ? earliest : start;
+};
+
+// Works on day keys rather than Dates, so a DST change can't skip or repeat a day
+export const buildHeatmapDays = (
+    statsByDate: Record<string, DailyStats>,
+    metric: HeatmapMetric,
+    start: string,
+    end: string
+): HeatmapDay[] => dateKeysBetween(start, end).map(date => ({
+    date,
+    value: statsByDate[date]?.[metric] ?? 0,
+    dayIndex: dayOfWeekForKey(date),
+}));
+
+const percentile = (sorted: number[], p: number) => {
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+/**
+ * Level cut-offs from the 25th, 50th and 75th percentile of the active days,
+ * so the shading adapts to how much each person practises.
+ */
+export const percentileThresholds = (values: number[]): [number, number, number] => {
+    const active = values.filter(v => v > 0).sort((a, b) => a - b);
+    if (active.length === 0) return [0, 0, 0];
+    return [percentile(active, 0.25), percentile(active, 0.5), percentile(active, 0.75)];
+};
+
+export const levelFor = (value: number, [p25, p50, p75]: [number, number, number]) => {
+    if (value <= 0) return 0;
+    if (value <= p25) return 1;
+    if (value <= p50) return 2;
+    if (value <= p75) return 3;
+    return 4;
+};
@@ -0,0 +1,43 @@
+import { hasFirebaseProject } from '../firebase';
+import { listLocalSessions, toHistoryItem } from './sessionQueue';
+import { fetchAllPages, type SessionBackend, type SessionRepository } from './sessionRepository';
+import { firestoreSessionRepository } from './firestoreSessionRepository';
+import { createLocalSessionRepository } from './localSessionRepository';
+import { createMemorySessionRepository } from './memorySessionRepository';
+
+const BACKENDS: SessionBackend[] = ['firestore', 'local', 'memory'];
+
+/**
+ * VITE_SESSION_BACKEND picks where account history lives. Without it,
+ * Firestore is used when a project (or the emulators) is configured and
+ * localStorage otherwise.
+ */
+const selectBackend = (): SessionBackend => {
+    const configured = import.meta.env.VITE_SESSION_BACKEND;
+    if (BACKENDS.includes(configured)) return configured;
+    return hasFirebaseProject ? 'firestore' : 'local';
+};
+
+const createRepository = (backend: SessionBackend): SessionRepository => {
+    switch (backend) {
+        case 'firestore':
+            return firestoreSessionRepository;
+        case 'local':
+            return createLocalSessionRepository();
+        case 'memory':
+            return createMemorySessionRepository();
+    }
+};
+
+export const sessionRepository = createRepository(selectBackend());
+
+export const fetchAllHistory = (uid: string) => fetchAllPages(sessionRepository, uid);
+
+// Everything the user (or the guest, when uid is null) has, including sessions not yet synced
+export const fetchAllSessions = async (uid: string | null) => {
+    const local = (await listLocalSessions())
+        .filter(s => s.ownerId === uid && (uid === null || s.status === 'pending'))
+        .map(toHistoryItem);
+    const remote = uid ? await fetchAllHistory(uid) : [];
+    return [...local.filter(l => !remote.some(r => r.id === l.id)), ...remote];
+};
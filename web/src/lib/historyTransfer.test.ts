@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { exportHistory, HistoryFileError, importHistory, parseHistoryFile } from './historyTransfer';
+import { fetchAllHistory } from './history';
+import type { HistoryItem, Mantra } from '../types';
+
+// The tests run against the in-memory session backend
+const START = '2026-03-01T08:00:00.000Z';
+const END = '2026-03-01T08:10:00.000Z';
+
+const mantras: Mantra[] = [{ id: 'm-om', text: 'Om', order: 0, archived: false }];
+
+const item = (overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+    id: 's1',
+    count: 21,
+    word: 'Om',
+    mantraId: 'm-om',
+    lostFocusCount: 2,
+    timestamp: Timestamp.fromMillis(Date.parse(END)),
+    startTime: Timestamp.fromMillis(Date.parse(START)),
+    endTime: Timestamp.fromMillis(Date.parse(END)),
+    userId: 'alice',
+    timeZone: 'Europe/Madrid',
+    localDate: '2026-03-01',
+    ...overrides,
+});
+
+const csv = (...rows: string[]) => ['start,end,mantra,count,lost_focus,duration_seconds,note,time_zone', ...rows].join('\n');
+
+const fileError = (run: () => unknown) => {
+    try {
+        run();
+    } catch (e) {
+        return e instanceof HistoryFileError ? e.key : e;
+    }
+    return null;
+};
+
+describe('parseHistoryFile', () => {
+    it('reads back its own CSV and JSON exports', () => {
+        const items = [item({ note: 'calm, then "busy"\nthen calm' }), item({ id: 's2', count: 7, note: undefined, timeZone: undefined, localDate: undefined })];
+        for (const [name, format] of [['history.csv', 'csv'], ['history.json', 'json']] as const) {
+            const { sessions, errors } = parseHistoryFile(name, exportHistory(items, mantras, format));
+            expect(errors).toEqual([]);
+            expect(sessions.map(s => [s.start, s.end, s.mantra, s.count, s.lostFocus, s.durationSeconds, s.note, s.timeZone])).toEqual([
+                [START, END, 'Om', 21, 2, 600, 'calm, then "busy"\nthen calm', 'Europe/Madrid'],
+                [START, END, 'Om', 7, 2, 600, undefined, undefined],
+            ]);
+        }
+    });
+
+    it('reads CSV with a byte order mark, CRLF line ends and blank lines', () => {
+        const text = `\uFEFF${csv(`${START},${END},Om,21,0,,,`, '', `${START},,Om,5,,,,`)}`.replace(/\n/g, '\r\n');
+        expect(parseHistoryFile('history.csv', text).sessions.map(s => s.count)).toEqual([21, 5]);
+    });
+
+    it('takes the end from the duration, and defaults lost focus and the mantra', () => {
+        const { sessions } = parseHistoryFile('other.csv', 'Start,Count,Duration_Seconds\n2026-03-01T08:00:00Z,30,90');
+        expect(sessions).toEqual([{
+            start: START,
+            end: '2026-03-01T08:01:30.000Z',
+            mantra: 'relax',
+            count: 30,
+            lostFocus: 0,
+            durationSeconds: 90,
+        }]);
+    });
+
+    it('names each rejected CSV row by its line and keeps the rest', () => {
+        const { sessions, errors } = parseHistoryFile('history.csv', csv(
+            `${START},${END},Om,21,0,600,,`,
+            `yesterday,${END},Om,21,0,600,,`,
+            `${START},${END},Om,-4,0,600,,`,
+            `${END},${START},Om,21,0,600,,`,
+            `${START},${END},Om,21,0,600,,Mars/Olympus_Mons`,
+        ));
+        expect(sessions).toHaveLength(1);
+        expect(errors).toEqual([
+            { row: { key: 'transfer.row', params: { number: 3 } }, reason: { key: 'transfer.invalidStart' } },
+            { row: { key: 'transfer.row', params: { number: 4 } }, reason: { key: 'transfer.invalidCount' } },
+            { row: { key: 'transfer.row', params: { number: 5 } }, reason: { key: 'transfer.endBeforeStart' } },
+            { row: { key: 'transfer.row', params: { number: 6 } }, reason: { key: 'transfer.unknownTimeZone' } },
+        ]);
+    });
+
+    it('rejects sessions the rules would refuse', () => {
+        const future = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString();
+        const { errors } = parseHistoryFile('history.csv', csv(
+            `${future},,Om,1,0,,,`,
+            `${START},${END},Om,1000001,0,,,`,
+            `${START},${END},${'m'.repeat(41)},1,0,,,`,
+            `${START},${END},Om,1.5,0,,,`,
+        ));
+        expect(errors.map(e => e.reason.key)).toEqual(['transfer.inFuture', 'transfer.countTooHigh', 'transfer.mantraTooLong', 'transfer.invalidCount']);
+    });
+
+    it('names rejected JSON sessions by their place in the file', () => {
+        const text = JSON.stringify({ format: 'relax-history', version: 1, sessions: [{ start: START, count: 3 }, 'nonsense'] });
+        expect(parseHistoryFile('history.json', text).errors).toEqual([
+            { row: { key: 'transfer.session', params: { number: 2 } }, reason: { key: 'transfer.invalidStart' } },
+        ]);
+    });
+
+    it('keeps only the optional parts the rules accept', () => {
+        const text = JSON.stringify({
+            format: 'relax-account-archive',
+            version: 1,
+            sessions: [{
+                start: START,
+                end: END,
+                count: 3,
+                goal: { type: 'laps', target: 10, chimeInterval: 0 },
+                pacing: { patternId: 'box', autoCount: true, bpm: 6 },
+                soundscape: { name: 'Rain', mix: { white: 0, pink: 0.2, brown: 0, rain: 0.8, ocean: 1 } },
+                checkIn: { before: { mood: 2 }, after: { mood: 9 } },
+                timeline: { repeats: 'a.a', lostFocus: '' },
+            }],
+        });
+        const [session] = parseHistoryFile('archive.json', text).sessions;
+        expect(session.goal).toBeUndefined();
+        expect(session.pacing).toEqual({ patternId: 'box', autoCount: true });
+        expect(session.soundscape).toEqual({ name: 'Rain', mix: { white: 0, pink: 0.2, brown: 0, rain: 0.8 } });
+        expect(session.checkIn).toBeUndefined();
+        expect(session.timeline).toEqual({ repeats: 'a.a', lostFocus: '' });
+    });
+
+    it('refuses files it cannot read at all', () => {
+        expect(fileError(() => parseHistoryFile('history.json', '{ not json'))).toBe('transfer.notJson');
+        expect(fileError(() => parseHistoryFile('history.json', '{"format":"other","sessions":[]}'))).toBe('transfer.notExport');
+        expect(fileError(() => parseHistoryFile('history.json', '{"format":"relax-history","version":2,"sessions":[]}'))).toBe('transfer.newerVersion');
+        expect(fileError(() => parseHistoryFile('history.csv', 'when,how many\n2026-03-01,3'))).toBe('transfer.csvColumns');
+    });
+});
+
+describe('importHistory', () => {
+    it('skips sessions already in the history and repeats within the file', async () => {
+        const { sessions } = parseHistoryFile('history.csv', csv(
+            `${START},${END},Om,21,0,,,`,
+            `${START},${END},om,8,0,,,`,
+            `${START},${END},Breathe,8,0,,,`,
+            '2026-03-02T08:00:00Z,2026-03-02T08:05:00Z,Breathe,8,1,,,Asia/Tokyo',
+        ));
+        const result = await importHistory('dedupe-user', sessions, [item()], mantras);
+        expect(result).toEqual({ imported: 2, skipped: 2 });
+
+        const stored = await fetchAllHistory('dedupe-user');
+        expect(stored.map(s => [s.count, s.word, s.mantraId, s.localDate]).sort()).toEqual([
+            [8, 'Breathe', undefined, '2026-03-02'],
+            [8, 'Om', 'm-om', '2026-03-01'],
+        ].sort());
+    });
+});
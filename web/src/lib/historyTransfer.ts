@@ -0,0 +1,379 @@
+import { MAX_MANTRA_LENGTH, resolveMantra, resolveMantraText } from '../data/mantras';
+import { isValidTimeZone, recordDateFields } from './dates';
+import { sessionRepository } from './history';
+import type { MessageKey, MessageParams } from './i18n';
+import { MAX_NOTE_LENGTH, MAX_SESSION_COUNT } from './sessionRepository';
+import { MAX_SOUNDSCAPE_NAME_LENGTH, NOISE_TYPES } from '../data/soundscapes';
+import { MAX_CHECK_IN_NOTE_LENGTH, MAX_MOOD, MIN_MOOD, normalizeCheckIn } from '../data/moods';
+import type {
+    HistoryItem,
+    Mantra,
+    MoodCheckIn,
+    PacingSettings,
+    SessionCheckIn,
+    SessionGoal,
+    SessionSoundscape,
+    SessionTimeline,
+} from '../types';
+
+export type ExportFormat = 'csv' | 'json';
+
+const EXPORT_FORMAT_NAME = 'relax-history';
+// Full account archives carry the same sessions list, so they import too
+export const ARCHIVE_FORMAT_NAME = 'relax-account-archive';
+export const EXPORT_VERSION = 1;
+const CSV_COLUMNS = ['start', 'end', 'mantra', 'count', 'lost_focus', 'duration_seconds', 'note', 'time_zone'] as const;
+
+// One session in the portable shape shared by both export formats
+export interface ExportedSession {
+    start: string;
+    end: string;
+    mantra: string;
+    count: number;
+    lostFocus: number;
+    durationSeconds: number;
+    note?: string;
+    // IANA timezone the session was recorded in
+    timeZone?: string;
+    timeline?: SessionTimeline;
+    goal?: SessionGoal;
+    goalReached?: boolean;
+    pacing?: PacingSettings;
+    soundscape?: SessionSoundscape;
+    checkIn?: SessionCheckIn;
+}
+
+// Import messages are keys so they can be shown in the user's language
+export interface ImportMessage {
+    key: MessageKey;
+    params?: MessageParams;
+}
+
+export interface ImportRowError {
+    // The session's place in a JSON file, or its line in a CSV
+    row: ImportMessage;
+    reason: ImportMessage;
+}
+
+export interface ImportResult {
+    sessions: ExportedSession[];
+    // One per rejected row, naming the row so it can be fixed
+    errors: ImportRowError[];
+}
+
+// Thrown when the file as a whole can't be used
+export class HistoryFileError extends Error {
+    key: MessageKey;
+
+    constructor(key: MessageKey) {
+        super(key);
+        this.name = 'HistoryFileError';
+        this.key = key;
+    }
+}
+
+export const toExportedSession = (item: HistoryItem, mantras: Mantra[]): ExportedSession => {
+    const end = (item.endTime ?? item.timestamp).toMillis();
+    const start = item.startTime?.toMillis() ?? end;
+    return {
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        mantra: resolveMantraText(item, mantras),
+        count: item.count,
+        lostFocus: item.lostFocusCount ?? 0,
+        durationSeconds: Math.round((end - start) / 1000),
+        ...(item.note ? { note: item.note } : {}),
+        ...(item.timeZone ? { timeZone: item.timeZone } : {}),
+        ...(item.timeline ? { timeline: item.timeline } : {}),
+        ...(item.goal ? { goal: item.goal, goalReached: item.goalReached ?? false } : {}),
+        ...(item.pacing ? { pacing: item.pacing } : {}),
+        ...(item.soundscape ? { soundscape: item.soundscape } : {}),
+        ...(item.checkIn ? { checkIn: item.checkIn } : {}),
+    };
+};
+
+const escapeCsv = (value: string | number) => {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportHistory = (items: HistoryItem[], mantras: Mantra[], format: ExportFormat) => {
+    const sessions = items
+        .map(item => toExportedSession(item, mantras))
+        .sort((a, b) => a.start.localeCompare(b.start));
+
+    if (format === 'json') {
+        return JSON.stringify({
+            format: EXPORT_FORMAT_NAME,
+            version: EXPORT_VERSION,
+            exportedAt: new Date().toISOString(),
+            sessions,
+        }, null, 2);
+    }
+
+    const rows = sessions.map(s => [s.start, s.end, s.mantra, s.count, s.lostFocus, s.durationSeconds, s.note ?? '', s.timeZone ?? ''].map(escapeCsv).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const downloadFile = (contents: string, filename: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and newlines
+const parseCsvRows = (text: string) => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Limits firestore.rules put on the optional parts of a session
+const MAX_PATTERN_ID_LENGTH = 40;
+const MAX_TIME_ZONE_LENGTH = 64;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+/*
+ * The parsers below rebuild each optional part from only the fields the
+ * rules allow, or return null when it can't be stored. One bad row would
+ * otherwise fail the whole batch it is written in.
+ */
+
+const parseGoal = (value: unknown): SessionGoal | null => {
+    if (!isObject(value)) return null;
+    const { type, target, chimeInterval } = value;
+    if ((type !== 'duration' && type !== 'count') || typeof target !== 'number' || !(target > 0) || !isNonNegativeInteger(chimeInterval)) {
+        return null;
+    }
+    return { type, target, chimeInterval };
+};
+
+const parseTimeline = (value: unknown): SessionTimeline | null => {
+    if (!isObject(value)) return null;
+    const { repeats, lostFocus } = value;
+    return typeof repeats === 'string' && typeof lostFocus === 'string' ? { repeats, lostFocus } : null;
+};
+
+const parsePacing = (value: unknown): PacingSettings | null => {
+    if (!isObject(value)) return null;
+    const { patternId, autoCount } = value;
+    if (typeof patternId !== 'string' || patternId.length > MAX_PATTERN_ID_LENGTH || typeof autoCount !== 'boolean') return null;
+    return { patternId, autoCount };
+};
+
+// Every noise type must have a volume; anything else in the mix is left out
+const parseSoundscape = (value: unknown): SessionSoundscape | null => {
+    if (!isObject(value) || !isObject(value.mix)) return null;
+    const { name, mix } = value as { name: unknown; mix: Record<string, unknown> };
+    if (typeof name !== 'string' || name.length > MAX_SOUNDSCAPE_NAME_LENGTH) return null;
+    const volumes = NOISE_TYPES.map(id => [id, mix[id]] as const);
+    if (!volumes.every(([, volume]) => typeof volume === 'number' && volume >= 0 && volume <= 1)) return null;
+    return { name, mix: Object.fromEntries(volumes) as SessionSoundscape['mix'] };
+};
+
+const isMoodCheckIn = (value: unknown): value is MoodCheckIn => {
+    const checkIn = value as MoodCheckIn;
+    return isObject(checkIn)
+        && Number.isInteger(checkIn.mood) && checkIn.mood >= MIN_MOOD && checkIn.mood <= MAX_MOOD
+        && (checkIn.note === undefined || (typeof checkIn.note === 'string' && checkIn.note.length <= MAX_CHECK_IN_NOTE_LENGTH));
+};
+
+// Either half of a check-in may be missing, but a malformed half drops the whole check-in
+const parseCheckIn = (value: unknown): SessionCheckIn | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const { before, after } = value as Record<string, unknown>;
+    if ((before !== undefined && !isMoodCheckIn(before)) || (after !== undefined && !isMoodCheckIn(after))) return null;
+    if (!before && !after) return null;
+    return {
+        ...(before ? { before: normalizeCheckIn(before) } : {}),
+        ...(after ? { after: normalizeCheckIn(after) } : {}),
+    };
+};
+
+/**
+ * Checks one raw session and returns it in normalised form, or the reason it
+ * was rejected. The end time may be given directly or as a duration; other
+ * trackers rarely record lost focus, so it defaults to 0.
+ */
+const validateSession = (raw: Record<string, unknown>): ExportedSession | ImportMessage => {
+    const start = Date.parse(String(raw.start ?? ''));
+    if (Number.isNaN(start)) return { key: 'transfer.invalidStart' };
+
+    let end = start;
+    if (raw.end !== undefined && raw.end !== '') {
+        end = Date.parse(String(raw.end));
+        if (Number.isNaN(end)) return { key: 'transfer.invalidEnd' };
+    } else if (raw.durationSeconds !== undefined && raw.durationSeconds !== '') {
+        const duration = Number(raw.durationSeconds);
+        if (!Number.isFinite(duration) || duration < 0) return { key: 'transfer.invalidDuration' };
+        end = start + duration * 1000;
+    }
+    if (end < start) return { key: 'transfer.endBeforeStart' };
+    if (end > Date.now() + 24 * 60 * 60 * 1000) return { key: 'transfer.inFuture' };
+
+    const count = raw.count === undefined || raw.count === '' ? NaN : Number(raw.count);
+    if (!isNonNegativeInteger(count)) return { key: 'transfer.invalidCount' };
+    if (count > MAX_SESSION_COUNT) return { key: 'transfer.countTooHigh', params: { max: MAX_SESSION_COUNT } };
+    const lostFocus = raw.lostFocus === undefined || raw.lostFocus === '' ? 0 : Number(raw.lostFocus);
+    if (!isNonNegativeInteger(lostFocus)) return { key: 'transfer.invalidLostFocus' };
+
+    const mantra = String(raw.mantra ?? '').trim() || 'relax';
+    if (mantra.length > MAX_MANTRA_LENGTH) return { key: 'transfer.mantraTooLong', params: { max: MAX_MANTRA_LENGTH } };
+    const note = typeof raw.note === 'string' ? raw.note.trim().slice(0, MAX_NOTE_LENGTH) : '';
+    const checkIn = parseCheckIn(raw.checkIn);
+    const timeZone = typeof raw.timeZone === 'string' ? raw.timeZone.trim() : '';
+    if (timeZone && (timeZone.length > MAX_TIME_ZONE_LENGTH || !isValidTimeZone(timeZone))) return { key: 'transfer.unknownTimeZone' };
+    const timeline = parseTimeline(raw.timeline);
+    const goal = parseGoal(raw.goal);
+    const pacing = parsePacing(raw.pacing);
+    const soundscape = parseSoundscape(raw.soundscape);
+
+    return {
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        mantra,
+        count,
+        lostFocus,
+        durationSeconds: Math.round((end - start) / 1000),
+        ...(note ? { note } : {}),
+        ...(timeZone ? { timeZone } : {}),
+        ...(timeline ? { timeline } : {}),
+        ...(goal ? { goal, goalReached: raw.goalReached === true } : {}),
+        ...(pacing ? { pacing } : {}),
+        ...(soundscape ? { soundscape } : {}),
+        ...(checkIn ? { checkIn } : {}),
+    };
+};
+
+const collect = (raws: Record<string, unknown>[], row: (index: number) => ImportMessage): ImportResult => {
+    const result: ImportResult = { sessions: [], errors: [] };
+    raws.forEach((raw, index) => {
+        const session = validateSession(raw);
+        if ('key' in session) {
+            result.errors.push({ row: row(index), reason: session });
+        } else {
+            result.sessions.push(session);
+        }
+    });
+    return result;
+};
+
+const parseJson = (text: string): ImportResult => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new HistoryFileError('transfer.notJson');
+    }
+    const file = data as { format?: unknown; version?: unknown; sessions?: unknown };
+    if (typeof file !== 'object' || file === null || ![EXPORT_FORMAT_NAME, ARCHIVE_FORMAT_NAME].includes(String(file.format)) || !Array.isArray(file.sessions)) {
+        throw new HistoryFileError('transfer.notExport');
+    }
+    if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+        throw new HistoryFileError('transfer.newerVersion');
+    }
+    const raws = file.sessions.map(s => (typeof s === 'object' && s !== null ? s : {}) as Record<string, unknown>);
+    return collect(raws, index => ({ key: 'transfer.session', params: { number: index + 1 } }));
+};
+
+const parseCsv = (text: string): ImportResult => {
+    const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    const columns = (header ?? []).map(h => h.trim().toLowerCase());
+    if (!columns.includes('start') || !columns.includes('count')) {
+        throw new HistoryFileError('transfer.csvColumns');
+    }
+    const keyFor: Record<string, string> = { lost_focus: 'lostFocus', duration_seconds: 'durationSeconds', time_zone: 'timeZone' };
+    const raws = rows.map(row => Object.fromEntries(
+        columns.map((column, i) => [keyFor[column] ?? column, row[i]?.trim() ?? ''])
+    ));
+    // Row 1 is the header
+    return collect(raws, index => ({ key: 'transfer.row', params: { number: index + 2 } }));
+};
+
+// Throws a HistoryFileError when the file as a whole can't be used
+export const parseHistoryFile = (filename: string, text: string): ImportResult =>
+    filename.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{') ? parseJson(text) : parseCsv(text);
+
+// Sessions are the same if they started and ended at the same moment with the same count
+const sessionKey = (start: number, end: number, count: number) => `${start}:${end}:${count}`;
+
+/**
+ * Adds the sessions to the user's history, skipping any that match an
+ * existing session or an earlier row of the same file. Resolves with how
+ * many were written.
+ */
+export const importHistory = async (uid: string, sessions: ExportedSession[], existing: HistoryItem[], mantras: Mantra[]) => {
+    const seen = new Set(existing.map(item => {
+        const end = (item.endTime ?? item.timestamp).toMillis();
+        return sessionKey(item.startTime?.toMillis() ?? end, end, item.count);
+    }));
+    const fresh = sessions.filter(session => {
+        const key = sessionKey(Date.parse(session.start), Date.parse(session.end), session.count);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+
+    await sessionRepository.addSessions(uid, fresh.map(session => {
+        const mantra = resolveMantra({ word: session.mantra }, mantras);
+        return {
+            id: crypto.randomUUID(),
+            count: session.count,
+            word: mantra?.text ?? session.mantra,
+            mantraId: mantra?.id,
+            lostFocusCount: session.lostFocus,
+            startTime: Date.parse(session.start),
+            endTime: Date.parse(session.end),
+            // Sessions from files without a timezone are placed in the device's own
+            ...recordDateFields(Date.parse(session.start), session.timeZone),
+            note: session.note,
+            timeline: session.timeline,
+            goal: session.goal,
+            goalReached: session.goalReached,
+            pacing: session.pacing,
+            soundscape: session.soundscape,
+            checkIn: session.checkIn,
+        };
+    }));
+    return { imported: fresh.length, skipped: sessions.length - fresh.length };
+};
@@ -0,0 +1,103 @@
+import { CATALOGS, DEFAULT_LOCALE, findLocale, LOCALES } from '../data/locales';
+import type { en } from '../data/messages/en';
+import type { Locale } from '../types';
+
+const STORAGE_KEY = 'locale';
+
+type PluralBase<K> = K extends `${infer Base}_${Intl.LDMLPluralRule}` ? Base : K;
+
+// Plural forms are looked up by their base key, e.g. 'history.sessionCount'
+export type MessageKey = PluralBase<keyof typeof en>;
+export type MessageParams = Record<string, string | number>;
+
+// A saved choice wins, then the first browser language we have a catalog for
+const detectLocale = (): Locale => {
+    const saved = findLocale(localStorage.getItem(STORAGE_KEY) ?? '');
+    if (saved) return saved.id;
+    for (const tag of navigator.languages ?? [navigator.language]) {
+        const match = findLocale(tag.split('-')[0].toLowerCase());
+        if (match) return match.id;
+    }
+    return DEFAULT_LOCALE;
+};
+
+let currentLocale = detectLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = () => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+    currentLocale = locale;
+    localStorage.setItem(STORAGE_KEY, locale);
+    listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const localeDirection = (locale: Locale) => LOCALES.find(l => l.id === locale)?.dir ?? 'ltr';
+
+// Intl objects are costly to build, so each locale and option set gets one
+const formatters = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules | Intl.ListFormat>();
+const cached = <T extends Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules | Intl.ListFormat>(key: string, create: () => T) => {
+    if (!formatters.has(key)) formatters.set(key, create());
+    return formatters.get(key) as T;
+};
+
+export const formatNumber = (locale: Locale, value: number, options: Intl.NumberFormatOptions = {}) =>
+    cached(`number:${locale}:${JSON.stringify(options)}`, () => new Intl.NumberFormat(locale, options)).format(value);
+
+/**
+ * Looks the key up in the locale's catalog, falling back to English. A
+ * numeric `count` picks the plural form; `{name}` placeholders are filled
+ * from the params, with numbers formatted for the locale.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}) => {
+    const lookup = (catalogLocale: Locale) => {
+        const catalog = CATALOGS[catalogLocale];
+        if (typeof params.count === 'number') {
+            const rules = cached(`plural:${catalogLocale}`, () => new Intl.PluralRules(catalogLocale));
+            return catalog[`${key}_${rules.select(params.count)}`] ?? catalog[`${key}_other`] ?? catalog[key];
+        }
+        return catalog[key];
+    };
+    const template = lookup(locale) ?? lookup(DEFAULT_LOCALE) ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = params[name];
+        if (value === undefined) return match;
+        return typeof value === 'number' ? formatNumber(locale, value) : value;
+    });
+};
+
+export const formatDate = (
+    locale: Locale,
+    date: Date,
+    options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' }
+) => cached(`date:${locale}:${JSON.stringify(options)}`, () => new Intl.DateTimeFormat(locale, options)).format(date);
+
+export const formatTime = (locale: Locale, date: Date) =>
+    formatDate(locale, date, { hour: '2-digit', minute: '2-digit' });
+
+// "A, B and C" in the locale's own words
+export const formatList = (locale: Locale, items: string[]) =>
+    cached(`list:${locale}`, () => new Intl.ListFormat(locale, { type: 'conjunction' })).format(items);
+
+// Hours, minutes and seconds in the locale's short unit style, e.g. "1h 5m 30s"
+export const formatDuration = (locale: Locale, ms: number) => {
+    const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    const unit = (value: number, name: 'hour' | 'minute' | 'second') =>
+        formatNumber(locale, value, { style: 'unit', unit: name, unitDisplay: 'narrow' });
+    const parts = [];
+    if (hours > 0) parts.push(unit(hours, 'hour'));
+    if (minutes > 0) parts.push(unit(minutes, 'minute'));
+    if (seconds > 0 || parts.length === 0) parts.push(unit(seconds, 'second'));
+    return parts.join(' ');
+};
@@ -0,0 +1,53 @@
+const DB_NAME = 'relax';
+const DB_VERSION = 2;
+
+export const SESSIONS_STORE = 'sessions';
+// Small key-value records the service worker also reads
+export const SETTINGS_STORE = 'settings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+                    db.createObjectStore(SETTINGS_STORE);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // Let a newer version open in another tab instead of blocking its upgrade
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+    const db = await openDatabase();
+    return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
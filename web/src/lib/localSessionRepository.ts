@@ -0,0 +1,49 @@
+import { Timestamp } from 'firebase/firestore';
+import { createMemorySessionRepository } from './memorySessionRepository';
+import { debugError } from '../logger';
+import type { HistoryItem } from '../types';
+
+const STORAGE_KEY = 'sessionHistory';
+
+// Timestamps are kept as milliseconds so the list survives JSON
+type StoredItem = Omit<HistoryItem, 'timestamp' | 'startTime' | 'endTime'> & {
+    timestamp: number;
+    startTime?: number;
+    endTime?: number;
+};
+
+const toStored = ({ timestamp, startTime, endTime, ...rest }: HistoryItem): StoredItem => ({
+    ...rest,
+    timestamp: timestamp.toMillis(),
+    ...(startTime ? { startTime: startTime.toMillis() } : {}),
+    ...(endTime ? { endTime: endTime.toMillis() } : {}),
+});
+
+const fromStored = ({ timestamp, startTime, endTime, ...rest }: StoredItem): HistoryItem => ({
+    ...rest,
+    timestamp: Timestamp.fromMillis(timestamp),
+    ...(startTime !== undefined ? { startTime: Timestamp.fromMillis(startTime) } : {}),
+    ...(endTime !== undefined ? { endTime: Timestamp.fromMillis(endTime) } : {}),
+});
+
+const loadItems = () => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as StoredItem[];
+        return Array.isArray(stored) ? stored.map(fromStored) : [];
+    } catch (e) {
+        debugError('Error reading local history: ', e);
+        return [];
+    }
+};
+
+/**
+ * The in-memory repository, written through to localStorage so accounts
+ * keep their history on this device between visits without Firestore.
+ */
+export const createLocalSessionRepository = () => createMemorySessionRepository(loadItems(), items => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(items.map(toStored)));
+    } catch (e) {
+        debugError('Error saving local history: ', e);
+    }
+});
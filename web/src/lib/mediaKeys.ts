@@ -0,0 +1,60 @@
+import { getAudioContext } from './chime';
+
+export type MediaKeyAction = 'increment' | 'lostFocus';
+
+let keepAlive: HTMLAudioElement | null = null;
+
+/**
+ * Browsers only route media keys to a page that is playing media, so a
+ * silent stream is kept playing while media keys are enabled. Must be
+ * started from a user gesture.
+ */
+export const startSilentPlayback = async () => {
+    if (keepAlive) return;
+    const ctx = getAudioContext();
+    const destination = ctx.createMediaStreamDestination();
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    const osc = ctx.createOscillator();
+    osc.connect(gain).connect(destination);
+    osc.start();
+
+    keepAlive = new Audio();
+    keepAlive.srcObject = destination.stream;
+    await keepAlive.play();
+};
+
+export const stopSilentPlayback = () => {
+    keepAlive?.pause();
+    keepAlive = null;
+};
+
+// Play/pause and next map to a repeat, previous to lost focus. Returns a cleanup function.
+export const bindMediaKeys = (onAction: (action: MediaKeyAction) => void) => {
+    if (!('mediaSession' in navigator)) return () => {};
+    const session = navigator.mediaSession;
+    const handlers: [MediaSessionAction, MediaKeyAction][] = [
+        ['play', 'increment'],
+        ['pause', 'increment'],
+        ['nexttrack', 'increment'],
+        ['previoustrack', 'lostFocus'],
+    ];
+    session.metadata = new MediaMetadata({ title: 'relax', artist: 'Counting session' });
+    handlers.forEach(([mediaAction, action]) => {
+        try {
+            session.setActionHandler(mediaAction, () => onAction(action));
+        } catch {
+            // Not every browser supports every action
+        }
+    });
+    return () => {
+        handlers.forEach(([mediaAction]) => {
+            try {
+                session.setActionHandler(mediaAction, null);
+            } catch {
+                // Same as above
+            }
+        });
+        session.metadata = null;
+    };
+};
@@ -0,0 +1,101 @@
+import { addContribution, itemContribution, type DailyDeltas } from './dailyStats';
+import {
+    matchesFilters,
+    planMerge,
+    recordToItem,
+    trimNote,
+    type HistoryFilters,
+    type SessionRepository,
+} from './sessionRepository';
+import type { HistoryItem } from '../types';
+
+/**
+ * Keeps sessions in a plain array, for running without a Firebase project
+ * and for feeding components fake data. Cursors are offsets into the
+ * filtered list and daily stats are summed on demand, so there are no
+ * rollups to keep in step. `onChange` sees the full list after each write.
+ */
+export const createMemorySessionRepository = (
+    initial: HistoryItem[] = [],
+    onChange?: (items: HistoryItem[]) => void
+): SessionRepository => {
+    let items = [...initial];
+
+    const update = (next: HistoryItem[]) => {
+        items = next;
+        onChange?.(items);
+    };
+
+    const select = (uid: string, filters: HistoryFilters) => items
+        .filter(item => item.userId === uid && matchesFilters(item, filters))
+        .sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis());
+
+    return {
+        fetchPage: async (uid, filters, pageSize, cursor = null) => {
+            const offset = typeof cursor === 'number' ? cursor : 0;
+            const matching = select(uid, filters);
+            const page = matching.slice(offset, offset + pageSize);
+            return {
+                items: page,
+                cursor: page.length > 0 ? offset + page.length : null,
+                hasMore: matching.length > offset + pageSize,
+            };
+        },
+
+        count: async (uid, filters = {}) => select(uid, filters).length,
+
+        addSession: async (uid, record) => {
+            if (items.some(item => item.id === record.id)) return false;
+            update([...items, recordToItem(record, uid)]);
+            return true;
+        },
+
+        addSessions: async (uid, records) => {
+            update([...items, ...records.map(record => recordToItem(record, uid))]);
+        },
+
+        updateNote: async (id, note) => {
+            const trimmed = trimNote(note);
+            update(items.map(item => item.id === id ? { ...item, note: trimmed ?? undefined } : item));
+        },
+
+        deleteSession: async (_uid, id) => {
+            update(items.filter(item => item.id !== id));
+        },
+
+        mergeSessions: async (_uid, toMerge) => {
+            const plan = planMerge(toMerge);
+            if (!plan) return;
+            const removed = new Set(plan.rest.map(item => item.id));
+            update(items.filter(item => !removed.has(item.id)).map(item => item.id !== plan.target.id ? item : {
+                ...item,
+                count: plan.count,
+                lostFocusCount: plan.lostFocusCount,
+                startTime: plan.startTime,
+                endTime: plan.endTime,
+                timeline: plan.timeline ?? undefined,
+                note: plan.note ?? undefined,
+                // A merged session no longer matches any single plan
+                goal: undefined,
+                goalReached: undefined,
+            }));
+        },
+
+        deleteAll: async (uid, onProgress) => {
+            const deleted = select(uid, {}).length;
+            update(items.filter(item => item.userId !== uid));
+            onProgress?.(deleted);
+            return deleted;
+        },
+
+        fetchDailyStats: async (uid, fromDate) => {
+            const deltas = select(uid, {}).reduce(
+                (totals, item) => addContribution(totals, itemContribution(item)),
+                {} as DailyDeltas
+            );
+            return Object.entries(deltas)
+                .filter(([date]) => !fromDate || date >= fromDate)
+                .map(([date, totals]) => ({ date, ...totals }));
+        },
+    };
+};
@@ -0,0 +1,90 @@
+import { SETTINGS_STORE, withStore } from './idb';
+import { getLocalDateKey } from './dates';
+
+/**
+ * What the page and the service worker share about reminders. The service
+ * worker reads the same record (see public/sw.js) so it can remind while the
+ * app is closed, and both mark a time as fired so it is shown only once a day.
+ */
+export interface ReminderState {
+    times: string[];
+    // Set to today's date once the daily goal is met; reminders are skipped for the rest of the day
+    goalMetDate: string | null;
+    // Written in the app's language, since the service worker has no catalogs
+    title: string;
+    body: string;
+    // time -> date it last fired
+    fired: Record<string, string>;
+}
+
+const STATE_KEY = 'reminders';
+export const PERIODIC_SYNC_TAG = 'relax-reminders';
+// A reminder that was missed by more than this is dropped rather than shown late
+const GRACE_MINUTES = 60;
+
+const EMPTY_STATE: ReminderState = { times: [], goalMetDate: null, title: '', body: '', fired: {} };
+
+const readState = async () =>
+    (await withStore<ReminderState | undefined>(SETTINGS_STORE, 'readonly', store => store.get(STATE_KEY))) ?? EMPTY_STATE;
+
+export const saveReminderState = async (update: Partial<ReminderState>) => {
+    const state = await readState();
+    await withStore(SETTINGS_STORE, 'readwrite', store => store.put({ ...state, ...update }, STATE_KEY));
+};
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+export const dueReminder = (state: ReminderState, now: Date) => {
+    const today = getLocalDateKey(now);
+    if (state.goalMetDate === today) return null;
+    const current = now.getHours() * 60 + now.getMinutes();
+    return state.times.find(time => {
+        const elapsed = current - toMinutes(time);
+        return elapsed >= 0 && elapsed <= GRACE_MINUTES && state.fired[time] !== today;
+    }) ?? null;
+};
+
+const showReminder = async (title: string, body: string) => {
+    const options: NotificationOptions = { body, icon: '/favicon.png', tag: 'relax-reminder' };
+    if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
+        const registration = await navigator.serviceWorker.ready;
+        await registration.showNotification(title, options);
+    } else {
+        new Notification(title, options);
+    }
+};
+
+// Called on a timer while the app is open
+export const checkReminders = async (now = new Date()) => {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return;
+    const state = await readState();
+    const time = dueReminder(state, now);
+    if (!time) return;
+    await saveReminderState({ fired: { ...state.fired, [time]: getLocalDateKey(now) } });
+    await showReminder(state.title, state.body);
+};
+
+interface PeriodicSyncManager {
+    register: (tag: string, options: { minInterval: number }) => Promise<void>;
+    unregister: (tag: string) => Promise<void>;
+}
+
+/**
+ * Periodic background sync lets the service worker wake up and check on its
+ * own. Only some browsers support it, and only for installed apps, so the
+ * in-page timer remains the main path.
+ */
+export const setBackgroundChecks = async (enabled: boolean) => {
+    if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return;
+    const registration = await navigator.serviceWorker.ready;
+    const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+    if (!periodicSync) return;
+    if (enabled) {
+        await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60 * 1000 });
+    } else {
+        await periodicSync.unregister(PERIODIC_SYNC_TAG);
+    }
+};
@@ -0,0 +1,107 @@
+import { SESSIONS_STORE, withStore } from './idb';
+import { sessionRepository } from './history';
+import { itemToRecord, recordToItem } from './sessionRepository';
+import { debugError } from '../logger';
+import type { HistoryItem, LocalSession, SessionRecord } from '../types';
+
+// Synced copies are kept briefly so the list doesn't flicker before the repository catches up
+const SYNCED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const listLocalSessions = () =>
+    withStore<LocalSession[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+
+const putLocalSession = (session: LocalSession) =>
+    withStore(SESSIONS_STORE, 'readwrite', store => store.put(session));
+
+const deleteLocalSession = (id: string) =>
+    withStore(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+
+export const enqueueSession = (record: SessionRecord, ownerId: string | null) =>
+    putLocalSession({ ...record, ownerId, status: 'pending', attempts: 0 });
+
+// Hands every guest session on this device to the account that just signed in
+export const claimGuestSessions = async (uid: string) => {
+    const sessions = await listLocalSessions();
+    await Promise.all(
+        sessions
+            .filter(s => s.ownerId === null)
+            .map(s => putLocalSession({ ...s, ownerId: uid }))
+    );
+};
+
+/**
+ * Moves an account's sessions back into the guest queue, so the next
+ * sign-in claims them. Used when an anonymous account signs in to an
+ * existing one instead of being linked: its synced sessions are copied under
+ * fresh ids (the old ids stay with the old account) and its pending ones
+ * change hands. Resolves with a function that puts everything back; the
+ * synced sessions are queued again under their own ids, so any already
+ * deleted from the account are stored again and the rest are skipped.
+ */
+export const releaseToGuest = async (uid: string, synced: HistoryItem[]) => {
+    const pending = (await listLocalSessions()).filter(s => s.ownerId === uid && s.status === 'pending');
+    const copies = synced.map(item => ({ ...itemToRecord(item), id: crypto.randomUUID() }));
+    await Promise.all([
+        ...pending.map(s => putLocalSession({ ...s, ownerId: null })),
+        ...copies.map(record => enqueueSession(record, null)),
+    ]);
+    return async () => {
+        await Promise.all([
+            ...pending.map(s => putLocalSession(s)),
+            ...copies.map(record => deleteLocalSession(record.id)),
+            ...synced.map(item => enqueueSession(itemToRecord(item), uid)),
+        ]);
+    };
+};
+
+// Drops the account's sessions from the device, synced or not, so nothing is pushed back after a deletion
+export const discardLocalSessions = async (uid: string) => {
+    const sessions = await listLocalSessions();
+    await Promise.all(sessions.filter(s => s.ownerId === uid).map(s => deleteLocalSession(s.id)));
+};
+
+export const toHistoryItem = (session: LocalSession): HistoryItem => ({
+    ...recordToItem(session, session.ownerId ?? ''),
+    pending: session.status === 'pending',
+});
+
+let inFlight: Promise<number> | null = null;
+
+/**
+ * Pushes the user's pending sessions to the session repository.
+ * The local id doubles as the stored id, and the repository skips ids it
+ * already has, so a retry after a lost acknowledgement neither duplicates
+ * the session nor counts it twice in the daily rollup. Resolves with the
+ * number of sessions synced.
+ */
+export const syncPendingSessions = (uid: string) => {
+    if (!inFlight) {
+        inFlight = (async () => {
+            let synced = 0;
+            try {
+                const sessions = await listLocalSessions();
+                for (const session of sessions) {
+                    if (session.status === 'synced') {
+                        if (Date.now() - (session.syncedAt ?? 0) > SYNCED_RETENTION_MS) {
+                            await deleteLocalSession(session.id);
+                        }
+                        continue;
+                    }
+                    if (session.ownerId !== uid) continue;
+                    try {
+                        await sessionRepository.addSession(uid, session);
+                        await putLocalSession({ ...session, status: 'synced', syncedAt: Date.now() });
+                        synced++;
+                    } catch (e) {
+                        debugError('Error syncing session: ', e);
+                        await putLocalSession({ ...session, attempts: session.attempts + 1 });
+                    }
+                }
+            } finally {
+                inFlight = null;
+            }
+            return synced;
+        })();
+    }
+    return inFlight;
+};
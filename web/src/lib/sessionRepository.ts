@@ -0,0 +1,187 @@
+import { Timestamp } from 'firebase/firestore';
+import { mergeTimelines } from './timeline';
+import { addContribution, itemContribution, type DailyDeltas } from './dailyStats';
+import type { DailyStats, HistoryItem, Mantra, SessionRecord, SessionTimeline } from '../types';
+
+export const MAX_NOTE_LENGTH = 500;
+// The most repeats firestore.rules accept for one session
+export const MAX_SESSION_COUNT = 1000000;
+
+export type SessionBackend = 'firestore' | 'local' | 'memory';
+
+export interface HistoryFilters {
+    mantra?: Mantra;
+    // Inclusive local dates, as yyyy-mm-dd
+    from?: string;
+    to?: string;
+}
+
+// Where the next page starts; only the repository that handed it out knows what's inside
+export type HistoryCursor = unknown;
+
+export interface HistoryPage {
+    items: HistoryItem[];
+    // null once there is nothing left to read
+    cursor: HistoryCursor | null;
+    hasMore: boolean;
+}
+
+/**
+ * Everything the app reads or writes about an account's saved sessions.
+ * Guest sessions never get here; they stay in the device queue until the
+ * guest signs in.
+ */
+export interface SessionRepository {
+    // Newest first
+    fetchPage: (uid: string, filters: HistoryFilters, pageSize: number, cursor?: HistoryCursor | null) => Promise<HistoryPage>;
+    count: (uid: string, filters?: HistoryFilters) => Promise<number>;
+    // Skips a session whose id is already stored; resolves with whether it was written
+    addSession: (uid: string, record: SessionRecord) => Promise<boolean>;
+    addSessions: (uid: string, records: SessionRecord[]) => Promise<void>;
+    updateNote: (id: string, note: string) => Promise<void>;
+    deleteSession: (uid: string, id: string) => Promise<void>;
+    mergeSessions: (uid: string, items: HistoryItem[]) => Promise<void>;
+    fetchDailyStats: (uid: string, fromDate?: string) => Promise<DailyStats[]>;
+    // Removes every session and rollup of the user; `onProgress` gets the running total deleted
+    deleteAll: (uid: string, onProgress?: (deleted: number) => void) => Promise<number>;
+}
+
+// Reads every session the user has, a page at a time
+export const fetchAllPages = async (repository: SessionRepository, uid: string) => {
+    const items: HistoryItem[] = [];
+    let cursor: HistoryCursor | null = null;
+    let hasMore = true;
+    while (hasMore) {
+        const page = await repository.fetchPage(uid, {}, 500, cursor);
+        items.push(...page.items);
+        cursor = page.cursor;
+        hasMore = page.hasMore;
+    }
+    return items;
+};
+
+// The stored shape of a session, without its id
+export const toHistoryDoc = (record: SessionRecord, uid: string) => ({
+    count: record.count,
+    word: record.word,
+    ...(record.mantraId ? { mantraId: record.mantraId } : {}),
+    lostFocusCount: record.lostFocusCount,
+    timestamp: Timestamp.fromMillis(record.endTime),
+    startTime: Timestamp.fromMillis(record.startTime),
+    endTime: Timestamp.fromMillis(record.endTime),
+    ...(record.timeZone && record.localDate ? { timeZone: record.timeZone, localDate: record.localDate } : {}),
+    userId: uid,
+    ...(record.note ? { note: record.note } : {}),
+    ...(record.timeline ? { timeline: record.timeline } : {}),
+    ...(record.goal ? { goal: record.goal, goalReached: record.goalReached ?? false } : {}),
+    ...(record.pacing ? { pacing: record.pacing } : {}),
+    ...(record.soundscape ? { soundscape: record.soundscape } : {}),
+    ...(record.checkIn ? { checkIn: record.checkIn } : {}),
+});
+
+export const recordToItem = (record: SessionRecord, uid: string): HistoryItem => ({ id: record.id, ...toHistoryDoc(record, uid) });
+
+// The reverse of recordToItem, for sessions that have to be written again
+export const itemToRecord = (item: HistoryItem): SessionRecord => {
+    const endTime = (item.endTime ?? item.timestamp).toMillis();
+    return {
+        id: item.id,
+        count: item.count,
+        word: item.word ?? 'relax',
+        ...(item.mantraId ? { mantraId: item.mantraId } : {}),
+        lostFocusCount: item.lostFocusCount ?? 0,
+        startTime: item.startTime?.toMillis() ?? endTime,
+        endTime,
+        ...(item.timeZone && item.localDate ? { timeZone: item.timeZone, localDate: item.localDate } : {}),
+        ...(item.note ? { note: item.note } : {}),
+        ...(item.timeline ? { timeline: item.timeline } : {}),
+        ...(item.goal ? { goal: item.goal, goalReached: item.goalReached ?? false } : {}),
+        ...(item.pacing ? { pacing: item.pacing } : {}),
+        ...(item.soundscape ? { soundscape: item.soundscape } : {}),
+        ...(item.checkIn ? { checkIn: item.checkIn } : {}),
+    };
+};
+
+// Empty notes are removed rather than stored
+export const trimNote = (note: string) => note.trim().slice(0, MAX_NOTE_LENGTH) || null;
+
+// Local-day bounds of the date filters, in milliseconds
+export const filterBounds = (filters: HistoryFilters) => {
+    let to: number | null = null;
+    if (filters.to) {
+        const end = new Date(`${filters.to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        to = end.getTime();
+    }
+    return {
+        from: filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : null,
+        to,
+    };
+};
+
+export const matchesFilters = (item: HistoryItem, filters: HistoryFilters) => {
+    const { from, to } = filterBounds(filters);
+    const time = item.timestamp.toMillis();
+    // Sessions saved before mantras had ids only carry the word
+    if (filters.mantra && item.mantraId !== filters.mantra.id && item.word !== filters.mantra.text) return false;
+    return (from === null || time >= from) && (to === null || time < to);
+};
+
+const startMillis = (item: HistoryItem) => (item.startTime ?? item.timestamp).toMillis();
+const endMillis = (item: HistoryItem) => (item.endTime ?? item.timestamp).toMillis();
+
+export interface MergePlan {
+    target: HistoryItem;
+    rest: HistoryItem[];
+    count: number;
+    lostFocusCount: number;
+    startTime: Timestamp;
+    endTime: Timestamp;
+    timeline: SessionTimeline | null;
+    note: string | null;
+    // Rollup changes that take the originals out and put the merged session in
+    deltas: DailyDeltas;
+}
+
+/**
+ * Works out how several sessions fold into the earliest one. Counts and
+ * lost focus are summed, the time span covers all of them, and their
+ * timelines are re-based onto the merged start. Null with fewer than two.
+ */
+export const planMerge = (items: HistoryItem[]): MergePlan | null => {
+    const sorted = [...items].sort((a, b) => startMillis(a) - startMillis(b));
+    const [target, ...rest] = sorted;
+    if (!target || rest.length === 0) return null;
+
+    const startTime = startMillis(target);
+    const endTime = Math.max(...sorted.map(endMillis));
+    const notes = sorted.map(item => item.note).filter(Boolean).join('\n');
+    const timeline = sorted.every(item => item.timeline)
+        ? mergeTimelines(sorted.map(item => ({ timeline: item.timeline!, startTime: startMillis(item) })), startTime)
+        : null;
+
+    const count = sorted.reduce((sum, item) => sum + item.count, 0);
+    const lostFocusCount = sorted.reduce((sum, item) => sum + (item.lostFocusCount ?? 0), 0);
+
+    const deltas: DailyDeltas = {};
+    sorted.forEach(item => addContribution(deltas, itemContribution(item), -1));
+    addContribution(deltas, itemContribution({
+        ...target,
+        count,
+        lostFocusCount,
+        startTime: Timestamp.fromMillis(startTime),
+        endTime: Timestamp.fromMillis(endTime),
+    }));
+
+    return {
+        target,
+        rest,
+        count,
+        lostFocusCount,
+        startTime: Timestamp.fromMillis(startTime),
+        endTime: Timestamp.fromMillis(endTime),
+        timeline,
+        note: notes ? notes.slice(0, MAX_NOTE_LENGTH) : null,
+        deltas,
+    };
+};
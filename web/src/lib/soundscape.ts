@@ -0,0 +1,120 @@
+import { getAudioContext } from './chime';
+import { NOISE_TYPES } from '../data/soundscapes';
+import type { NoiseType, SoundscapeMix } from '../types';
+
+// Long enough that the loop point isn't noticeable
+const BUFFER_SECONDS = 6;
+// Keeps the full mix comfortably below clipping
+const MASTER_LEVEL = 0.5;
+
+const buffers = new Map<NoiseType, AudioBuffer>();
+let master: GainNode | null = null;
+let sources: AudioBufferSourceNode[] = [];
+let layerGains = new Map<NoiseType, GainNode>();
+
+const fillNoise = (type: NoiseType, data: Float32Array, sampleRate: number) => {
+    // Pink uses Paul Kellet's filter; brown is integrated white noise
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+    let last = 0;
+    let drop = 0;
+    for (let i = 0; i < data.length; i++) {
+        const white = Math.random() * 2 - 1;
+        if (type === 'white') {
+            data[i] = white * 0.5;
+        } else if (type === 'brown') {
+            last = (last + 0.02 * white) / 1.02;
+            data[i] = last * 3.5;
+        } else {
+            b0 = 0.99886 * b0 + white * 0.0555179;
+            b1 = 0.99332 * b1 + white * 0.0750759;
+            b2 = 0.96900 * b2 + white * 0.1538520;
+            b3 = 0.86650 * b3 + white * 0.3104856;
+            b4 = 0.55000 * b4 + white * 0.5329522;
+            b5 = -0.7616 * b5 - white * 0.0168980;
+            const pink = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+            b6 = white * 0.115926;
+            if (type === 'pink') {
+                data[i] = pink;
+            } else {
+                // Rain: a quiet pink bed with randomly spaced, quickly decaying drops on top
+                if (Math.random() < 60 / sampleRate) drop = 0.3 + Math.random() * 0.7;
+                drop *= 0.997;
+                data[i] = pink * 0.4 + white * drop * 0.35;
+            }
+        }
+    }
+};
+
+const noiseBuffer = (ctx: AudioContext, type: NoiseType) => {
+    let buffer = buffers.get(type);
+    if (!buffer) {
+        buffer = ctx.createBuffer(1, ctx.sampleRate * BUFFER_SECONDS, ctx.sampleRate);
+        fillNoise(type, buffer.getChannelData(0), ctx.sampleRate);
+        buffers.set(type, buffer);
+    }
+    return buffer;
+};
+
+/**
+ * Starts every noise layer looping at its volume in the mix and fades the
+ * whole soundscape in. Calling it while already playing just updates the mix.
+ */
+export const startSoundscape = (mix: SoundscapeMix, fadeSeconds: number) => {
+    const ctx = getAudioContext();
+    if (master) {
+        setSoundscapeMix(mix);
+        master.gain.cancelScheduledValues(ctx.currentTime);
+        master.gain.setValueAtTime(master.gain.value, ctx.currentTime);
+        master.gain.linearRampToValueAtTime(MASTER_LEVEL, ctx.currentTime + fadeSeconds);
+        return;
+    }
+    const output = ctx.createGain();
+    output.gain.setValueAtTime(0, ctx.currentTime);
+    output.gain.linearRampToValueAtTime(MASTER_LEVEL, ctx.currentTime + fadeSeconds);
+    output.connect(ctx.destination);
+    master = output;
+
+    layerGains = new Map();
+    sources = NOISE_TYPES.map(id => {
+        const source = ctx.createBufferSource();
+        source.buffer = noiseBuffer(ctx, id);
+        source.loop = true;
+        const gain = ctx.createGain();
+        gain.gain.value = mix[id];
+        if (id === 'rain') {
+            // Takes the rumble out so the drops read as rain rather than static
+            const filter = ctx.createBiquadFilter();
+            filter.type = 'highpass';
+            filter.frequency.value = 400;
+            source.connect(filter).connect(gain);
+        } else {
+            source.connect(gain);
+        }
+        gain.connect(output);
+        source.start();
+        layerGains.set(id, gain);
+        return source;
+    });
+};
+
+// Volume changes glide over a short time constant so slider moves don't click
+export const setSoundscapeMix = (mix: SoundscapeMix) => {
+    if (!master) return;
+    const ctx = getAudioContext();
+    layerGains.forEach((gain, id) => gain.gain.setTargetAtTime(mix[id], ctx.currentTime, 0.1));
+};
+
+export const stopSoundscape = (fadeSeconds: number) => {
+    if (!master) return;
+    const ctx = getAudioContext();
+    const fading = master;
+    const fadingSources = sources;
+    master = null;
+    sources = [];
+    layerGains = new Map();
+    fading.gain.cancelScheduledValues(ctx.currentTime);
+    fading.gain.setValueAtTime(fading.gain.value, ctx.currentTime);
+    fading.gain.linearRampToValueAtTime(0, ctx.currentTime + fadeSeconds);
+    fadingSources.forEach(source => source.stop(ctx.currentTime + fadeSeconds + 0.1));
+    setTimeout(() => fading.disconnect(), (fadeSeconds + 0.2) * 1000);
+};
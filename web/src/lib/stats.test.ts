@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { computeStats, computeStreaks, computeTrend, focusBySoundscape, focusRatio, streaksFromDays, type StatsSession } from './stats';
+
+// The config pins the device to America/New_York; these are wall-clock times there
+const local = (date: string, time = '12:00') => new Date(`${date}T${time}:00`).getTime();
+
+const session = (date: string, overrides: Partial<StatsSession> = {}): StatsSession => ({
+    start: local(date),
+    end: local(date) + 10 * 60 * 1000,
+    date,
+    count: 20,
+    lostFocus: 1,
+    mantraKey: 'relax',
+    mantraLabel: 'relax',
+    soundscape: null,
+    moodChange: null,
+    ...overrides,
+});
+
+// Ends a session at a wall-clock time, for checking which bucket it lands in
+const endingAt = (date: string, time: string, overrides: Partial<StatsSession> = {}) =>
+    session(date, { start: local(date, time) - 10 * 60 * 1000, end: local(date, time), ...overrides });
+
+describe('streaksFromDays', () => {
+    it('counts back from today', () => {
+        expect(streaksFromDays(new Set(['2026-05-04', '2026-05-05', '2026-05-06']), '2026-05-06')).toEqual({ current: 3, longest: 3 });
+    });
+
+    it('keeps the streak alive until the end of today', () => {
+        expect(streaksFromDays(new Set(['2026-05-04', '2026-05-05']), '2026-05-06')).toEqual({ current: 2, longest: 2 });
+    });
+
+    it('drops the streak after a whole day without a session', () => {
+        expect(streaksFromDays(new Set(['2026-05-03', '2026-05-04']), '2026-05-06')).toEqual({ current: 0, longest: 2 });
+    });
+
+    it('keeps the longest run apart from the current one', () => {
+        const days = new Set(['2026-04-01', '2026-04-02', '2026-04-03', '2026-04-04', '2026-05-05', '2026-05-06']);
+        expect(streaksFromDays(days, '2026-05-06')).toEqual({ current: 2, longest: 4 });
+    });
+
+    it('runs through both DST changes', () => {
+        expect(streaksFromDays(new Set(['2026-03-07', '2026-03-08', '2026-03-09']), '2026-03-09')).toEqual({ current: 3, longest: 3 });
+        expect(streaksFromDays(new Set(['2026-10-31', '2026-11-01', '2026-11-02']), '2026-11-02')).toEqual({ current: 3, longest: 3 });
+    });
+
+    it('runs across month and year ends', () => {
+        expect(streaksFromDays(new Set(['2026-02-27', '2026-02-28', '2026-03-01']), '2026-03-01')).toEqual({ current: 3, longest: 3 });
+        expect(streaksFromDays(new Set(['2026-12-31', '2027-01-01']), '2027-01-01')).toEqual({ current: 2, longest: 2 });
+    });
+
+    it('breaks on a missed leap day', () => {
+        expect(streaksFromDays(new Set(['2028-02-28', '2028-03-01']), '2028-03-01')).toEqual({ current: 1, longest: 1 });
+        expect(streaksFromDays(new Set(['2028-02-28', '2028-02-29', '2028-03-01']), '2028-03-01')).toEqual({ current: 3, longest: 3 });
+    });
+
+    it('is zero without any sessions', () => {
+        expect(streaksFromDays(new Set(), '2026-05-06')).toEqual({ current: 0, longest: 0 });
+    });
+});
+
+describe('computeStreaks', () => {
+    it("takes today from the device's zone", () => {
+        // 03:30 UTC on 10 March is still 9 March in New York
+        const sessions = [session('2026-03-08'), session('2026-03-09')];
+        expect(computeStreaks(sessions, Date.parse('2026-03-10T03:30:00Z'))).toEqual({ current: 2, longest: 2 });
+    });
+
+    it("uses each session's stored day, not its end time", () => {
+        const lateNight = endingAt('2026-03-10', '00:20', { date: '2026-03-09' });
+        expect(computeStreaks([session('2026-03-08'), lateNight], local('2026-03-10', '09:00'))).toEqual({ current: 2, longest: 2 });
+    });
+});
+
+describe('computeTrend', () => {
+    // A Wednesday; the week of 9 March starts the day after the clocks go forward
+    const now = local('2026-03-11');
+
+    it('starts weeks on Monday at local midnight, across a DST change', () => {
+        expect(computeTrend([], 'week', 3, now).map(b => b.start)).toEqual([
+            local('2026-02-23', '00:00'),
+            local('2026-03-02', '00:00'),
+            local('2026-03-09', '00:00'),
+        ]);
+    });
+
+    it('puts each session in the week it ended in', () => {
+        const trend = computeTrend([
+            endingAt('2026-03-08', '23:30', { count: 5 }),
+            endingAt('2026-03-09', '00:30', { count: 7 }),
+            endingAt('2026-03-11', '08:00', { count: 11, lostFocus: 2 }),
+        ], 'week', 3, now);
+        expect(trend.map(b => b.repeats)).toEqual([0, 5, 18]);
+        expect(trend.map(b => b.sessions)).toEqual([0, 1, 2]);
+        expect(trend[2].lostFocus).toBe(3);
+        expect(trend[2].minutes).toBeCloseTo(20);
+    });
+
+    it('keeps empty weeks and leaves out older sessions', () => {
+        const trend = computeTrend([session('2026-02-20'), session('2026-03-03')], 'week', 3, now);
+        expect(trend.map(b => b.sessions)).toEqual([0, 1, 0]);
+    });
+
+    it('steps months back across a year end', () => {
+        expect(computeTrend([session('2025-12-31')], 'month', 3, local('2026-01-15')).map(b => [b.start, b.sessions])).toEqual([
+            [local('2025-11-01', '00:00'), 0],
+            [local('2025-12-01', '00:00'), 1],
+            [local('2026-01-01', '00:00'), 0],
+        ]);
+    });
+});
+
+describe('focusRatio', () => {
+    it('gives lost focus per 100 repeats', () => {
+        expect(focusRatio(5, 200)).toBe(2.5);
+        expect(focusRatio(0, 50)).toBe(0);
+    });
+
+    it('is null without repeats to compare against', () => {
+        expect(focusRatio(0, 0)).toBeNull();
+        expect(focusRatio(3, 0)).toBeNull();
+    });
+});
+
+describe('focusBySoundscape', () => {
+    it('puts the silent baseline first and the rest by use', () => {
+        const groups = focusBySoundscape([
+            session('2026-05-01', { soundscape: 'Rain', count: 100, lostFocus: 4 }),
+            session('2026-05-02', { soundscape: 'Ocean', count: 50, lostFocus: 0 }),
+            session('2026-05-03', { soundscape: 'Rain', count: 100, lostFocus: 2 }),
+            session('2026-05-04', { count: 40, lostFocus: 2 }),
+        ]);
+        expect(groups.map(g => [g.name, g.sessions, g.focusRatio])).toEqual([
+            [null, 1, 5],
+            ['Rain', 2, 3],
+            ['Ocean', 1, 0],
+        ]);
+    });
+});
+
+describe('computeStats', () => {
+    it('gives the focus ratio overall and for each week', () => {
+        const stats = computeStats([
+            session('2026-03-10', { count: 100, lostFocus: 3 }),
+            session('2026-03-03', { count: 100, lostFocus: 1 }),
+        ], local('2026-03-11'));
+        expect(stats.focusRatio).toBe(2);
+        expect(stats.focusTrend.slice(-3).map(b => b.value)).toEqual([null, 1, 3]);
+        expect(stats.focusTrend[11].start).toBe(local('2026-03-09', '00:00'));
+    });
+
+    it('is empty but well formed without sessions', () => {
+        const stats = computeStats([], local('2026-03-11'));
+        expect(stats.totalSessions).toBe(0);
+        expect(stats.averageMinutes).toBe(0);
+        expect(stats.focusRatio).toBeNull();
+        expect(stats.streaks).toEqual({ current: 0, longest: 0 });
+        expect(stats.weekly).toHaveLength(12);
+        expect(stats.mood).toBeNull();
+    });
+});
@@ -0,0 +1,275 @@
+import { resolveMantra } from '../data/mantras';
+import { addDaysToKey, getLocalDateKey, sessionDateKey } from './dates';
+import type { HistoryItem, Mantra } from '../types';
+
+/**
+ * Pure statistics over a user's sessions. Everything here works on plain
+ * numbers so it can be computed (and checked) without Firestore or React.
+ */
+
+export interface StatsSession {
+    start: number;
+    end: number;
+    // The day the session counts toward, see sessionDateKey
+    date: string;
+    count: number;
+    lostFocus: number;
+    mantraKey: string;
+    mantraLabel: string;
+    // Name of the soundscape that played, null for silent sessions
+    soundscape: string | null;
+    // Mood after minus mood before, null unless both check-ins were given
+    moodChange: number | null;
+}
+
+export interface MantraTotals {
+    key: string;
+    label: string;
+    sessions: number;
+    repeats: number;
+    minutes: number;
+}
+
+export interface SoundscapeFocus {
+    // The soundscape's stored name; null for the silent baseline
+    name: string | null;
+    sessions: number;
+    repeats: number;
+    lostFocus: number;
+    focusRatio: number | null;
+}
+
+export interface MoodGroup {
+    key: string;
+    sessions: number;
+    averageChange: number;
+}
+
+// Buckets carry their start time and the chart formats it for the locale
+export interface TrendBucket {
+    start: number;
+    sessions: number;
+    repeats: number;
+    minutes: number;
+    lostFocus: number;
+}
+
+export const toStatsSession = (item: HistoryItem, mantras: Mantra[]): StatsSession => {
+    const end = (item.endTime ?? item.timestamp).toMillis();
+    const mantra = resolveMantra(item, mantras);
+    return {
+        start: item.startTime?.toMillis() ?? end,
+        end,
+        date: sessionDateKey(item),
+        count: item.count,
+        lostFocus: item.lostFocusCount ?? 0,
+        mantraKey: mantra?.id ?? item.word ?? 'relax',
+        mantraLabel: mantra?.text ?? item.word ?? 'relax',
+        soundscape: item.soundscape?.name ?? null,
+        moodChange: item.checkIn?.before && item.checkIn.after
+            ? item.checkIn.after.mood - item.checkIn.before.mood
+            : null,
+    };
+};
+
+export const sessionMinutes = (session: StatsSession) => Math.max(session.end - session.start, 0) / 60000;
+
+const addDays = (date: Date, days: number) => {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    return next;
+};
+
+/**
+ * Daily streaks over the days (as date keys) that had at least one session.
+ * The current streak stays alive through today until midnight, so it is
+ * measured back from yesterday when nothing has been saved yet today.
+ */
+export const streaksFromDays = (days: Set<string>, today: string) => {
+    let current = 0;
+    let cursor = today;
+    if (!days.has(cursor)) cursor = addDaysToKey(cursor, -1);
+    while (days.has(cursor)) {
+        current++;
+        cursor = addDaysToKey(cursor, -1);
+    }
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    [...days].sort().forEach(key => {
+        run = previous && addDaysToKey(previous, 1) === key ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = key;
+    });
+
+    return { current, longest };
+};
+
+export const computeStreaks = (sessions: StatsSession[], now: number) =>
+    streaksFromDays(new Set(sessions.map(s => s.date)), getLocalDateKey(new Date(now)));
+
+export const totalsByMantra = (sessions: StatsSession[]): MantraTotals[] => {
+    const totals = new Map<string, MantraTotals>();
+    sessions.forEach(s => {
+        const entry = totals.get(s.mantraKey) ?? { key: s.mantraKey, label: s.mantraLabel, sessions: 0, repeats: 0, minutes: 0 };
+        entry.sessions++;
+        entry.repeats += s.count;
+        entry.minutes += sessionMinutes(s);
+        totals.set(s.mantraKey, entry);
+    });
+    return [...totals.values()].sort((a, b) => b.repeats - a.repeats);
+};
+
+const startOfWeek = (date: Date) => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    // Weeks start on Monday
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+};
+
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+/**
+ * Groups sessions into the last `periods` weeks or months, oldest first.
+ * Empty periods are kept so charts have a continuous axis.
+ */
+export const computeTrend = (sessions: StatsSession[], unit: 'week' | 'month', periods: number, now: number): TrendBucket[] => {
+    const buckets: TrendBucket[] = [];
+    let start = unit === 'week' ? startOfWeek(new Date(now)) : startOfMonth(new Date(now));
+    for (let i = 0; i < periods; i++) {
+        buckets.unshift({
+            start: start.getTime(),
+            sessions: 0,
+            repeats: 0,
+            minutes: 0,
+            lostFocus: 0,
+        });
+        start = unit === 'week'
+            ? addDays(start, -7)
+            : new Date(start.getFullYear(), start.getMonth() - 1, 1);
+    }
+
+    sessions.forEach(s => {
+        for (let i = buckets.length - 1; i >= 0; i--) {
+            if (s.end >= buckets[i].start) {
+                buckets[i].sessions++;
+                buckets[i].repeats += s.count;
+                buckets[i].minutes += sessionMinutes(s);
+                buckets[i].lostFocus += s.lostFocus;
+                break;
+            }
+        }
+    });
+    return buckets;
+};
+
+export const averageSessionMinutes = (sessions: StatsSession[]) => {
+    if (sessions.length === 0) return 0;
+    return sessions.reduce((sum, s) => sum + sessionMinutes(s), 0) / sessions.length;
+};
+
+// Lost focus per 100 repeats; null when there were no repeats to compare against
+export const focusRatio = (lostFocus: number, repeats: number) => (repeats > 0 ? (lostFocus / repeats) * 100 : null);
+
+/**
+ * Lost focus per 100 repeats for each soundscape, with silent sessions as
+ * the baseline row first and the rest ordered by how often they were used.
+ */
+export const focusBySoundscape = (sessions: StatsSession[]): SoundscapeFocus[] => {
+    const groups = new Map<string | null, SoundscapeFocus>();
+    sessions.forEach(s => {
+        const entry = groups.get(s.soundscape) ?? {
+            name: s.soundscape,
+            sessions: 0,
+            repeats: 0,
+            lostFocus: 0,
+            focusRatio: null,
+        };
+        entry.sessions++;
+        entry.repeats += s.count;
+        entry.lostFocus += s.lostFocus;
+        groups.set(s.soundscape, entry);
+    });
+    return [...groups.values()]
+        .map(entry => ({ ...entry, focusRatio: focusRatio(entry.lostFocus, entry.repeats) }))
+        .sort((a, b) => Number(b.name === null) - Number(a.name === null) || b.sessions - a.sessions);
+};
+
+/**
+ * Upper bounds in minutes of the session-length bands mood change is
+ * grouped by. A band's key is its index, which the stats panel labels.
+ */
+export const LENGTH_BANDS = [5, 15, 30, Infinity];
+
+// Pearson's r; null when there are too few points or one side never varies
+export const correlation = (xs: number[], ys: number[]) => {
+    if (xs.length < 3) return null;
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const mx = mean(xs);
+    const my = mean(ys);
+    let covariance = 0;
+    let vx = 0;
+    let vy = 0;
+    xs.forEach((x, i) => {
+        covariance += (x - mx) * (ys[i] - my);
+        vx += (x - mx) ** 2;
+        vy += (ys[i] - my) ** 2;
+    });
+    return vx === 0 || vy === 0 ? null : covariance / Math.sqrt(vx * vy);
+};
+
+const groupMoodChange = (sessions: StatsSession[], keyOf: (s: StatsSession) => string) => {
+    const groups = new Map<string, MoodGroup & { total: number }>();
+    sessions.forEach(s => {
+        const key = keyOf(s);
+        const entry = groups.get(key) ?? { key, sessions: 0, averageChange: 0, total: 0 };
+        entry.sessions++;
+        entry.total += s.moodChange ?? 0;
+        groups.set(key, entry);
+    });
+    return [...groups.values()].map(({ total, ...group }) => ({ ...group, averageChange: total / group.sessions }));
+};
+
+/**
+ * How mood shifted across sessions that had both check-ins, overall, by
+ * session length and by mantra. Returns null until there is something to show.
+ */
+export const computeMoodStats = (sessions: StatsSession[]) => {
+    const rated = sessions.filter(s => s.moodChange !== null);
+    if (rated.length === 0) return null;
+    const bandOf = (s: StatsSession) => LENGTH_BANDS.findIndex(max => sessionMinutes(s) < max);
+    const mantraLabels = new Map(rated.map(s => [s.mantraKey, s.mantraLabel]));
+    return {
+        sessions: rated.length,
+        averageChange: rated.reduce((sum, s) => sum + (s.moodChange ?? 0), 0) / rated.length,
+        lengthCorrelation: correlation(rated.map(sessionMinutes), rated.map(s => s.moodChange ?? 0)),
+        byLength: groupMoodChange(rated, s => String(bandOf(s)))
+            .sort((a, b) => Number(a.key) - Number(b.key)),
+        byMantra: groupMoodChange(rated, s => s.mantraKey)
+            .map(group => ({ ...group, label: mantraLabels.get(group.key) ?? group.key }))
+            .sort((a, b) => b.sessions - a.sessions),
+    };
+};
+
+export const computeStats = (sessions: StatsSession[], now: number) => {
+    const repeats = sessions.reduce((sum, s) => sum + s.count, 0);
+    const lostFocus = sessions.reduce((sum, s) => sum + s.lostFocus, 0);
+    const weekly = computeTrend(sessions, 'week', 12, now);
+    return {
+        streaks: computeStreaks(sessions, now),
+        totalSessions: sessions.length,
+        totalRepeats: repeats,
+        totalMinutes: sessions.reduce((sum, s) => sum + sessionMinutes(s), 0),
+        averageMinutes: averageSessionMinutes(sessions),
+        focusRatio: focusRatio(lostFocus, repeats),
+        byMantra: totalsByMantra(sessions),
+        weekly,
+        monthly: computeTrend(sessions, 'month', 12, now),
+        focusTrend: weekly.map(b => ({ start: b.start, value: focusRatio(b.lostFocus, b.repeats) })),
+        bySoundscape: focusBySoundscape(sessions),
+        mood: computeMoodStats(sessions),
+    };
+};
+
+export type Stats = ReturnType<typeof computeStats>;
@@ -0,0 +1,57 @@
+import { SETTINGS_STORE, withStore } from './idb';
+import { BACKGROUNDS, findPalette } from '../data/themes';
+import type { ThemePreference } from '../types';
+
+const IMAGE_KEY = 'backgroundImage';
+
+export const loadBackgroundImage = () =>
+    withStore<Blob | undefined>(SETTINGS_STORE, 'readonly', store => store.get(IMAGE_KEY));
+
+export const saveBackgroundImage = (image: Blob) =>
+    withStore(SETTINGS_STORE, 'readwrite', store => store.put(image, IMAGE_KEY));
+
+export const clearBackgroundImage = () =>
+    withStore(SETTINGS_STORE, 'readwrite', store => store.delete(IMAGE_KEY));
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Whether the dark variant applies right now. In 'schedule' mode the light
+ * window may wrap past midnight (light from 20:00 to 06:00 works too).
+ */
+export const resolveDark = (theme: ThemePreference, systemDark: boolean, now: Date) => {
+    if (theme.mode === 'light') return false;
+    if (theme.mode === 'dark') return true;
+    if (theme.mode === 'system') return systemDark;
+    const current = now.getHours() * 60 + now.getMinutes();
+    const lightFrom = toMinutes(theme.lightFrom);
+    const darkFrom = toMinutes(theme.darkFrom);
+    const isLight = lightFrom <= darkFrom
+        ? current >= lightFrom && current < darkFrom
+        : current >= lightFrom || current < darkFrom;
+    return !isLight;
+};
+
+// CSS values for the body background; null means the stylesheet default
+export const backgroundCss = (theme: ThemePreference, dark: boolean, imageUrl: string | null) => {
+    if (theme.background === 'image') {
+        return imageUrl ? `url('${imageUrl}') no-repeat center center fixed` : null;
+    }
+    if (theme.background === 'gradient') {
+        return `linear-gradient(135deg, ${theme.gradient[0]} 0%, ${theme.gradient[1]} 100%) fixed`;
+    }
+    const preset = BACKGROUNDS.find(b => b.id === theme.background);
+    return preset ? (dark ? preset.dark : preset.light) : null;
+};
+
+export const paletteVariables = (theme: ThemePreference, dark: boolean) => {
+    const colours = findPalette(theme.palette)[dark ? 'dark' : 'light'];
+    return {
+        '--primary-color': colours.primary,
+        '--counter-gradient-start': colours.gradientStart,
+        '--counter-gradient-end': colours.gradientEnd,
+    };
+};
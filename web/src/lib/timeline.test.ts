@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildTempoSeries, decodeTimeline, encodeTimeline, mergeTimelines } from './timeline';
+import type { SessionEvent } from '../types';
+
+const START = Date.parse('2026-05-01T08:00:00Z');
+
+const repeat = (seconds: number): SessionEvent => ({ type: 'repeat', at: START + seconds * 1000, mantraId: 'relax' });
+const lostFocus = (seconds: number): SessionEvent => ({ type: 'lostFocus', at: START + seconds * 1000 });
+
+describe('encodeTimeline', () => {
+    it('round-trips offsets to a tenth of a second', () => {
+        const timeline = encodeTimeline([repeat(1.5), repeat(3), lostFocus(2.25), repeat(60)], START);
+        expect(decodeTimeline(timeline)).toEqual({
+            repeats: [1500, 3000, 60000],
+            lostFocus: [2300],
+        });
+    });
+
+    it('stores the gaps between events in base 36', () => {
+        expect(encodeTimeline([repeat(1), repeat(2), repeat(5.6)], START)).toEqual({ repeats: 'a.a.10', lostFocus: '' });
+    });
+
+    it('sorts events that arrived out of order', () => {
+        const timeline = encodeTimeline([repeat(4), repeat(1), repeat(2)], START);
+        expect(decodeTimeline(timeline).repeats).toEqual([1000, 2000, 4000]);
+    });
+
+    it('clamps events from before the start to the start', () => {
+        expect(decodeTimeline(encodeTimeline([repeat(-3), repeat(1)], START)).repeats).toEqual([0, 1000]);
+    });
+
+    it('keeps events at the same moment', () => {
+        expect(decodeTimeline(encodeTimeline([repeat(2), repeat(2)], START)).repeats).toEqual([2000, 2000]);
+    });
+
+    it('encodes a session without events as empty strings', () => {
+        expect(encodeTimeline([], START)).toEqual({ repeats: '', lostFocus: '' });
+        expect(decodeTimeline({ repeats: '', lostFocus: '' })).toEqual({ repeats: [], lostFocus: [] });
+    });
+});
+
+describe('decodeTimeline', () => {
+    it('reads a corrupt gap as no gap', () => {
+        expect(decodeTimeline({ repeats: 'a.!.a', lostFocus: '' }).repeats).toEqual([1000, 1000, 2000]);
+    });
+});
+
+describe('mergeTimelines', () => {
+    it('re-bases each part onto the earliest start and interleaves them', () => {
+        const first = encodeTimeline([repeat(1), repeat(3)], START);
+        const second = encodeTimeline([repeat(2), lostFocus(3)], START + 1000);
+        expect(decodeTimeline(mergeTimelines([
+            { timeline: first, startTime: START },
+            { timeline: second, startTime: START + 1000 },
+        ], START))).toEqual({
+            repeats: [1000, 2000, 3000],
+            lostFocus: [3000],
+        });
+    });
+});
+
+describe('buildTempoSeries', () => {
+    it('gives repeats per minute in equal buckets', () => {
+        // Four repeats in the first half minute, two in the second
+        expect(buildTempoSeries([0, 5000, 10000, 20000, 40000, 50000], 60000, 2)).toEqual([8, 4]);
+    });
+
+    it('uses no more buckets than repeats', () => {
+        expect(buildTempoSeries([1000, 2000], 60000, 20)).toHaveLength(2);
+    });
+
+    it('stretches to a repeat past the recorded duration', () => {
+        expect(buildTempoSeries([0, 120000], 60000, 2)).toEqual([1, 1]);
+    });
+
+    it('gives one flat bucket without repeats', () => {
+        expect(buildTempoSeries([], 60000)).toEqual([0]);
+    });
+});
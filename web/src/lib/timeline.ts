@@ -0,0 +1,71 @@
+import type { SessionEvent, SessionTimeline } from '../types';
+
+// Offsets are stored in tenths of a second, delta-encoded and written in base 36,
+// which keeps a few hundred taps to a couple of hundred bytes on the document.
+const RESOLUTION_MS = 100;
+const SEPARATOR = '.';
+
+const encodeOffsets = (offsets: number[]) => {
+    let previous = 0;
+    return offsets
+        .map(offset => {
+            const ticks = Math.max(0, Math.round(offset / RESOLUTION_MS));
+            const delta = Math.max(0, ticks - previous);
+            previous += delta;
+            return delta.toString(36);
+        })
+        .join(SEPARATOR);
+};
+
+const decodeOffsets = (encoded: string | undefined) => {
+    if (!encoded) return [];
+    let total = 0;
+    return encoded.split(SEPARATOR).map(part => {
+        total += parseInt(part, 36) || 0;
+        return total * RESOLUTION_MS;
+    });
+};
+
+export const encodeTimeline = (events: SessionEvent[], startTime: number): SessionTimeline => {
+    const sorted = [...events].sort((a, b) => a.at - b.at);
+    return {
+        repeats: encodeOffsets(sorted.filter(e => e.type === 'repeat').map(e => e.at - startTime)),
+        lostFocus: encodeOffsets(sorted.filter(e => e.type === 'lostFocus').map(e => e.at - startTime)),
+    };
+};
+
+export const decodeTimeline = (timeline: SessionTimeline) => ({
+    repeats: decodeOffsets(timeline.repeats),
+    lostFocus: decodeOffsets(timeline.lostFocus),
+});
+
+// Re-bases several sessions' timelines onto one start time and combines them
+export const mergeTimelines = (parts: { timeline: SessionTimeline; startTime: number }[], startTime: number): SessionTimeline => {
+    const repeats: number[] = [];
+    const lostFocus: number[] = [];
+    parts.forEach(part => {
+        const decoded = decodeTimeline(part.timeline);
+        const shift = part.startTime - startTime;
+        repeats.push(...decoded.repeats.map(offset => offset + shift));
+        lostFocus.push(...decoded.lostFocus.map(offset => offset + shift));
+    });
+    return {
+        repeats: encodeOffsets(repeats.sort((a, b) => a - b)),
+        lostFocus: encodeOffsets(lostFocus.sort((a, b) => a - b)),
+    };
+};
+
+/**
+ * Splits the session into equal buckets and returns the pace of each one
+ * in repeats per minute, ready to be drawn as a sparkline.
+ */
+export const buildTempoSeries = (repeatOffsets: number[], durationMs: number, bucketCount = 20) => {
+    const duration = Math.max(durationMs, repeatOffsets[repeatOffsets.length - 1] ?? 0, 1);
+    const buckets = Math.max(1, Math.min(bucketCount, repeatOffsets.length));
+    const bucketMs = duration / buckets;
+    const counts = new Array<number>(buckets).fill(0);
+    repeatOffsets.forEach(offset => {
+        counts[Math.min(buckets - 1, Math.floor(offset / bucketMs))]++;
+    });
+    return counts.map(count => (count / bucketMs) * 60 * 1000);
+};
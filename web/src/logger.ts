@@ -0,0 +1,7 @@
+const isLoggingEnabled = import.meta.env.VITE_ENABLE_LOGS === 'true';
+
+export const debugError = (message: string, error?: unknown) => {
+    if (isLoggingEnabled) {
+        console.error(message, error);
+    }
+};
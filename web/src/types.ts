@@ -0,0 +1,240 @@
+import type { Timestamp } from 'firebase/firestore';
+import type { MessageKey } from './lib/i18n';
+
+export interface HistoryItem {
+    id: string;
+    count: number;
+    // Text of the mantra at save time. Older sessions only have this field.
+    word?: string;
+    mantraId?: string;
+    lostFocusCount?: number;
+    timestamp: Timestamp;
+    startTime?: Timestamp;
+    endTime?: Timestamp;
+    // IANA timezone and 'YYYY-MM-DD' day the session started in; older sessions lack both
+    timeZone?: string;
+    localDate?: string;
+    userId: string;
+    timeline?: SessionTimeline;
+    goal?: SessionGoal;
+    goalReached?: boolean;
+    // Only present on sessions done with the breathing guide
+    pacing?: PacingSettings;
+    soundscape?: SessionSoundscape;
+    checkIn?: SessionCheckIn;
+    note?: string;
+    // Set for sessions that only exist on this device so far
+    pending?: boolean;
+}
+
+// A finished session as captured on the device, before it reaches Firestore
+export interface SessionRecord {
+    id: string;
+    count: number;
+    word: string;
+    // Missing on imported sessions whose mantra isn't in the library
+    mantraId?: string;
+    lostFocusCount: number;
+    startTime: number;
+    endTime: number;
+    timeZone?: string;
+    localDate?: string;
+    note?: string;
+    timeline?: SessionTimeline;
+    goal?: SessionGoal;
+    goalReached?: boolean;
+    pacing?: PacingSettings;
+    soundscape?: SessionSoundscape;
+    checkIn?: SessionCheckIn;
+}
+
+export interface LocalSession extends SessionRecord {
+    // null while the session belongs to a guest
+    ownerId: string | null;
+    status: 'pending' | 'synced';
+    attempts: number;
+    syncedAt?: number;
+}
+
+// A planned session: either a length in minutes or a number of repeats
+export interface SessionGoal {
+    type: 'duration' | 'count';
+    target: number;
+    // Seconds between soft chimes, 0 for none
+    chimeInterval: number;
+}
+
+export interface BreathPhase {
+    kind: 'inhale' | 'hold' | 'exhale' | 'rest';
+    seconds: number;
+}
+
+export interface BreathingPattern {
+    id: string;
+    labelKey: MessageKey;
+    phases: BreathPhase[];
+}
+
+export interface PacingSettings {
+    patternId: string;
+    // Count one repeat per completed breath cycle
+    autoCount: boolean;
+}
+
+export type NoiseType = 'white' | 'pink' | 'brown' | 'rain';
+
+// Volume per noise layer, 0 to 1
+export type SoundscapeMix = Record<NoiseType, number>;
+
+export interface SoundscapePreset {
+    id: string;
+    name: string;
+    mix: SoundscapeMix;
+}
+
+// What played during a session; the name is the preset's, or 'Custom' for a hand-tuned mix
+export interface SessionSoundscape {
+    name: string;
+    mix: SoundscapeMix;
+}
+
+// Mood from 1 (stressed) to 5 (calm), with an optional short note
+export interface MoodCheckIn {
+    mood: number;
+    note?: string;
+}
+
+export interface SessionCheckIn {
+    before?: MoodCheckIn;
+    after?: MoodCheckIn;
+}
+
+export interface SessionEvent {
+    type: 'repeat' | 'lostFocus';
+    at: number;
+    // Repeats belong to a mantra; lost focus applies to the whole session
+    mantraId?: string;
+}
+
+// Compact, encoded form of a session's events (see lib/timeline)
+export interface SessionTimeline {
+    repeats: string;
+    lostFocus: string;
+}
+
+// Per-user, per-day rollup kept alongside 'history' so the heatmap never reads raw sessions
+export interface DailyStats {
+    date: string;
+    sessions: number;
+    repeats: number;
+    minutes: number;
+    lostFocus: number;
+}
+
+// How counting can be driven without looking at the screen. Keys are KeyboardEvent.code values.
+export interface InputBindings {
+    incrementKey: string;
+    lostFocusKey: string;
+    // Bluetooth remotes and headset buttons, through the Media Session API
+    mediaKeys: boolean;
+    // Presses of the same action closer together than this are treated as one
+    guardMs: number;
+}
+
+export interface DailyGoal {
+    metric: 'sessions' | 'repeats' | 'minutes';
+    target: number;
+}
+
+export interface Quote {
+    id: string;
+    text: string;
+    author?: string;
+    // Category ids from data/quotes
+    tags: string[];
+    // BCP 47 language tag
+    lang: string;
+}
+
+// UI languages with a message catalog in data/messages
+export type Locale = 'en' | 'es' | 'ar';
+
+// 'system' follows prefers-color-scheme, 'schedule' switches at set times of day
+export type ThemeMode = 'light' | 'dark' | 'system' | 'schedule';
+
+export interface ThemePreference {
+    mode: ThemeMode;
+    palette: string;
+    // A preset id, 'gradient' for the custom colours below, or 'image' for this device's upload
+    background: string;
+    gradient: [string, string];
+    // Local times of day as HH:MM, used by the 'schedule' mode
+    lightFrom: string;
+    darkFrom: string;
+}
+
+// Per-user preferences, kept in userSettings/{uid} for accounts and localStorage for guests
+export interface UserSettings {
+    dailyGoal: DailyGoal | null;
+    // Local times of day as HH:MM
+    reminders: string[];
+    favouriteQuotes: string[];
+    customQuotes: Quote[];
+    // '' for every quote, 'favourites', 'mine', or a category id
+    quoteFilter: string;
+    theme: ThemePreference;
+    soundscapePresets: SoundscapePreset[];
+    // Ask for a mood rating when a session starts and when it is saved
+    moodCheckIns: boolean;
+}
+
+// An opt-in group whose members share their streaks and totals, kept in circles/{id}
+export interface Circle {
+    id: string;
+    name: string;
+    ownerId: string;
+    // Whoever has it can join; the owner can replace it
+    inviteCode: string;
+    memberIds: string[];
+}
+
+// What a member shares with a circle. Sessions themselves, and their notes, stay private.
+export interface CircleSummary {
+    streak: { current: number; longest: number };
+    // Last day with a session, so others can tell when a streak has lapsed
+    lastActiveDate: string | null;
+    today: { date: string; sessions: number; minutes: number };
+    totals: { sessions: number; minutes: number };
+}
+
+// circles/{id}/members/{uid}
+export interface CircleMember extends CircleSummary {
+    userId: string;
+    displayName: string;
+    // Start of the session the member is in right now, null when not sitting
+    sittingSince: number | null;
+    // Refreshed while sitting, so a closed tab stops showing up
+    lastSeen: number | null;
+}
+
+// The in-progress session, mirrored to localStorage and other open tabs
+export interface LiveSession {
+    counts: Record<string, number>;
+    lostFocusCount: number;
+    startTime: number | null;
+    mantraId: string | null;
+    events: SessionEvent[];
+    goal: SessionGoal | null;
+    pacing: PacingSettings | null;
+    // Plays while a session is running; null when sound is off
+    soundscape: SessionSoundscape | null;
+    checkInBefore: MoodCheckIn | null;
+    updatedAt: number;
+}
+
+export interface Mantra {
+    id: string;
+    text: string;
+    order: number;
+    archived: boolean;
+}
@@ -0,0 +1,323 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { createRulesEnvironment, FieldValue, Timestamp } from './environment';
+
+const CODE = 'ABCDEFGH';
+const NEW_CODE = 'JKLMNPQR';
+
+const circle = (overrides: Record<string, unknown> = {}) => ({
+    name: 'Morning sits',
+    ownerId: 'alice',
+    inviteCode: CODE,
+    memberIds: ['alice', 'bob'],
+    createdAt: Timestamp.now(),
+    ...overrides,
+});
+
+const member = (uid: string, overrides: Record<string, unknown> = {}) => ({
+    userId: uid,
+    displayName: uid,
+    inviteCode: CODE,
+    streak: { current: 2, longest: 5 },
+    lastActiveDate: '2026-03-01',
+    today: { date: '2026-03-01', sessions: 1, minutes: 10 },
+    totals: { sessions: 12, minutes: 140 },
+    sittingSince: null,
+    lastSeen: null,
+    joinedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+    ...overrides,
+});
+
+// The member document a client writes when joining, with server-set times
+const joining = (uid: string, overrides: Record<string, unknown> = {}) => member(uid, {
+    joinedAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+    ...overrides,
+});
+
+let env: RulesTestEnvironment;
+const as = (uid: string) => env.authenticatedContext(uid).firestore();
+
+// Alice owns c1 and Bob is in it; Carol is not
+const seed = (circleData: Record<string, unknown> = circle()) =>
+    env.withSecurityRulesDisabled(async context => {
+        const db = context.firestore();
+        await db.doc('circles/c1').set(circleData);
+        await db.doc('circles/c1/members/alice').set(member('alice'));
+        await db.doc('circles/c1/members/bob').set(member('bob'));
+        await db.doc(`circleInvites/${CODE}`).set({ circleId: 'c1', ownerId: 'alice' });
+    });
+
+// Mirrors joinCircle: the circle's member list and the member document in one batch
+const join = (uid: string, memberData: Record<string, unknown> = joining(uid)) => {
+    const db = as(uid);
+    const batch = db.batch();
+    batch.update(db.doc('circles/c1'), { memberIds: FieldValue.arrayUnion(uid) });
+    batch.set(db.doc(`circles/c1/members/${uid}`), memberData);
+    return batch.commit();
+};
+
+// Mirrors leaveCircle
+const leave = (uid: string) => {
+    const db = as(uid);
+    const batch = db.batch();
+    batch.update(db.doc('circles/c1'), { memberIds: FieldValue.arrayRemove(uid) });
+    batch.delete(db.doc(`circles/c1/members/${uid}`));
+    return batch.commit();
+};
+
+beforeAll(async () => {
+    env = await createRulesEnvironment();
+});
+
+afterAll(() => env?.cleanup());
+
+beforeEach(() => env.clearFirestore());
+
+describe('circle create', () => {
+    // Mirrors createCircle
+    const create = (uid: string, circleData: Record<string, unknown>) => {
+        const db = as(uid);
+        const batch = db.batch();
+        batch.set(db.doc('circles/c2'), circleData);
+        batch.set(db.doc(`circleInvites/${NEW_CODE}`), { circleId: 'c2', ownerId: uid });
+        batch.set(db.doc(`circles/c2/members/${uid}`), joining(uid, { inviteCode: NEW_CODE }));
+        return batch.commit();
+    };
+
+    const fresh = (overrides: Record<string, unknown> = {}) => circle({
+        ownerId: 'carol',
+        inviteCode: NEW_CODE,
+        memberIds: ['carol'],
+        createdAt: FieldValue.serverTimestamp(),
+        ...overrides,
+    });
+
+    it('accepts a circle with its invite and the owner as the only member', async () => {
+        await assertSucceeds(create('carol', fresh()));
+    });
+
+    it('rejects a circle that starts with other members', async () => {
+        await assertFails(create('carol', fresh({ memberIds: ['carol', 'dave'] })));
+    });
+
+    it('rejects a circle owned by someone else', async () => {
+        await assertFails(create('carol', fresh({ ownerId: 'dave' })));
+    });
+
+    it('rejects a creation time set by the client', async () => {
+        await assertFails(create('carol', fresh({ createdAt: Timestamp.now() })));
+    });
+
+    it('rejects a malformed invite code', async () => {
+        await assertFails(as('carol').doc('circles/c2').set(fresh({ inviteCode: 'abc' })));
+    });
+
+    it("rejects an invite code pointing at someone else's circle", async () => {
+        await seed();
+        await assertFails(as('carol').doc(`circleInvites/${NEW_CODE}`).set({ circleId: 'c1', ownerId: 'carol' }));
+    });
+});
+
+describe('circle join', () => {
+    it('accepts a join with the current invite code', async () => {
+        await seed();
+        await assertSucceeds(join('carol'));
+    });
+
+    it('rejects a join with a code that has been replaced', async () => {
+        await seed(circle({ inviteCode: NEW_CODE }));
+        await assertFails(join('carol'));
+    });
+
+    it('rejects joining without a member document', async () => {
+        await seed();
+        await assertFails(as('carol').doc('circles/c1').update({ memberIds: FieldValue.arrayUnion('carol') }));
+    });
+
+    it('rejects a member document without joining', async () => {
+        await seed();
+        await assertFails(as('carol').doc('circles/c1/members/carol').set(joining('carol')));
+    });
+
+    it('rejects adding someone else', async () => {
+        await seed();
+        const db = as('carol');
+        const batch = db.batch();
+        batch.update(db.doc('circles/c1'), { memberIds: FieldValue.arrayUnion('dave') });
+        batch.set(db.doc('circles/c1/members/dave'), joining('dave'));
+        await assertFails(batch.commit());
+    });
+
+    it('rejects a join time set by the client', async () => {
+        await seed();
+        await assertFails(join('carol', joining('carol', { joinedAt: Timestamp.now() })));
+    });
+
+    it('rejects joining as already sitting', async () => {
+        await seed();
+        await assertFails(join('carol', joining('carol', { sittingSince: Timestamp.now() })));
+    });
+
+    it('lets the 20th member in but not the 21st', async () => {
+        const others = (count: number) => ['alice', ...Array.from({ length: count - 1 }, (_, i) => `m${i}`)];
+        await seed(circle({ memberIds: others(19) }));
+        await assertSucceeds(join('carol'));
+
+        await env.clearFirestore();
+        await seed(circle({ memberIds: others(20) }));
+        await assertFails(join('carol'));
+    });
+});
+
+describe('circle leave', () => {
+    beforeEach(() => seed());
+
+    it('lets a member leave with their member document', async () => {
+        await assertSucceeds(leave('bob'));
+    });
+
+    it('rejects leaving but keeping the member document', async () => {
+        await assertFails(as('bob').doc('circles/c1').update({ memberIds: FieldValue.arrayRemove('bob') }));
+    });
+
+    it('rejects removing someone else from the circle', async () => {
+        const db = as('bob');
+        const batch = db.batch();
+        batch.update(db.doc('circles/c1'), { memberIds: ['bob'] });
+        batch.delete(db.doc('circles/c1/members/bob'));
+        await assertFails(batch.commit());
+    });
+
+    it('rejects the owner leaving instead of deleting the circle', async () => {
+        await assertFails(leave('alice'));
+    });
+});
+
+describe('circle owner', () => {
+    beforeEach(() => seed());
+
+    it('lets the owner replace the invite code', async () => {
+        // Mirrors replaceInviteCode
+        const db = as('alice');
+        const batch = db.batch();
+        batch.delete(db.doc(`circleInvites/${CODE}`));
+        batch.set(db.doc(`circleInvites/${NEW_CODE}`), { circleId: 'c1', ownerId: 'alice' });
+        batch.update(db.doc('circles/c1'), { inviteCode: NEW_CODE });
+        await assertSucceeds(batch.commit());
+    });
+
+    it('lets only the owner rename the circle', async () => {
+        await assertSucceeds(as('alice').doc('circles/c1').update({ name: 'Evening sits' }));
+        await assertFails(as('bob').doc('circles/c1').update({ name: 'Bob sits' }));
+    });
+
+    it('rejects the owner handing the circle to someone else', async () => {
+        await assertFails(as('alice').doc('circles/c1').update({ ownerId: 'bob' }));
+    });
+
+    it('lets the owner delete the circle with its members and invite', async () => {
+        // Mirrors deleteCircle
+        const db = as('alice');
+        const batch = db.batch();
+        batch.delete(db.doc('circles/c1/members/alice'));
+        batch.delete(db.doc('circles/c1/members/bob'));
+        batch.delete(db.doc(`circleInvites/${CODE}`));
+        batch.delete(db.doc('circles/c1'));
+        await assertSucceeds(batch.commit());
+    });
+
+    it('rejects a member deleting the circle or its invite', async () => {
+        await assertFails(as('bob').doc('circles/c1').delete());
+        await assertFails(as('bob').doc(`circleInvites/${CODE}`).delete());
+    });
+
+    it("lets only the owner remove another member's document", async () => {
+        await assertFails(as('bob').doc('circles/c1/members/alice').delete());
+        await assertSucceeds(as('alice').doc('circles/c1/members/bob').delete());
+    });
+});
+
+describe('circle reads', () => {
+    beforeEach(() => seed());
+
+    it('lets members read the circle and its members', async () => {
+        await assertSucceeds(as('bob').doc('circles/c1').get());
+        await assertSucceeds(as('bob').collection('circles/c1/members').get());
+        await assertSucceeds(as('bob').collection('circles').where('memberIds', 'array-contains', 'bob').get());
+    });
+
+    it('keeps the circle and its members from non-members', async () => {
+        await assertFails(as('carol').doc('circles/c1').get());
+        await assertFails(as('carol').doc('circles/c1/members/alice').get());
+        await assertFails(as('carol').collection('circles/c1/members').get());
+        await assertFails(env.unauthenticatedContext().firestore().doc('circles/c1').get());
+    });
+
+    it('lets a signed-in user look up a code but not list them', async () => {
+        await assertSucceeds(as('carol').doc(`circleInvites/${CODE}`).get());
+        await assertFails(as('carol').collection('circleInvites').get());
+        await assertFails(env.unauthenticatedContext().firestore().doc(`circleInvites/${CODE}`).get());
+    });
+});
+
+describe('circle member update', () => {
+    beforeEach(() => seed());
+
+    it('lets a member publish their summary', async () => {
+        await assertSucceeds(as('bob').doc('circles/c1/members/bob').update({
+            streak: { current: 3, longest: 5 },
+            today: { date: '2026-03-02', sessions: 2, minutes: 25 },
+            updatedAt: FieldValue.serverTimestamp(),
+        }));
+    });
+
+    it("rejects writing another member's document", async () => {
+        await assertFails(as('bob').doc('circles/c1/members/alice').update({ displayName: 'Al' }));
+        await assertFails(as('carol').doc('circles/c1/members/bob').update({ displayName: 'Bobby' }));
+        await assertFails(as('carol').doc('circles/c1/members/bob').set(member('bob')));
+    });
+
+    it('rejects changing who the document belongs to or the code it joined with', async () => {
+        await assertFails(as('bob').doc('circles/c1/members/bob').update({ userId: 'carol' }));
+        await assertFails(as('bob').doc('circles/c1/members/bob').update({ inviteCode: NEW_CODE }));
+    });
+
+    it('rejects a longest streak shorter than the current one', async () => {
+        await assertFails(as('bob').doc('circles/c1/members/bob').update({ streak: { current: 6, longest: 5 } }));
+    });
+
+    it('accepts presence stamped with the request time', async () => {
+        await assertSucceeds(as('bob').doc('circles/c1/members/bob').update({
+            sittingSince: Timestamp.now(),
+            lastSeen: FieldValue.serverTimestamp(),
+        }));
+        await assertSucceeds(as('bob').doc('circles/c1/members/bob').update({ sittingSince: null, lastSeen: null }));
+    });
+
+    it('rejects presence stamped with a client time', async () => {
+        await assertFails(as('bob').doc('circles/c1/members/bob').update({
+            sittingSince: Timestamp.now(),
+            lastSeen: Timestamp.fromMillis(Date.now() + 60 * 60 * 1000),
+        }));
+    });
+
+    it('accepts a sitting start in the past but not in the future', async () => {
+        await assertSucceeds(as('bob').doc('circles/c1/members/bob').update({
+            sittingSince: Timestamp.fromMillis(Date.now() - 20 * 60 * 1000),
+            lastSeen: FieldValue.serverTimestamp(),
+        }));
+        await assertFails(as('bob').doc('circles/c1/members/bob').update({
+            sittingSince: Timestamp.fromMillis(Date.now() + 60 * 60 * 1000),
+            lastSeen: FieldValue.serverTimestamp(),
+        }));
+    });
+
+    it('rejects a sitting start that is not a time', async () => {
+        await assertFails(as('bob').doc('circles/c1/members/bob').update({
+            sittingSince: Date.now(),
+            lastSeen: FieldValue.serverTimestamp(),
+        }));
+    });
+});
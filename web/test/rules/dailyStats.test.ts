@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { createRulesEnvironment, FieldValue, Timestamp } from './environment';
+
+const ID = 'alice_2026-03-01';
+
+const rollup = (overrides: Record<string, unknown> = {}) => ({
+    userId: 'alice',
+    date: '2026-03-01',
+    sessions: 2,
+    repeats: 42,
+    minutes: 20.5,
+    lostFocus: 1,
+    updatedAt: Timestamp.now(),
+    ...overrides,
+});
+
+const without = (data: Record<string, unknown>, key: string) =>
+    Object.fromEntries(Object.entries(data).filter(([k]) => k !== key));
+
+// The write a save makes: increments merged into the day's rollup
+const increments = (sign: 1 | -1 = 1) => ({
+    userId: 'alice',
+    date: '2026-03-01',
+    sessions: FieldValue.increment(sign),
+    repeats: FieldValue.increment(sign * 21),
+    minutes: FieldValue.increment(sign * 10.25),
+    lostFocus: FieldValue.increment(0),
+    updatedAt: FieldValue.serverTimestamp(),
+});
+
+let env: RulesTestEnvironment;
+const as = (uid: string) => env.authenticatedContext(uid).firestore();
+
+const seed = (data: Record<string, unknown> = rollup()) =>
+    env.withSecurityRulesDisabled(context => context.firestore().doc(`dailyStats/${ID}`).set(data));
+
+beforeAll(async () => {
+    env = await createRulesEnvironment();
+});
+
+afterAll(() => env?.cleanup());
+
+beforeEach(() => env.clearFirestore());
+
+describe('dailyStats create', () => {
+    it('accepts a complete rollup from its owner', async () => {
+        await assertSucceeds(as('alice').doc(`dailyStats/${ID}`).set(rollup()));
+    });
+
+    it("accepts a save's increments on a day without a rollup", async () => {
+        await assertSucceeds(as('alice').doc(`dailyStats/${ID}`).set(increments(), { merge: true }));
+    });
+
+    it('rejects a rollup written for someone else', async () => {
+        await assertFails(as('bob').doc(`dailyStats/${ID}`).set(rollup()));
+    });
+
+    it('rejects an id that does not match the owner and day', async () => {
+        await assertFails(as('alice').doc('dailyStats/alice_2026-03-02').set(rollup()));
+    });
+
+    it.each(['sessions', 'repeats', 'minutes', 'lostFocus'])('rejects a negative %s', async (field) => {
+        await assertFails(as('alice').doc(`dailyStats/${ID}`).set(rollup({ [field]: -1 })));
+    });
+
+    it.each(['sessions', 'repeats', 'minutes', 'lostFocus'])('rejects a %s that is not a number', async (field) => {
+        await assertFails(as('alice').doc(`dailyStats/${ID}`).set(rollup({ [field]: '3' })));
+    });
+
+    it.each(['sessions', 'repeats', 'minutes', 'lostFocus'])('rejects a rollup without %s', async (field) => {
+        await assertFails(as('alice').doc(`dailyStats/${ID}`).set(without(rollup(), field)));
+    });
+
+    it('rejects unknown fields', async () => {
+        await assertFails(as('alice').doc(`dailyStats/${ID}`).set(rollup({ note: 'calm week' })));
+    });
+
+    it('rejects a malformed date', async () => {
+        await assertFails(as('alice').doc('dailyStats/alice_1-3-2026').set(rollup({ date: '1-3-2026' })));
+    });
+});
+
+describe('dailyStats update', () => {
+    beforeEach(() => seed());
+
+    it("accepts a save's increments", async () => {
+        await assertSucceeds(as('alice').doc(`dailyStats/${ID}`).set(increments(), { merge: true }));
+    });
+
+    it('accepts taking a session back out', async () => {
+        await assertSucceeds(as('alice').doc(`dailyStats/${ID}`).set(increments(-1), { merge: true }));
+    });
+
+    it('rejects taking out more than the day holds', async () => {
+        await assertFails(as('alice').doc(`dailyStats/${ID}`).update({ sessions: FieldValue.increment(-3) }));
+    });
+
+    it('rejects a figure that is not a number', async () => {
+        await assertFails(as('alice').doc(`dailyStats/${ID}`).update({ minutes: 'lots' }));
+    });
+
+    it('rejects moving the rollup to another day or user', async () => {
+        await assertFails(as('alice').doc(`dailyStats/${ID}`).update({ date: '2026-03-02' }));
+        await assertFails(as('alice').doc(`dailyStats/${ID}`).update({ userId: 'bob' }));
+    });
+
+    it('rejects edits by another user', async () => {
+        await assertFails(as('bob').doc(`dailyStats/${ID}`).update({ sessions: 99 }));
+    });
+});
+
+describe('dailyStats read and delete', () => {
+    beforeEach(() => seed());
+
+    it('lets only the owner read', async () => {
+        await assertSucceeds(as('alice').doc(`dailyStats/${ID}`).get());
+        await assertFails(as('bob').doc(`dailyStats/${ID}`).get());
+        await assertSucceeds(as('alice').collection('dailyStats').where('userId', '==', 'alice').get());
+    });
+
+    it('lets only the owner delete', async () => {
+        await assertFails(as('bob').doc(`dailyStats/${ID}`).delete());
+        await assertSucceeds(as('alice').doc(`dailyStats/${ID}`).delete());
+    });
+});
@@ -0,0 +1,22 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+
+/**
+ * Shared setup for the rules tests. They run against the Firestore emulator
+ * started by `npm run test:rules`, which sets FIRESTORE_EMULATOR_HOST.
+ */
+
+// A demo- project never reaches a real one
+export const PROJECT_ID = 'demo-relax';
+
+export const createRulesEnvironment = () => initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+        rules: readFileSync(resolve(import.meta.dirname, '../../../firestore.rules'), 'utf8'),
+    },
+});
+
+export const { Timestamp, FieldValue } = firebase.firestore;
@@ -0,0 +1,188 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { createRulesEnvironment, Timestamp } from './environment';
+
+const START = Date.parse('2026-03-01T08:00:00Z');
+const END = START + 10 * 60 * 1000;
+
+const session = (overrides: Record<string, unknown> = {}) => ({
+    count: 21,
+    word: 'relax',
+    lostFocusCount: 1,
+    timestamp: Timestamp.fromMillis(END),
+    startTime: Timestamp.fromMillis(START),
+    endTime: Timestamp.fromMillis(END),
+    userId: 'alice',
+    timeZone: 'Europe/Madrid',
+    localDate: '2026-03-01',
+    ...overrides,
+});
+
+const without = (data: Record<string, unknown>, key: string) =>
+    Object.fromEntries(Object.entries(data).filter(([k]) => k !== key));
+
+let env: RulesTestEnvironment;
+const as = (uid: string) => env.authenticatedContext(uid).firestore();
+
+// Writes the session with the rules off, as if it had been saved earlier
+const seed = (data: Record<string, unknown> = session()) =>
+    env.withSecurityRulesDisabled(context => context.firestore().doc('history/s1').set(data));
+
+beforeAll(async () => {
+    env = await createRulesEnvironment();
+});
+
+afterAll(() => env?.cleanup());
+
+beforeEach(() => env.clearFirestore());
+
+describe('history create', () => {
+    it('accepts a complete session from its owner', async () => {
+        await assertSucceeds(as('alice').doc('history/s1').set(session()));
+    });
+
+    it('accepts a session with only the required fields', async () => {
+        await assertSucceeds(as('alice').doc('history/s1').set({ count: 0, timestamp: Timestamp.now(), userId: 'alice' }));
+    });
+
+    it('rejects a session written for someone else', async () => {
+        await assertFails(as('bob').doc('history/s1').set(session()));
+    });
+
+    it('rejects a session from a signed-out user', async () => {
+        await assertFails(env.unauthenticatedContext().firestore().doc('history/s1').set(session()));
+    });
+
+    it.each([
+        ['negative', -1],
+        ['fractional', 1.5],
+        ['over the cap', 1000001],
+        ['text', '21'],
+    ])('rejects a %s count', async (_, count) => {
+        await assertFails(as('alice').doc('history/s1').set(session({ count })));
+    });
+
+    it.each(['count', 'timestamp', 'userId'])('rejects a session without %s', async (key) => {
+        await assertFails(as('alice').doc('history/s1').set(without(session(), key)));
+    });
+
+    it('rejects an end time before the start time', async () => {
+        await assertFails(as('alice').doc('history/s1').set(session({
+            startTime: Timestamp.fromMillis(END),
+            endTime: Timestamp.fromMillis(START),
+        })));
+    });
+
+    it('rejects a session more than a day in the future', async () => {
+        await assertFails(as('alice').doc('history/s1').set(session({
+            timestamp: Timestamp.fromMillis(Date.now() + 2 * 24 * 60 * 60 * 1000),
+        })));
+    });
+
+    it('rejects unknown fields', async () => {
+        await assertFails(as('alice').doc('history/s1').set(session({ heartRate: 60 })));
+    });
+
+    it('rejects a time zone without its local date, and the other way round', async () => {
+        await assertFails(as('alice').doc('history/s1').set(without(session(), 'localDate')));
+        await assertFails(as('alice').doc('history/s1').set(without(session(), 'timeZone')));
+    });
+
+    it('rejects a malformed local date', async () => {
+        await assertFails(as('alice').doc('history/s1').set(session({ localDate: '1/3/2026' })));
+    });
+
+    it('rejects a note over 500 characters', async () => {
+        await assertSucceeds(as('alice').doc('history/s1').set(session({ note: 'a'.repeat(500) })));
+        await assertFails(as('alice').doc('history/s2').set(session({ note: 'a'.repeat(501) })));
+    });
+});
+
+// Each optional part: one value that must pass, then values that must not
+const subSchemas: [string, unknown, [string, unknown][]][] = [
+    ['goal', { type: 'duration', target: 600000, chimeInterval: 60 }, [
+        ['an unknown type', { type: 'laps', target: 10, chimeInterval: 0 }],
+        ['a zero target', { type: 'count', target: 0, chimeInterval: 0 }],
+        ['a fractional chime interval', { type: 'count', target: 108, chimeInterval: 1.5 }],
+        ['an extra key', { type: 'count', target: 108, chimeInterval: 0, reward: 'tea' }],
+    ]],
+    ['pacing', { patternId: 'box', autoCount: true }, [
+        ['a pattern id over 40 characters', { patternId: 'p'.repeat(41), autoCount: true }],
+        ['a non-boolean autoCount', { patternId: 'box', autoCount: 'yes' }],
+        ['an extra key', { patternId: 'box', autoCount: false, bpm: 6 }],
+    ]],
+    ['soundscape', { name: 'Rain', mix: { white: 0, pink: 0.2, brown: 0, rain: 0.8 } }, [
+        ['a volume over 1', { name: 'Rain', mix: { white: 0, pink: 0, brown: 0, rain: 1.5 } }],
+        ['an unknown noise', { name: 'Sea', mix: { white: 0, pink: 0, brown: 0, rain: 0, ocean: 1 } }],
+        ['a missing noise', { name: 'Rain', mix: { white: 0, pink: 0, rain: 1 } }],
+        ['a name over 30 characters', { name: 'n'.repeat(31), mix: { white: 0, pink: 0, brown: 0, rain: 1 } }],
+    ]],
+    ['checkIn', { before: { mood: 2 }, after: { mood: 4, note: 'calmer' } }, [
+        ['a mood below 1', { before: { mood: 0 } }],
+        ['a mood above 5', { after: { mood: 6 } }],
+        ['a note over 140 characters', { after: { mood: 3, note: 'n'.repeat(141) } }],
+        ['an extra half', { before: { mood: 3 }, during: { mood: 3 } }],
+    ]],
+    ['timeline', { repeats: 'AAE', lostFocus: '' }, [
+        ['non-string repeats', { repeats: 3, lostFocus: '' }],
+        ['an extra key', { repeats: 'AAE', lostFocus: '', breaths: 'A' }],
+    ]],
+];
+
+describe.each(subSchemas)('history %s', (field, valid, invalid) => {
+    it('accepts a well-formed value', async () => {
+        await assertSucceeds(as('alice').doc('history/s1').set(session({ [field]: valid })));
+    });
+
+    it.each(invalid)('rejects %s', async (_, value) => {
+        await assertFails(as('alice').doc('history/s1').set(session({ [field]: value })));
+    });
+});
+
+describe('history update', () => {
+    beforeEach(() => seed());
+
+    it('lets the owner edit the note', async () => {
+        await assertSucceeds(as('alice').doc('history/s1').update({ note: 'steady' }));
+    });
+
+    it('rejects handing the session to someone else', async () => {
+        await assertFails(as('alice').doc('history/s1').update({ userId: 'bob' }));
+    });
+
+    it('rejects moving when the session was recorded', async () => {
+        await assertFails(as('alice').doc('history/s1').update({ timestamp: Timestamp.fromMillis(END - 1000) }));
+    });
+
+    it('rejects changing its local date', async () => {
+        await assertFails(as('alice').doc('history/s1').update({ localDate: '2026-03-02' }));
+    });
+
+    it('rejects an update that breaks the schema', async () => {
+        await assertFails(as('alice').doc('history/s1').update({ count: -5 }));
+    });
+
+    it('rejects edits by another user', async () => {
+        await assertFails(as('bob').doc('history/s1').update({ note: 'mine now' }));
+    });
+});
+
+describe('history read and delete', () => {
+    beforeEach(() => seed());
+
+    it('lets only the owner read', async () => {
+        await assertSucceeds(as('alice').doc('history/s1').get());
+        await assertFails(as('bob').doc('history/s1').get());
+        await assertFails(env.unauthenticatedContext().firestore().doc('history/s1').get());
+    });
+
+    it('lets only the owner list their sessions', async () => {
+        await assertSucceeds(as('alice').collection('history').where('userId', '==', 'alice').get());
+        await assertFails(as('bob').collection('history').where('userId', '==', 'alice').get());
+    });
+
+    it('lets only the owner delete', async () => {
+        await assertFails(as('bob').doc('history/s1').delete());
+        await assertSucceeds(as('alice').doc('history/s1').delete());
+    });
+});
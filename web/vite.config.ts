@@ -1,7 +1,47 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join, relative, resolve } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  )
+
+// Fills the service worker's precache list with every file the build wrote
+const precacheManifest = (): Plugin => {
+  let outDir = 'dist'
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+    },
+    closeBundle() {
+      const swPath = join(outDir, 'sw.js')
+      const files = listFiles(outDir)
+        .map(file => '/' + relative(outDir, file).split('\\').join('/'))
+        .filter(file => file !== '/sw.js' && !file.endsWith('.map'))
+      // Hashing the contents means a rebuild of unchanged sources doesn't prompt an update
+      const hash = createHash('sha256')
+      files.forEach(file => hash.update(file).update(readFileSync(join(outDir, file))))
+      const manifest = JSON.stringify({ version: hash.digest('hex').slice(0, 12), files })
+      const source = readFileSync(swPath, 'utf8')
+      writeFileSync(swPath, source.replace('self.__PRECACHE_MANIFEST__', manifest))
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
+  test: {
+    // The emulator-backed rules tests have their own config
+    include: ['src/**/*.test.ts'],
+    // Pinned so the fallbacks to the device's timezone give the same day on every machine,
+    // and sessions kept in memory so modules that save them run without Firebase
+    env: { TZ: 'America/New_York', VITE_SESSION_BACKEND: 'memory' },
+  },
 })
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config'
+
+// The rules tests share one emulator, so files run one after another
+export default defineConfig({
+  test: {
+    include: ['test/rules/**/*.test.ts'],
+    environment: 'node',
+    fileParallelism: false,
+    testTimeout: 15000,
+    hookTimeout: 30000,
+  },
+})